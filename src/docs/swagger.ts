@@ -20,6 +20,11 @@ interface SwaggerDocument {
         scheme: string;
         bearerFormat: string;
       };
+      ApiKeyAuth: {
+        type: string;
+        in: string;
+        name: string;
+      };
     };
   };
   paths: Record<string, unknown>;
@@ -55,6 +60,12 @@ const swaggerDocument: SwaggerDocument = {
         scheme: "bearer",
         bearerFormat: "JWT",
       },
+      // Partner API keys, accepted alongside the JWT bearer scheme
+      ApiKeyAuth: {
+        type: "apiKey",
+        in: "header",
+        name: "X-API-Key",
+      },
     },
   },
   paths: {
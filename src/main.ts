@@ -4,31 +4,66 @@ import express from "express";
 import mongoose from "mongoose";
 import adminexpertRoute from "./routes/AdminExpertRoutes";
 import adminRoute from "./routes/AdminRoutes";
+import adminTwoFactorRoutes from "./routes/AdminTwoFactorRoutes";
+import apiKeyRoutes from "./routes/ApiKeyRoutes";
+import auditLogRoutes from "./routes/AuditLogRoutes";
 import bookingRoutes from "./routes/BookingRoutes";
 import dateRoutes from "./routes/DateRoutes";
 import expertRoute from "./routes/ExpertRoutes";
+import meRoutes from "./routes/MeRoutes";
 import planRoutes from "./routes/PlanRoutes";
 import requestRescheduleRoute from "./routes/RequestRescheduleRoutes";
 import reschedulingOptionsRoute from "./routes/ReschedulingOptionsRoutes";
 import SlotsRoutes from "./routes/SlotsRoutes";
+import waitlistRoutes from "./routes/WaitlistRoutes";
+import slotHoldRoutes from "./routes/SlotHoldRoutes";
+import mediaRoutes from "./routes/MediaRoutes";
+import kycRoutes from "./routes/KycRoutes";
+import guestRoutes from "./routes/GuestRoutes";
+import sessionNoteRoutes from "./routes/SessionNoteRoutes";
+import reviewRoutes from "./routes/ReviewRoutes";
+import bookingScreeningRoutes from "./routes/BookingScreeningRoutes";
 import swaggerUi from "swagger-ui-express";
 import swaggerDocument from "./docs/swagger"; // load the YAML file
+import { auditContext } from "./middleware/audit";
+import { apiKeyAuth } from "./middleware/apiKey";
+import { startWaitlistSweeper } from "./services/WaitlistService";
+import { startMediaSweeper } from "./services/MediaService";
+import { configureMailTransport } from "./services/MailService";
+import { configureSmsTransport } from "./services/SmsService";
 
 const app = express();
 app.use(express.json()); // to accept json data
+app.use(auditContext); // lets the audit log attribute changes to the request
+app.use("/api/v1", apiKeyAuth); // partner API keys (X-API-Key header)
 dotenv.config(); // Load environment variables
+configureMailTransport(); // deliver mail through the provider set in .env
+configureSmsTransport();
 
 // Swagger route
 app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerDocument));
 
 // import routes
 
+// Mounted first so the catch-all "/:id" routes below never shadow "/me"
+app.use("/api/v1/me", meRoutes);
 app.use("/api/v1", expertRoute);
 app.use("/api/v1/admin", adminRoute);
+app.use("/api/v1/admin", adminTwoFactorRoutes);
+app.use("/api/v1/admin", auditLogRoutes);
+app.use("/api/v1/admin", apiKeyRoutes);
+app.use("/api/v1", slotHoldRoutes); // before planRoutes, whose DELETE "/:id" would match "/slot-holds"
 app.use("/api/v1", planRoutes);
 app.use("/api/v1", SlotsRoutes);
 app.use("/api/v1", dateRoutes);
 app.use("/api/v1", bookingRoutes);
+app.use("/api/v1", waitlistRoutes);
+app.use("/api/v1", mediaRoutes);
+app.use("/api/v1", kycRoutes);
+app.use("/api/v1", guestRoutes);
+app.use("/api/v1", sessionNoteRoutes);
+app.use("/api/v1", reviewRoutes);
+app.use("/api/v1", bookingScreeningRoutes);
 app.use("/api/v1", adminexpertRoute);
 app.use("/api/v1/booking", requestRescheduleRoute);
 app.use("/api/v1", reschedulingOptionsRoute);
@@ -50,6 +85,8 @@ const connectDb = async (): Promise<void> => {
 };
 
 connectDb();
+startWaitlistSweeper(); // expires unclaimed waitlist offers and passes them on
+startMediaSweeper(); // removes uploads that were never attached to a booking
 
 app.listen(process.env.PORT, () => {
   console.log(`server is running on ${process.env.PORT}`.bgYellow.black);
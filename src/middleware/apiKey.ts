@@ -0,0 +1,98 @@
+// Middleware for partner API key authentication
+import { Request, Response, NextFunction } from "express";
+import { ApiKey, ApiKeyScope } from "../models/ApiKeyModel";
+import { hashToken } from "../services/TokenService";
+import { getRateLimitStore } from "../services/RateLimitStore";
+import { tooManyRequests } from "./rateLimit";
+import { forbidden } from "./auth";
+
+/**
+ * The API key a request was made with.
+ * @interface ApiKeyPrincipal
+ * @property {string} id - The ID of the API key document.
+ * @property {ApiKeyScope[]} scopes - What the key may do.
+ * @property {string} [expertId] - The expert an "expert:manage" key manages.
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  scopes: ApiKeyScope[];
+  expertId?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyPrincipal;
+    }
+  }
+}
+
+// Header partners send their key in
+export const API_KEY_HEADER = "X-API-Key";
+
+// lastUsedAt is only written when older than this, to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Authenticates requests carrying an `X-API-Key` header and enforces the key's own rate limit.
+ * Requests without the header pass through untouched, so it can be mounted globally.
+ */
+export const apiKeyAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const rawKey = req.header(API_KEY_HEADER);
+  if (!rawKey) {
+    return next();
+  }
+
+  try {
+    const apiKey = await ApiKey.findOne({
+      keyHash: hashToken(rawKey),
+      revokedAt: { $exists: false },
+    });
+    if (!apiKey) {
+      return res.status(401).json({ message: "Invalid API key." });
+    }
+
+    const hit = await getRateLimitStore().increment(
+      `api-key:${apiKey._id}`,
+      60 * 1000
+    );
+    if (hit.count > apiKey.rateLimitPerMinute) {
+      return tooManyRequests(res, hit.resetAt);
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: now });
+    }
+
+    req.apiKey = {
+      id: String(apiKey._id),
+      scopes: apiKey.scopes,
+      expertId: apiKey.expertId ? String(apiKey.expertId) : undefined,
+    };
+  } catch (error) {
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  next();
+};
+
+/**
+ * Middleware factory requiring API key callers to hold a scope.
+ * Callers without an API key (browsers, JWT users) are not affected.
+ * @param {ApiKeyScope} scope - The scope the route needs.
+ */
+export const requireApiKeyScope =
+  (scope: ApiKeyScope) => (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+      return forbidden(res);
+    }
+    next();
+  };
@@ -0,0 +1,25 @@
+// Middleware exposing the current request to the audit plugin
+import { AsyncLocalStorage } from "async_hooks";
+import { Request, Response, NextFunction } from "express";
+
+const requestStorage = new AsyncLocalStorage<Request>();
+
+/**
+ * Makes the current request available to code that has no access to it,
+ * such as Mongoose hooks. Must be mounted before the routers.
+ */
+export const auditContext = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  requestStorage.run(req, () => next());
+};
+
+/**
+ * Returns the request currently being handled, if any.
+ * `req.user` is read at call time, so it reflects authentication done after this middleware ran.
+ * @returns {Request | undefined}
+ */
+export const getCurrentRequest = (): Request | undefined =>
+  requestStorage.getStore();
@@ -1,21 +1,131 @@
 // Middleware for JWT auhentication
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { isSessionActive } from '../services/TokenService';
+import { ApiKeyScope } from '../models/ApiKeyModel';
 
-export const authenticateJWT = (req: Request, res: Response, next: NextFunction) => {
+/**
+ * Enum for the roles carried in the JWT.
+ * Requests without a token are treated as guests.
+ * @enum {string}
+ */
+export enum Role {
+  ADMIN = 'admin',
+  EXPERT = 'expert',
+  GUEST = 'guest',
+}
+
+/**
+ * Interface representing the authenticated principal attached to the request.
+ * @interface AuthUser
+ * @property {string} id - The ID of the admin or expert document.
+ * @property {Role} role - The role of the principal.
+ * @property {string} [sessionId] - The session the access token was issued for (absent for API keys).
+ */
+export interface AuthUser {
+  id: string;
+  role: Role;
+  sessionId?: string;
+}
+
+interface AccessTokenPayload {
+  id: string;
+  role: Role;
+  sid: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+export const authenticateJWT = async (req: Request, res: Response, next: NextFunction) => {
   const token = req.header('Authorization')?.split(' ')[1];
 
+  // Partner API keys scoped to manage an expert act on behalf of that expert
+  if (!token && req.apiKey) {
+    if (!req.apiKey.scopes.includes(ApiKeyScope.EXPERT_MANAGE) || !req.apiKey.expertId) {
+      return forbidden(res);
+    }
+    req.user = { id: req.apiKey.expertId, role: Role.EXPERT };
+    return next();
+  }
+
 // validation for token
   if (!token) {
-    return res.status(403).json({ message: 'Access denied. No token provided.' });
+    return res.status(401).json({ message: 'Access denied. No token provided.' });
   }
 
+  let decoded: AccessTokenPayload;
   try {
     // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!);
-    (req as any).user = decoded; // Add decoded token data to request object
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET!) as AccessTokenPayload;
+    if (!Object.values(Role).includes(decoded.role) || !decoded.sid) {
+      return res.status(401).json({ message: 'Invalid token.' });
+    }
+
+    // Reject tokens whose session was revoked (logout, refresh token reuse, ...)
+    if (!(await isSessionActive(decoded.sid))) {
+      return res.status(401).json({ message: 'Token has been revoked.' });
+    }
   } catch (error) {
-    res.status(400).json({ message: 'Invalid token.' });
+    return res.status(401).json({ message: 'Invalid token.' });
   }
+
+  req.user = { id: decoded.id, role: decoded.role, sessionId: decoded.sid }; // Add decoded token data to request object
+  next();
+};
+
+/**
+ * Like `authenticateJWT`, but lets requests without a token through unauthenticated,
+ * for routes that anyone may use but that do more for logged-in users.
+ */
+export const authenticateOptional = (req: Request, res: Response, next: NextFunction) =>
+  req.header('Authorization') ? authenticateJWT(req, res, next) : next();
+
+/**
+ * Middleware factory restricting a route to the given roles.
+ * Must be mounted after `authenticateJWT`.
+ * @param {...Role} roles - The roles allowed to access the route.
+ */
+export const authorizeRoles =
+  (...roles: Role[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Access denied. No token provided.' });
+    }
+    if (!roles.includes(req.user.role)) {
+      return forbidden(res);
+    }
+    next();
+  };
+
+/**
+ * Checks whether the authenticated user may manage documents of the given expert.
+ * Admins may manage every expert, experts only themselves.
+ * @param {AuthUser | undefined} user - The authenticated user.
+ * @param {unknown} expertId - The expert ID the document belongs to.
+ * @returns {boolean}
+ */
+export const canManageExpert = (user: AuthUser | undefined, expertId: unknown): boolean => {
+  if (!user) return false;
+  if (user.role === Role.ADMIN) return true;
+  return user.role === Role.EXPERT && expertId != null && String(expertId) === user.id;
 };
+
+/**
+ * Sends the standard 403 response.
+ * @param {Response} res - Express response object.
+ */
+export const forbidden = (res: Response) =>
+  res.status(403).json({ message: 'Access denied. Insufficient permissions.' });
+
+// Ready-made middleware chains for the per-route policies
+export const requireAdmin = [authenticateJWT, authorizeRoles(Role.ADMIN)];
+export const requireExpertOrAdmin = [
+  authenticateJWT,
+  authorizeRoles(Role.ADMIN, Role.EXPERT),
+];
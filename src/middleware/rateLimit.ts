@@ -0,0 +1,140 @@
+// Middleware for rate limiting
+import { Request, Response, NextFunction } from "express";
+import { getRateLimitStore } from "../services/RateLimitStore";
+
+/**
+ * A single counter applied to a route.
+ * @interface RateLimitBucket
+ * @property {string} name - Name of the bucket, used in the store key (e.g. "ip", "email").
+ * @property {number} max - Default maximum hits allowed per window.
+ * @property {(req: Request) => string | undefined} key - Extracts the bucket value; requests without one skip the bucket.
+ */
+export interface RateLimitBucket {
+  name: string;
+  max: number;
+  key: (req: Request) => string | undefined;
+}
+
+/**
+ * Rate limit configuration for a route.
+ * The window and maximums are defaults that can be overridden per route from the
+ * environment, e.g. for `route: "guest-login"` with an "email" bucket:
+ * `RATE_LIMIT_GUEST_LOGIN_WINDOW_MS` and `RATE_LIMIT_GUEST_LOGIN_EMAIL_MAX`.
+ * @interface RateLimitOptions
+ * @property {string} route - Identifier of the limited route, keeps counters of different routes apart.
+ * @property {number} windowMs - Default length of the window in milliseconds.
+ * @property {RateLimitBucket[]} buckets - Counters that must all stay under their limit.
+ */
+export interface RateLimitOptions {
+  route: string;
+  windowMs: number;
+  buckets: RateLimitBucket[];
+}
+
+/**
+ * Bucket keyed by the client IP address.
+ * Partners calling with an API key are throttled per key instead, since they
+ * relay many guests from the same servers.
+ * @param {number} max - Maximum hits per window for one IP.
+ */
+export const byIp = (max: number): RateLimitBucket => ({
+  name: "ip",
+  max,
+  key: (req) => (req.apiKey ? undefined : req.ip),
+});
+
+// Default normalisation of identity values: casing and spacing are ignored
+const normalizeIdentity = (value: string) =>
+  value.trim().toLowerCase().replace(/\s+/g, "");
+
+/**
+ * Bucket keyed by an identity field of the request body (email, phone, ...).
+ * Values are normalised so casing and spacing cannot be used to dodge the limit.
+ * @param {string} field - The body field holding the identity.
+ * @param {number} max - Maximum hits per window for one identity.
+ * @param {(value: string) => string} [normalize] - Maps every spelling of an identity to one key,
+ * e.g. `normalizePhone` so punctuation in phone numbers does not count.
+ */
+export const byBodyField = (
+  field: string,
+  max: number,
+  normalize = normalizeIdentity
+): RateLimitBucket => ({
+  name: field,
+  max,
+  key: (req) => {
+    const value = req.body?.[field];
+    const key = typeof value === "string" ? normalize(value) : "";
+    return key || undefined;
+  },
+});
+
+/**
+ * Sends the standard 429 response.
+ * @param {Response} res - Express response object.
+ * @param {Date} retryAt - When the client may try again.
+ * @param {string} [message] - Optional message to return.
+ */
+export const tooManyRequests = (
+  res: Response,
+  retryAt: Date,
+  message = "Too many requests. Please try again later."
+) => {
+  const retryAfter = Math.max(
+    1,
+    Math.ceil((retryAt.getTime() - Date.now()) / 1000)
+  );
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({ message, retryAfter });
+};
+
+// "guest-login" and "guestEmail" become "GUEST_LOGIN" and "GUEST_EMAIL"
+const toEnvName = (name: string) =>
+  name
+    .replace(/([a-z\d])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z\d]+/g, "_")
+    .toUpperCase();
+
+/**
+ * Middleware factory limiting how often a route can be hit per IP and per identity.
+ * Overrides from the environment are read on each request, so values from .env are
+ * picked up after dotenv has loaded.
+ * @param {RateLimitOptions} options - The default limits for this route.
+ */
+export const rateLimit =
+  (options: RateLimitOptions) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const store = getRateLimitStore();
+    const prefix = `RATE_LIMIT_${toEnvName(options.route)}`;
+    const windowMs =
+      Number(process.env[`${prefix}_WINDOW_MS`]) || options.windowMs;
+
+    try {
+      let blockedUntil: Date | undefined;
+
+      for (const bucket of options.buckets) {
+        const value = bucket.key(req);
+        if (!value) continue;
+
+        const max =
+          Number(process.env[`${prefix}_${toEnvName(bucket.name)}_MAX`]) ||
+          bucket.max;
+        const hit = await store.increment(
+          `${options.route}:${bucket.name}:${value}`,
+          windowMs
+        );
+        if (hit.count > max && (!blockedUntil || hit.resetAt > blockedUntil)) {
+          blockedUntil = hit.resetAt;
+        }
+      }
+
+      if (blockedUntil) {
+        return tooManyRequests(res, blockedUntil);
+      }
+    } catch (error) {
+      // Never take the API down because the limiter's store is unavailable
+      console.error("Rate limit store error:", error);
+    }
+
+    next();
+  };
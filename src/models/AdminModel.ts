@@ -8,18 +8,35 @@ import mongoose, { Schema, Document } from "mongoose";
  * @property {string} name - The name of the admin.
  * @property {string} email - The email address of the admin.
  * @property {string} password - The hashed password of the admin.
+ * @property {Date} [passwordChangedAt] - When the password was last changed or reset.
+ * @property {number} failedLoginAttempts - Consecutive failed logins since the last success or lock.
+ * @property {Date} [lockUntil] - Logins are refused until this time after repeated failures.
+ * @property {boolean} twoFactorEnabled - Whether TOTP two-factor authentication is on.
+ * @property {string} [twoFactorSecret] - The confirmed TOTP secret (never selected by default).
+ * @property {string} [twoFactorPendingSecret] - A TOTP secret awaiting confirmation during enrollment.
+ * @property {string[]} twoFactorRecoveryCodes - SHA-256 hashes of the unused recovery codes.
+ * @property {number} [twoFactorLastStep] - Last accepted TOTP time step, so a code cannot be replayed.
  */
 
 export interface IAdmin extends Document {
   name: string;
   email: string;
   password: string;
+  passwordChangedAt?: Date;
+  failedLoginAttempts: number;
+  lockUntil?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastStep?: number;
 }
 
 // Define the Mongoose schema for Admin
 /**
  * Mongoose schema for Admin collection.
  * Contains fields for name, email, and password with required constraints.
+ * The password hash and two-factor secrets are stripped from JSON output.
  * Includes timestamps for createdAt and updatedAt fields.
  * @type {Schema<IAdmin>}
  */
@@ -39,9 +56,48 @@ const adminSchema: Schema<IAdmin> = new Schema(
       type: String,
       required: true,
     },
+    passwordChangedAt: {
+      type: Date,
+    },
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lockUntil: {
+      type: Date,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: [],
+    },
+    twoFactorLastStep: {
+      type: Number,
+    },
   },
   {
     timestamps: true, // Automatically adds `createdAt` and `updatedAt` fields
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete ret.password;
+        delete ret.twoFactorSecret;
+        delete ret.twoFactorPendingSecret;
+        delete ret.twoFactorRecoveryCodes;
+        return ret;
+      },
+    },
   }
 );
 
@@ -0,0 +1,75 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Enum for what a partner API key may do.
+ * @enum {string}
+ */
+export enum ApiKeyScope {
+  CALENDAR_READ = "calendar:read",
+  BOOKINGS_CREATE = "bookings:create",
+  EXPERT_MANAGE = "expert:manage",
+}
+
+/**
+ * Interface representing a partner API key in MongoDB.
+ * Only the SHA-256 hash of the key is stored; the raw key is shown once on creation.
+ * @interface IApiKey
+ * @extends {Document}
+ * @property {string} name - Label of the key (usually the partner's name).
+ * @property {string} prefix - First characters of the key, to recognise it in listings.
+ * @property {string} keyHash - SHA-256 hash of the key.
+ * @property {ApiKeyScope[]} scopes - What the key may do.
+ * @property {mongoose.Schema.Types.ObjectId} [expertId] - The expert an "expert:manage" key manages.
+ * @property {number} rateLimitPerMinute - Maximum requests per minute for this key.
+ * @property {Date} [lastUsedAt] - When the key was last used (updated at most once a minute).
+ * @property {Date} [revokedAt] - When the key was revoked, if it was.
+ * @property {mongoose.Schema.Types.ObjectId} createdBy - The admin who created the key.
+ */
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  expertId?: mongoose.Schema.Types.ObjectId;
+  rateLimitPerMinute: number;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdBy: mongoose.Schema.Types.ObjectId;
+}
+
+/**
+ * Mongoose schema for the ApiKey collection.
+ * The key hash is never selected or serialized by default.
+ * @type {Schema<IApiKey>}
+ */
+const apiKeySchema: Schema = new Schema(
+  {
+    name: { type: String, required: true },
+    prefix: { type: String, required: true },
+    keyHash: { type: String, required: true, unique: true, select: false },
+    scopes: {
+      type: [{ type: String, enum: Object.values(ApiKeyScope) }],
+      required: true,
+    },
+    expertId: { type: Schema.Types.ObjectId, ref: "Expert" },
+    rateLimitPerMinute: { type: Number, required: true, default: 60 },
+    lastUsedAt: { type: Date },
+    revokedAt: { type: Date },
+    createdBy: { type: Schema.Types.ObjectId, ref: "Admin", required: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete ret.keyHash;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * The ApiKey model based on the API key schema.
+ * @typedef {mongoose.Model<IApiKey>}
+ */
+export const ApiKey = mongoose.model<IApiKey>("ApiKey", apiKeySchema);
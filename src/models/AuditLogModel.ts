@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Enum for audited operations.
+ * @enum {string}
+ */
+export enum AuditAction {
+  CREATE = "create",
+  UPDATE = "update",
+  DELETE = "delete",
+}
+
+/**
+ * Interface representing an audit log entry in MongoDB.
+ * @interface IAuditLog
+ * @extends {Document}
+ * @property {string} [actorId] - ID of the admin or expert who made the change (absent for guests).
+ * @property {string} actorRole - Role of the actor ("admin", "expert" or "guest").
+ * @property {string} [method] - HTTP method of the request that made the change.
+ * @property {string} [route] - Path of the request that made the change.
+ * @property {string} targetModel - Name of the changed model (e.g. "Plan").
+ * @property {mongoose.Types.ObjectId} targetId - ID of the changed document.
+ * @property {AuditAction} action - Whether the document was created, updated or deleted.
+ * @property {Record<string, unknown>} [before] - The document before the change.
+ * @property {Record<string, unknown>} [after] - The document after the change.
+ * @property {Record<string, { from: unknown; to: unknown }>} changes - Changed fields only.
+ */
+export interface IAuditLog extends Document {
+  actorId?: string;
+  actorRole: string;
+  method?: string;
+  route?: string;
+  targetModel: string;
+  targetId: mongoose.Types.ObjectId;
+  action: AuditAction;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for the AuditLog collection.
+ * Entries are append-only; only `createdAt` is tracked.
+ * @type {Schema<IAuditLog>}
+ */
+const auditLogSchema: Schema = new Schema(
+  {
+    actorId: { type: String, index: true },
+    actorRole: { type: String, required: true },
+    method: { type: String },
+    route: { type: String },
+    targetModel: { type: String, required: true, index: true },
+    targetId: { type: Schema.Types.ObjectId, required: true, index: true },
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: true,
+    },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+    changes: { type: Schema.Types.Mixed, default: {} },
+  },
+  { timestamps: { createdAt: true, updatedAt: false }, minimize: false }
+);
+
+auditLogSchema.index({ createdAt: -1 });
+
+/**
+ * The AuditLog model based on the audit log schema.
+ * @typedef {mongoose.Model<IAuditLog>}
+ */
+export const AuditLog = mongoose.model<IAuditLog>("AuditLog", auditLogSchema);
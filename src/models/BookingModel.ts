@@ -1,10 +1,12 @@
+import crypto from "crypto";
 import mongoose, { Schema, Document } from "mongoose";
+import { auditPlugin } from "../services/AuditService";
 
 /**
  * Enum for different guest occupations.
  * @enum {string}
  */
-enum GuestOccupation {
+export enum GuestOccupation {
   STUDENT = "Student",
   BUSINESSMAN = "Businessperson",
   WORKING_PROFESSIONAL = "Working Professional",
@@ -12,19 +14,106 @@ enum GuestOccupation {
 
 /**
  * Enum for booking status.
+ * Bookings start as Pending; see `BOOKING_TRANSITIONS` in BookingService for the allowed moves.
  * @enum {string}
  */
 export enum Status {
   PENDING = "Pending",
+  CONFIRMED = "Confirmed",
   COMPLETED = "Completed",
   CANCELLED = "Cancelled",
+  NO_SHOW = "NoShow",
   RESCHEDULED = "Rescheduled",
 }
 
+// No 0/O or 1/I, so codes survive being read out or typed from memory
+const REFERENCE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const REFERENCE_LENGTH = 5;
+
+// Matches a booking reference such as "TM-7K3QX"
+export const BOOKING_REFERENCE_PATTERN = /^TM-[A-HJ-NP-Z2-9]{5}$/;
+
+/**
+ * Generates a random booking reference such as "TM-7K3QX".
+ * @returns {string}
+ */
+export const generateBookingReference = (): string => {
+  let code = "";
+  for (let i = 0; i < REFERENCE_LENGTH; i++) {
+    code += REFERENCE_ALPHABET[crypto.randomInt(REFERENCE_ALPHABET.length)];
+  }
+  return `TM-${code}`;
+};
+
+/**
+ * Enum for the outcome of screening a new booking for spam and duplicates.
+ * @enum {string}
+ */
+export enum ScreeningStatus {
+  CLEAR = "clear", // no rule matched
+  HELD = "held", // waiting for an admin; cannot be confirmed until released
+  RELEASED = "released", // an admin found it legitimate
+  REJECTED = "rejected", // an admin cancelled it
+}
+
+/**
+ * Interface representing how a booking fared in spam and duplicate screening.
+ * @interface IBookingScreening
+ * @property {ScreeningStatus} status - The outcome.
+ * @property {string[]} reasons - Why the booking was held, one entry per rule that matched.
+ * @property {string[]} phoneKeys - The guest's phone and WhatsApp numbers, normalised for matching.
+ * @property {string} [problemHash] - Hash of the normalised `guestProblem`, for spotting repeated texts.
+ * @property {string} [reviewedBy] - ID of the admin who released or rejected the booking.
+ * @property {Date} [reviewedAt] - When it was released or rejected.
+ */
+export interface IBookingScreening {
+  status: ScreeningStatus;
+  reasons: string[];
+  phoneKeys: string[];
+  problemHash?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+}
+
+/**
+ * Interface representing a guest's answer to one of the plan's intake questions.
+ * The question's label is kept as it was asked, since the plan's questionnaire can change.
+ * @interface IIntakeAnswer
+ * @property {string} key - The question's key.
+ * @property {string} label - The question as it was asked.
+ * @property {string | number | boolean | string[]} value - The answer.
+ */
+export interface IIntakeAnswer {
+  key: string;
+  label: string;
+  value: string | number | boolean | string[];
+}
+
+/**
+ * Interface representing one status change of a booking.
+ * @interface IStatusChange
+ * @property {Status} [from] - The previous status (absent for the initial status).
+ * @property {Status} to - The new status.
+ * @property {Date} changedAt - When the status changed.
+ * @property {string} [changedBy] - ID of the admin or expert who changed it (absent for guests).
+ * @property {string} changedByRole - Role of whoever changed it ("admin", "expert" or "guest").
+ * @property {string} [reason] - Why the status changed.
+ */
+export interface IStatusChange {
+  from?: Status;
+  to: Status;
+  changedAt: Date;
+  changedBy?: string;
+  changedByRole: string;
+  reason?: string;
+}
+
 /**
  * Interface representing a Booking document in MongoDB.
  * @interface IBooking
  * @extends {Document}
+ * @property {string} reference - Short code guests use to refer to the booking (e.g. "TM-7K3QX").
+ * @property {mongoose.Schema.Types.ObjectId} [guestId] - The guest account the booking belongs to, matched by email.
  * @property {string} guestName - Name of the guest.
  * @property {mongoose.Schema.Types.ObjectId} dateId - Reference to the Date model.
  * @property {GuestOccupation} guestOccupation - Occupation of the guest.
@@ -35,14 +124,24 @@ export enum Status {
  * @property {string} guestWhatsapp - WhatsApp number of the guest.
  * @property {string} guestWebsite - Website of the guest (optional).
  * @property {string} guestProblem - Description of the guest's problem.
- * @property {string} [guestVoiceNote] - Voice note from the guest (optional).
+ * @property {string} [guestVoiceNote] - ID of the guest's uploaded voice note (optional).
+ * @property {mongoose.Schema.Types.ObjectId[]} guestAttachments - Files the guest uploaded with the booking.
  * @property {string[]} tags - Tags related to the booking.
- * @property {boolean} guestKYC - KYC status of the guest.
+ * @property {boolean} guestKYC - Whether the guest's identity was verified (set by the API, see KycService).
  * @property {mongoose.Schema.Types.ObjectId} expertId - Reference to the Expert model.
  * @property {mongoose.Schema.Types.ObjectId} slotId - Reference to the Slot model.
+ * @property {mongoose.Schema.Types.ObjectId} [planId] - Reference to the Plan of the booked slot.
  * @property {Status} status - Current status of the booking.
+ * @property {IStatusChange[]} statusHistory - Every status the booking has had, oldest first.
+ * @property {{ percent: number; amount?: number }} [cancellationFee] - Fee charged when the guest cancelled late.
+ * @property {mongoose.Schema.Types.ObjectId} [seriesId] - The recurring series the booking is a session of.
+ * @property {number} [seriesIndex] - Position of the session in its series, starting at 0.
+ * @property {IIntakeAnswer[]} intakeAnswers - Answers to the plan's intake questions, in the plan's order.
+ * @property {IBookingScreening} [screening] - Spam and duplicate screening; absent on bookings made before screening existed.
  */
 export interface IBooking extends Document {
+  reference: string;
+  guestId?: mongoose.Schema.Types.ObjectId;
   guestName: string;
   dateId: mongoose.Schema.Types.ObjectId;
   guestOccupation: GuestOccupation;
@@ -54,11 +153,19 @@ export interface IBooking extends Document {
   guestWebsite: string;
   guestProblem: string;
   guestVoiceNote?: string; // Optional field
+  guestAttachments: mongoose.Schema.Types.ObjectId[];
   tags: string[];
   guestKYC: boolean;
   expertId: mongoose.Schema.Types.ObjectId;
   slotId: mongoose.Schema.Types.ObjectId;
+  planId?: mongoose.Schema.Types.ObjectId;
   status: Status;
+  statusHistory: IStatusChange[];
+  cancellationFee?: { percent: number; amount?: number };
+  seriesId?: mongoose.Schema.Types.ObjectId;
+  seriesIndex?: number;
+  intakeAnswers: IIntakeAnswer[];
+  screening?: IBookingScreening;
 }
 
 /**
@@ -67,6 +174,9 @@ export interface IBooking extends Document {
  */
 const bookingSchema: Schema = new Schema(
   {
+    // Sparse, as bookings made before references existed have none until backfillBookingReferences runs
+    reference: { type: String, unique: true, sparse: true },
+    guestId: { type: Schema.Types.ObjectId, ref: "Guest", index: true },
     guestName: { type: String, required: true },
     dateId: { type: Schema.Types.ObjectId, ref: "Date", required: true },
     guestOccupation: {
@@ -81,16 +191,74 @@ const bookingSchema: Schema = new Schema(
     guestWhatsapp: { type: String, required: true },
     guestWebsite: { type: String },
     guestProblem: { type: String, required: true },
-    guestVoiceNote: { type: String }, // Optional field
+    guestVoiceNote: { type: String }, // Optional field, MediaFile ID (older bookings may hold free text)
+    guestAttachments: [{ type: Schema.Types.ObjectId, ref: "MediaFile" }],
     tags: [{ type: String, required: true }],
-    guestKYC: { type: Boolean, required: true },
+    guestKYC: { type: Boolean, default: false },
     expertId: { type: Schema.Types.ObjectId, ref: "Expert", required: true },
     slotId: { type: Schema.Types.ObjectId, ref: "Slot", required: true },
-    status: { type: String, enum: Object.values(Status), required: true },
+    planId: { type: Schema.Types.ObjectId, ref: "Plan" },
+    status: {
+      type: String,
+      enum: Object.values(Status),
+      required: true,
+      default: Status.PENDING,
+    },
+    statusHistory: [
+      {
+        _id: false,
+        from: { type: String, enum: Object.values(Status) },
+        to: { type: String, enum: Object.values(Status), required: true },
+        changedAt: { type: Date, required: true },
+        changedBy: { type: String },
+        changedByRole: { type: String, required: true },
+        reason: { type: String },
+      },
+    ],
+    cancellationFee: {
+      percent: { type: Number },
+      amount: { type: Number },
+    },
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: "BookingSeries",
+      index: true,
+    },
+    seriesIndex: { type: Number },
+    intakeAnswers: [
+      {
+        _id: false,
+        key: { type: String, required: true },
+        label: { type: String, required: true },
+        value: { type: Schema.Types.Mixed },
+      },
+    ],
+    screening: {
+      status: { type: String, enum: Object.values(ScreeningStatus) },
+      reasons: [{ type: String }],
+      phoneKeys: [{ type: String }],
+      problemHash: { type: String },
+      reviewedBy: { type: String },
+      reviewedAt: { type: Date },
+    },
   },
   { timestamps: true }
 );
 
+// Screening rules look back over recent bookings by phone number and problem text
+bookingSchema.index({ "screening.phoneKeys": 1, createdAt: -1 });
+bookingSchema.index({ "screening.problemHash": 1, createdAt: -1 });
+bookingSchema.index({ "screening.status": 1, createdAt: 1 });
+
+// Assigned on creation only; a schema default would also fill it in on older bookings when they are loaded
+bookingSchema.pre("validate", function () {
+  if (this.isNew && !this.reference) {
+    this.reference = generateBookingReference();
+  }
+});
+
+bookingSchema.plugin(auditPlugin, { modelName: "Booking" });
+
 /**
  * The Booking model based on the booking schema.
  * @typedef {mongoose.Model<IBooking>}
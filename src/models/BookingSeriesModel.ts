@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Enum for how far apart the sessions of a series are.
+ * @enum {string}
+ */
+export enum SeriesInterval {
+  WEEKLY = "weekly",
+  BIWEEKLY = "biweekly",
+}
+
+/**
+ * Days between two sessions of a series.
+ */
+export const SERIES_INTERVAL_DAYS: Record<SeriesInterval, number> = {
+  [SeriesInterval.WEEKLY]: 7,
+  [SeriesInterval.BIWEEKLY]: 14,
+};
+
+/**
+ * Enum for where a series stands. Its bookings keep their own status.
+ * @enum {string}
+ */
+export enum SeriesStatus {
+  ACTIVE = "active",
+  CANCELLED = "cancelled", // the guest cancelled the remaining sessions
+}
+
+/**
+ * Interface representing a series of bookings at the same time every week or two.
+ * Each session is a regular booking carrying the series' ID, so it can be cancelled
+ * or rescheduled on its own.
+ * @interface IBookingSeries
+ * @extends {Document}
+ * @property {mongoose.Schema.Types.ObjectId} expertId - The expert the sessions are with.
+ * @property {mongoose.Schema.Types.ObjectId} planId - The plan booked.
+ * @property {mongoose.Schema.Types.ObjectId} [guestId] - The guest account the series belongs to.
+ * @property {string} guestEmail - Email the series was booked with.
+ * @property {SeriesInterval} interval - How far apart the sessions are.
+ * @property {number} occurrences - How many sessions were booked.
+ * @property {string} timing - The sessions' time of day ("HH:MM").
+ * @property {SeriesStatus} status - Where the series stands.
+ * @property {Date} [cancelledAt] - When the guest cancelled the series.
+ */
+export interface IBookingSeries extends Document {
+  expertId: mongoose.Schema.Types.ObjectId;
+  planId: mongoose.Schema.Types.ObjectId;
+  guestId?: mongoose.Schema.Types.ObjectId;
+  guestEmail: string;
+  interval: SeriesInterval;
+  occurrences: number;
+  timing: string;
+  status: SeriesStatus;
+  cancelledAt?: Date;
+}
+
+/**
+ * Mongoose schema for the BookingSeries collection.
+ * @type {Schema<IBookingSeries>}
+ */
+const bookingSeriesSchema: Schema = new Schema(
+  {
+    expertId: { type: Schema.Types.ObjectId, ref: "Expert", required: true },
+    planId: { type: Schema.Types.ObjectId, ref: "Plan", required: true },
+    guestId: { type: Schema.Types.ObjectId, ref: "Guest" },
+    guestEmail: { type: String, required: true },
+    interval: {
+      type: String,
+      enum: Object.values(SeriesInterval),
+      required: true,
+    },
+    occurrences: { type: Number, required: true },
+    timing: { type: String, required: true },
+    status: {
+      type: String,
+      enum: Object.values(SeriesStatus),
+      required: true,
+      default: SeriesStatus.ACTIVE,
+    },
+    cancelledAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+/**
+ * The BookingSeries model based on the booking series schema.
+ * @typedef {mongoose.Model<IBookingSeries>}
+ */
+export const BookingSeries = mongoose.model<IBookingSeries>(
+  "BookingSeries",
+  bookingSeriesSchema
+);
@@ -1,11 +1,12 @@
 import { populate } from "dotenv";
 import mongoose, { Document, Schema } from "mongoose";
+import { auditPlugin } from "../services/AuditService";
 
 /**
  * Enum for date availability status.
  * @enum {string}
  */
-enum Availability {
+export enum Availability {
   holiday = "holiday",
   available = "available",
   not_available = "not available",
@@ -21,12 +22,16 @@ enum Availability {
  * @property {Availability} availability - The availability status of the date.
  * @property {mongoose.Schema.Types.ObjectId} expertId - Reference to the expert associated with the date.
  * @property {mongoose.Schema.Types.ObjectId[]} slotsId - Array of references to the Slot model.
+ * @property {Date} [startsAt] - When the day starts (UTC) in the expert's time zone.
+ * @property {Date} [endsAt] - When the day ends (UTC), i.e. when the next day starts.
  */
 export interface IDate extends Document {
   date: string; // Date in "DD/MM/YYYY" format
   availability: Availability;
   expertId: mongoose.Schema.Types.ObjectId;
   slotsId: mongoose.Schema.Types.ObjectId[]; // Array of references to Slot model
+  startsAt?: Date;
+  endsAt?: Date;
 }
 
 
@@ -37,6 +42,8 @@ export interface IDate extends Document {
  * @property {Availability} availability - The availability status of the date.
  * @property {mongoose.Schema.Types.ObjectId} expertId - Reference to the expert associated with the date.
  * @property {mongoose.Schema.Types.ObjectId[]} slotsId - Array of references to the Slot model.
+ * @property {Date} startsAt - UTC start of the day, kept in sync by the schedule service.
+ * @property {Date} endsAt - UTC end of the day.
  * @property {Date} createdAt - Timestamp when the document was created.
  * @property {Date} updatedAt - Timestamp when the document was last updated.
  */
@@ -50,10 +57,16 @@ const DateSchema: Schema = new Schema(
     },
     expertId: { type: Schema.Types.ObjectId, ref: "Expert", required: true },
     slotsId: [{ type: Schema.Types.ObjectId, ref: "Slot" }],
+    startsAt: { type: Date },
+    endsAt: { type: Date },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt fields
   }
 );
 
+DateSchema.index({ expertId: 1, startsAt: 1 });
+
+DateSchema.plugin(auditPlugin, { modelName: "Date" });
+
 export const DateModel = mongoose.model<IDate>("Date", DateSchema);
@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { auditPlugin } from "../services/AuditService";
+import { getDefaultTimeZone } from "../services/TimeZoneService";
 
 /**
  * Interface representing an expert in the system.
@@ -16,6 +18,10 @@ import mongoose, { Document, Schema } from "mongoose";
  * @property {boolean} isAdmin - Indicates if the expert is an admin (default: false).
  * @property {boolean} isActive - Indicates if the expert is currently active (default: true).
  * @property {string[]} availableCities - The cities where the expert is available.
+ * @property {string} [password] - The hashed password used for expert self-service login (optional).
+ * @property {number} ratingAverage - Average rating of the expert's approved reviews (0 without reviews).
+ * @property {number} reviewCount - Number of approved reviews.
+ * @property {string} timezone - IANA time zone the expert's dates and slot timings are in, e.g. "Asia/Kolkata".
  */
 export interface IExpert extends Document {
   username: string;
@@ -28,6 +34,10 @@ export interface IExpert extends Document {
   coverPhoto: string;
   isAdmin: boolean;
   isActive: boolean;
+  password?: string;
+  ratingAverage: number;
+  reviewCount: number;
+  timezone: string;
 }
 
 /**
@@ -46,6 +56,10 @@ export interface IExpert extends Document {
  * @property {string[]} availableCities - An array of cities where the expert is available (required).
  * @property {boolean} isAdmin - Boolean indicating if the expert is an admin (default: false).
  * @property {boolean} isActive - Boolean indicating if the expert is currently active (default: true).
+ * @property {string} [password] - Hashed password, never selected or serialized by default (optional).
+ * @property {number} ratingAverage - Average approved rating, kept up to date as reviews are moderated (default: 0).
+ * @property {number} reviewCount - Number of approved reviews (default: 0).
+ * @property {string} timezone - IANA time zone of the expert's calendar (default: `DEFAULT_TIMEZONE`, or "UTC").
  */
 const ExpertSchema: Schema = new Schema(
   {
@@ -60,10 +74,25 @@ const ExpertSchema: Schema = new Schema(
     availableCities: { type: [String], required: true },
     isAdmin: { type: Boolean, default: false }, // By default, not admin
     isActive: { type: Boolean, default: true }, // By default, active
+    password: { type: String, select: false }, // Hashed, only set once the expert can log in
+    ratingAverage: { type: Number, default: 0 }, // Recomputed from approved reviews
+    reviewCount: { type: Number, default: 0 },
+    timezone: { type: String, default: getDefaultTimeZone },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt fields
+    toJSON: {
+      // Never leak the password hash in API responses
+      transform: (_doc, ret) => {
+        delete ret.password;
+        return ret;
+      },
+    },
   }
 );
 
+ExpertSchema.index({ ratingAverage: -1, reviewCount: -1 });
+
+ExpertSchema.plugin(auditPlugin, { modelName: "Expert" });
+
 export const Expert = mongoose.model<IExpert>("Expert", ExpertSchema);
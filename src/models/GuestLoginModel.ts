@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Enum for where a guest login code is sent.
+ * @enum {string}
+ */
+export enum GuestLoginChannel {
+  EMAIL = "email", // code and magic link by mail
+  PHONE = "phone", // code by SMS
+}
+
+/**
+ * Interface representing a pending guest login.
+ * Only hashes are stored; the code (and, by email, the magic link token) are sent to the guest.
+ * @interface IGuestLogin
+ * @extends {Document}
+ * @property {GuestLoginChannel} channel - Where the code was sent.
+ * @property {string} destination - The normalised email or phone number.
+ * @property {string} codeHash - SHA-256 hash of the one-time code.
+ * @property {string} [linkTokenHash] - SHA-256 hash of the magic link token (email only).
+ * @property {number} attempts - Wrong codes entered so far.
+ * @property {Date} expiresAt - When the code and link stop working.
+ * @property {Date} [usedAt] - When the login was completed, if it was.
+ */
+export interface IGuestLogin extends Document {
+  channel: GuestLoginChannel;
+  destination: string;
+  codeHash: string;
+  linkTokenHash?: string;
+  attempts: number;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for the GuestLogin collection.
+ * Expired logins are removed automatically through the TTL index on `expiresAt`.
+ * @type {Schema<IGuestLogin>}
+ */
+const guestLoginSchema: Schema = new Schema(
+  {
+    channel: {
+      type: String,
+      enum: Object.values(GuestLoginChannel),
+      required: true,
+    },
+    destination: { type: String, required: true, index: true },
+    codeHash: { type: String, required: true },
+    linkTokenHash: { type: String, unique: true, sparse: true },
+    attempts: { type: Number, required: true, default: 0 },
+    expiresAt: { type: Date, required: true, expires: 0 },
+    usedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+/**
+ * The GuestLogin model based on the guest login schema.
+ * @typedef {mongoose.Model<IGuestLogin>}
+ */
+export const GuestLogin = mongoose.model<IGuestLogin>(
+  "GuestLogin",
+  guestLoginSchema
+);
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { GuestOccupation } from "./BookingModel";
+
+/**
+ * Interface representing a returning guest.
+ * Guests have no password; they log in with a one-time code or magic link sent to
+ * their email or phone. Logging in creates an account with just that one; the other is
+ * added (and an account created with it merged in) with a code sent to it.
+ * @interface IGuest
+ * @extends {Document}
+ * @property {string} [email] - Verified email of the guest (lowercase).
+ * @property {string} [phone] - Verified phone number of the guest (digits and a leading "+" only).
+ * @property {string} [name] - Name of the guest.
+ * @property {GuestOccupation} [occupation] - Occupation of the guest.
+ * @property {number} [age] - Age of the guest.
+ * @property {string} [city] - City of the guest.
+ * @property {string} [whatsapp] - WhatsApp number of the guest.
+ * @property {string} [website] - Website of the guest.
+ * @property {Date} [lastLoginAt] - When the guest last logged in.
+ */
+export interface IGuest extends Document {
+  email?: string;
+  phone?: string;
+  name?: string;
+  occupation?: GuestOccupation;
+  age?: number;
+  city?: string;
+  whatsapp?: string;
+  website?: string;
+  lastLoginAt?: Date;
+}
+
+/**
+ * Mongoose schema for the Guest collection.
+ * Email and phone are each unique, but optional: a guest who logged in by phone may have no email.
+ * @type {Schema<IGuest>}
+ */
+const guestSchema: Schema = new Schema(
+  {
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      unique: true,
+      sparse: true,
+    },
+    phone: { type: String, unique: true, sparse: true },
+    name: { type: String },
+    occupation: { type: String, enum: Object.values(GuestOccupation) },
+    age: { type: Number },
+    city: { type: String },
+    whatsapp: { type: String },
+    website: { type: String },
+    lastLoginAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+/**
+ * The Guest model based on the guest schema.
+ * @typedef {mongoose.Model<IGuest>}
+ */
+export const Guest = mongoose.model<IGuest>("Guest", guestSchema);
@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { auditPlugin } from "../services/AuditService";
+
+/**
+ * Enum for where a KYC verification stands.
+ * @enum {string}
+ */
+export enum KycStatus {
+  PENDING = "pending", // waiting for an admin to review the documents
+  APPROVED = "approved",
+  REJECTED = "rejected", // the guest may submit new documents
+}
+
+/**
+ * Enum for the identity documents guests can submit.
+ * @enum {string}
+ */
+export enum KycDocumentType {
+  PASSPORT = "passport",
+  NATIONAL_ID = "nationalId",
+  DRIVING_LICENCE = "drivingLicence",
+}
+
+/**
+ * Interface representing a guest's identity verification.
+ * A verification belongs to the email and phone number it was submitted with; it only
+ * counts for bookings made with both.
+ * @interface IKycVerification
+ * @extends {Document}
+ * @property {string} guestName - Name of the guest, as on the documents.
+ * @property {string} guestEmail - Email of the guest (lowercase).
+ * @property {string} guestPhone - Phone number of the guest (digits and a leading "+" only).
+ * @property {KycDocumentType} documentType - The kind of identity document.
+ * @property {mongoose.Schema.Types.ObjectId[]} documents - Uploaded scans of the document.
+ * @property {KycStatus} status - Where the verification stands.
+ * @property {mongoose.Schema.Types.ObjectId} [reviewedBy] - The admin who reviewed it.
+ * @property {Date} [reviewedAt] - When it was reviewed.
+ * @property {string} [rejectionReason] - Why it was rejected, shown to the guest.
+ */
+export interface IKycVerification extends Document {
+  guestName: string;
+  guestEmail: string;
+  guestPhone: string;
+  documentType: KycDocumentType;
+  documents: mongoose.Schema.Types.ObjectId[];
+  status: KycStatus;
+  reviewedBy?: mongoose.Schema.Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for the KycVerification collection.
+ * @type {Schema<IKycVerification>}
+ */
+const kycVerificationSchema: Schema = new Schema(
+  {
+    guestName: { type: String, required: true },
+    guestEmail: { type: String, required: true, lowercase: true, trim: true },
+    guestPhone: { type: String, required: true },
+    documentType: {
+      type: String,
+      enum: Object.values(KycDocumentType),
+      required: true,
+    },
+    documents: [{ type: Schema.Types.ObjectId, ref: "MediaFile" }],
+    status: {
+      type: String,
+      enum: Object.values(KycStatus),
+      required: true,
+      default: KycStatus.PENDING,
+    },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "Admin" },
+    reviewedAt: { type: Date },
+    rejectionReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+kycVerificationSchema.index({ guestEmail: 1, guestPhone: 1, createdAt: -1 });
+kycVerificationSchema.index({ status: 1, createdAt: 1 });
+// At most one submission per guest waits for review, even when two are sent at once
+kycVerificationSchema.index(
+  { guestEmail: 1, guestPhone: 1 },
+  { unique: true, partialFilterExpression: { status: KycStatus.PENDING } }
+);
+
+kycVerificationSchema.plugin(auditPlugin, { modelName: "KycVerification" });
+
+/**
+ * The KycVerification model based on the KYC verification schema.
+ * @typedef {mongoose.Model<IKycVerification>}
+ */
+export const KycVerification = mongoose.model<IKycVerification>(
+  "KycVerification",
+  kycVerificationSchema
+);
@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Enum for what an uploaded file is used for.
+ * @enum {string}
+ */
+export enum MediaKind {
+  VOICE_NOTE = "voiceNote", // the guest describing their problem
+  ATTACHMENT = "attachment", // documents or pictures the guest shares
+  KYC_DOCUMENT = "kycDocument", // a scan of an identity document, only ever shown to admins
+  SESSION_ATTACHMENT = "sessionAttachment", // a file the expert shares with the guest in a session summary
+}
+
+/**
+ * Interface representing a file uploaded for a booking (by its guest, or its expert after the session).
+ * The file itself lives in the storage driver; this document only describes it.
+ * @interface IMediaFile
+ * @extends {Document}
+ * @property {MediaKind} kind - What the file is used for.
+ * @property {string} originalName - The file name on the guest's device.
+ * @property {string} mimeType - The detected MIME type.
+ * @property {number} size - Size in bytes.
+ * @property {number} [durationSeconds] - Length of a voice note.
+ * @property {string} storageKey - Where the storage driver keeps the file.
+ * @property {mongoose.Schema.Types.ObjectId} [bookingId] - The booking the file was attached to; unset until booked.
+ * @property {mongoose.Schema.Types.ObjectId} [kycVerificationId] - The KYC verification the document was submitted with.
+ */
+export interface IMediaFile extends Document {
+  kind: MediaKind;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  durationSeconds?: number;
+  storageKey: string;
+  bookingId?: mongoose.Schema.Types.ObjectId;
+  kycVerificationId?: mongoose.Schema.Types.ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for the MediaFile collection.
+ * @type {Schema<IMediaFile>}
+ */
+const mediaFileSchema: Schema = new Schema(
+  {
+    kind: { type: String, enum: Object.values(MediaKind), required: true },
+    originalName: { type: String, required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true },
+    durationSeconds: { type: Number },
+    storageKey: { type: String, required: true, unique: true },
+    bookingId: { type: Schema.Types.ObjectId, ref: "Booking", index: true },
+    kycVerificationId: {
+      type: Schema.Types.ObjectId,
+      ref: "KycVerification",
+      index: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// For the sweeper removing uploads that were never attached
+mediaFileSchema.index({ createdAt: 1 });
+
+/**
+ * The MediaFile model based on the media file schema.
+ * @typedef {mongoose.Model<IMediaFile>}
+ */
+export const MediaFile = mongoose.model<IMediaFile>(
+  "MediaFile",
+  mediaFileSchema
+);
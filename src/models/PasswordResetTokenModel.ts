@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a password reset token in MongoDB.
+ * Only the SHA-256 hash of the token is stored; the raw token is mailed to the admin.
+ * @interface IPasswordResetToken
+ * @extends {Document}
+ * @property {mongoose.Schema.Types.ObjectId} adminId - Reference to the Admin model.
+ * @property {string} tokenHash - SHA-256 hash of the reset token.
+ * @property {Date} expiresAt - When the token stops being valid.
+ * @property {Date} [usedAt] - When the token was redeemed, if it was.
+ */
+export interface IPasswordResetToken extends Document {
+  adminId: mongoose.Schema.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+}
+
+/**
+ * Mongoose schema for the PasswordResetToken collection.
+ * Expired tokens are removed automatically through the TTL index on `expiresAt`.
+ * @type {Schema<IPasswordResetToken>}
+ */
+const passwordResetTokenSchema: Schema = new Schema(
+  {
+    adminId: { type: Schema.Types.ObjectId, ref: "Admin", required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true, expires: 0 },
+    usedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+/**
+ * The PasswordResetToken model based on the password reset token schema.
+ * @typedef {mongoose.Model<IPasswordResetToken>}
+ */
+export const PasswordResetToken = mongoose.model<IPasswordResetToken>(
+  "PasswordResetToken",
+  passwordResetTokenSchema
+);
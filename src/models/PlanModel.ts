@@ -1,4 +1,52 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { auditPlugin } from "../services/AuditService";
+
+/**
+ * @interface ICancellationPolicy
+ * @description How guests may cancel bookings of a plan. Bookings can never be cancelled once they have started.
+ * @property {number} freeCancelHours - Cancelling at least this many hours before the start is free.
+ * @property {number} lateCancelFeePercent - Share of the price charged for cancelling later than that.
+ */
+
+export interface ICancellationPolicy {
+  freeCancelHours: number;
+  lateCancelFeePercent: number;
+}
+
+/**
+ * @enum {string}
+ * @description Kinds of answers an intake question takes.
+ */
+
+export enum IntakeFieldType {
+  TEXT = "text",
+  NUMBER = "number",
+  SELECT = "select", // one of `options`
+  MULTI_SELECT = "multiSelect", // any of `options`
+  BOOLEAN = "boolean",
+}
+
+/**
+ * @interface IIntakeQuestion
+ * @description A question guests answer when booking a plan.
+ * @property {string} key - Identifies the answer in `intakeAnswers` (letters, digits and underscores).
+ * @property {string} label - The question as shown to the guest.
+ * @property {IntakeFieldType} type - The kind of answer.
+ * @property {boolean} required - Whether the question must be answered.
+ * @property {string[]} [options] - The choices of select and multi-select questions.
+ * @property {number} [min] - Smallest accepted number.
+ * @property {number} [max] - Largest accepted number.
+ */
+
+export interface IIntakeQuestion {
+  key: string;
+  label: string;
+  type: IntakeFieldType;
+  required: boolean;
+  options?: string[];
+  min?: number;
+  max?: number;
+}
 
 /**
  * @interface IPlan
@@ -11,6 +59,10 @@ import mongoose, { Document, Schema } from "mongoose";
  * @property {string} bookingType - The type of booking (e.g., "appointment", "seminar").
  * @property {mongoose.Schema.Types.ObjectId} expertId - Reference to the associated expert.
  * @property {boolean} [isDedicated] - Optional field indicating if the plan is dedicated (default: false).
+ * @property {ICancellationPolicy} cancellationPolicy - How guests may cancel bookings of this plan.
+ * @property {number} seatCapacity - How many guests can book each slot (1 for appointments, more for seminars).
+ * @property {boolean} requiresKyc - Whether bookings can only be confirmed once the guest's identity is verified.
+ * @property {IIntakeQuestion[]} intakeQuestions - Questions guests answer when booking, on top of the standard booking fields.
  */
 
 export interface IPlan extends Document {
@@ -21,6 +73,10 @@ export interface IPlan extends Document {
   bookingType: string; // "appointment", "seminar", etc.
   expertId: mongoose.Schema.Types.ObjectId; // Reference to Expert
   isDedicated?: boolean;
+  cancellationPolicy: ICancellationPolicy;
+  seatCapacity: number;
+  requiresKyc: boolean;
+  intakeQuestions: IIntakeQuestion[];
 }
 
 /**
@@ -34,6 +90,10 @@ export interface IPlan extends Document {
  * @property {string} bookingType - Type of the booking, either "appointment", "seminar", etc. (required).
  * @property {mongoose.Schema.Types.ObjectId} expertId - Reference to the Expert model (required).
  * @property {boolean} [isDedicated=false] - Indicates if the plan is dedicated (default: false).
+ * @property {ICancellationPolicy} cancellationPolicy - Guest cancellation policy (default: free until 24 hours before, no fee after).
+ * @property {number} [seatCapacity=1] - Seats per slot, copied to slots created for the plan.
+ * @property {boolean} [requiresKyc=false] - Require verified KYC before confirming bookings.
+ * @property {IIntakeQuestion[]} [intakeQuestions=[]] - Questionnaire bookings are validated against.
  * @property {Date} createdAt - Automatically generated timestamp when the document is created.
  * @property {Date} updatedAt - Automatically generated timestamp when the document is updated.
  */
@@ -47,12 +107,39 @@ const PlanSchema: Schema = new Schema(
     bookingType: { type: String, required: true }, // E.g., "appointment", "seminar"
     expertId: { type: Schema.Types.ObjectId, ref: "Expert", required: true }, // Reference to Expert model
     isDedicated: { type: Boolean, default: false }, // Default false
+    seatCapacity: { type: Number, min: 1, default: 1 },
+    requiresKyc: { type: Boolean, default: false },
+    intakeQuestions: {
+      type: [
+        {
+          _id: false,
+          key: { type: String, required: true },
+          label: { type: String, required: true },
+          type: {
+            type: String,
+            enum: Object.values(IntakeFieldType),
+            required: true,
+          },
+          required: { type: Boolean, default: false },
+          options: { type: [String], default: undefined },
+          min: { type: Number },
+          max: { type: Number },
+        },
+      ],
+      default: [],
+    },
+    cancellationPolicy: {
+      freeCancelHours: { type: Number, min: 0, default: 24 },
+      lateCancelFeePercent: { type: Number, min: 0, max: 100, default: 0 },
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt fields
   }
 );
 
+PlanSchema.plugin(auditPlugin, { modelName: "Plan" });
+
 /**
  * @constant Plan
  * @type {mongoose.Model<IPlan>}
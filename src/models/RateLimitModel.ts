@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a rate limit counter in MongoDB.
+ * @interface IRateLimit
+ * @extends {Document}
+ * @property {string} key - The bucket key (e.g. "admin-login:ip:127.0.0.1").
+ * @property {number} count - Number of hits in the current window.
+ * @property {Date} expiresAt - When the current window ends.
+ */
+export interface IRateLimit extends Document {
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+/**
+ * Mongoose schema for the RateLimit collection, used by the Mongo-backed rate limit store.
+ * Finished windows are removed automatically through the TTL index on `expiresAt`.
+ * @type {Schema<IRateLimit>}
+ */
+const rateLimitSchema: Schema = new Schema({
+  key: { type: String, required: true, unique: true },
+  count: { type: Number, required: true, default: 0 },
+  expiresAt: { type: Date, required: true, expires: 0 },
+});
+
+/**
+ * The RateLimit model based on the rate limit schema.
+ * @typedef {mongoose.Model<IRateLimit>}
+ */
+export const RateLimit = mongoose.model<IRateLimit>(
+  "RateLimit",
+  rateLimitSchema
+);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { auditPlugin } from "../services/AuditService";
 
 // Request Reschedule by user /guest /client
 
@@ -57,6 +58,10 @@ const reschedulingRequestSchema: Schema<IReschedulingRequest> = new Schema(
   { timestamps: true }
 );
 
+reschedulingRequestSchema.plugin(auditPlugin, {
+  modelName: "ReschedulingRequest",
+});
+
 /**
  * @constant ReschedulingRequest
  * @description Mongoose model for the ReschedulingRequest collection
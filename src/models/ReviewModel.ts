@@ -0,0 +1,94 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { auditPlugin } from "../services/AuditService";
+
+/**
+ * Enum for where a review stands. Only approved reviews are public and count
+ * towards the expert's rating.
+ * @enum {string}
+ */
+export enum ReviewStatus {
+  PENDING = "pending", // waiting for an admin to moderate it
+  APPROVED = "approved",
+  REJECTED = "rejected",
+}
+
+/**
+ * Interface representing a guest's rating and review of a completed booking.
+ * Each booking can be reviewed once.
+ * @interface IReview
+ * @extends {Document}
+ * @property {mongoose.Schema.Types.ObjectId} bookingId - The booking reviewed.
+ * @property {mongoose.Schema.Types.ObjectId} expertId - The expert reviewed.
+ * @property {mongoose.Schema.Types.ObjectId} [planId] - The plan that was booked.
+ * @property {mongoose.Schema.Types.ObjectId} [guestId] - The guest account the booking belongs to.
+ * @property {string} guestName - Name of the guest, as shown with the review.
+ * @property {number} rating - From 1 to 5.
+ * @property {string} [comment] - What the guest wrote.
+ * @property {ReviewStatus} status - Where the review stands.
+ * @property {mongoose.Schema.Types.ObjectId} [moderatedBy] - The admin who moderated it.
+ * @property {Date} [moderatedAt] - When it was moderated.
+ * @property {string} [rejectionReason] - Why it was rejected.
+ * @property {{ text: string; repliedAt: Date; repliedBy: string }} [reply] - The expert's public reply.
+ */
+export interface IReview extends Document {
+  bookingId: mongoose.Schema.Types.ObjectId;
+  expertId: mongoose.Schema.Types.ObjectId;
+  planId?: mongoose.Schema.Types.ObjectId;
+  guestId?: mongoose.Schema.Types.ObjectId;
+  guestName: string;
+  rating: number;
+  comment?: string;
+  status: ReviewStatus;
+  moderatedBy?: mongoose.Schema.Types.ObjectId;
+  moderatedAt?: Date;
+  rejectionReason?: string;
+  reply?: { text: string; repliedAt: Date; repliedBy: string };
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for the Review collection.
+ * @type {Schema<IReview>}
+ */
+const reviewSchema: Schema = new Schema(
+  {
+    bookingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Booking",
+      required: true,
+      unique: true, // one review per booking
+    },
+    expertId: { type: Schema.Types.ObjectId, ref: "Expert", required: true },
+    planId: { type: Schema.Types.ObjectId, ref: "Plan" },
+    guestId: { type: Schema.Types.ObjectId, ref: "Guest" },
+    guestName: { type: String, required: true },
+    rating: { type: Number, required: true, min: 1, max: 5 },
+    comment: { type: String },
+    status: {
+      type: String,
+      enum: Object.values(ReviewStatus),
+      required: true,
+      default: ReviewStatus.PENDING,
+    },
+    moderatedBy: { type: Schema.Types.ObjectId, ref: "Admin" },
+    moderatedAt: { type: Date },
+    rejectionReason: { type: String },
+    reply: {
+      text: { type: String },
+      repliedAt: { type: Date },
+      repliedBy: { type: String },
+    },
+  },
+  { timestamps: true }
+);
+
+reviewSchema.index({ expertId: 1, status: 1, createdAt: -1 });
+reviewSchema.index({ status: 1, createdAt: 1 });
+
+reviewSchema.plugin(auditPlugin, { modelName: "Review" });
+
+/**
+ * The Review model based on the review schema.
+ * @typedef {mongoose.Model<IReview>}
+ */
+export const Review = mongoose.model<IReview>("Review", reviewSchema);
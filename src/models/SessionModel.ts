@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a login session (a refresh token family) in MongoDB.
+ * @interface ISession
+ * @extends {Document}
+ * @property {mongoose.Schema.Types.ObjectId} subjectId - The ID of the admin or expert that logged in.
+ * @property {string} role - The role the session was issued for.
+ * @property {string} refreshTokenHash - SHA-256 hash of the currently valid refresh token.
+ * @property {string[]} previousTokenHashes - Hashes of refresh tokens that were already rotated.
+ * @property {Date} expiresAt - When the session (and its refresh token) expires.
+ * @property {Date} [revokedAt] - When the session was revoked, if it was.
+ * @property {string} [revokedReason] - Why the session was revoked (e.g. "logout", "reuse").
+ */
+export interface ISession extends Document {
+  subjectId: mongoose.Schema.Types.ObjectId;
+  role: string;
+  refreshTokenHash: string;
+  previousTokenHashes: string[];
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+}
+
+/**
+ * Mongoose schema for the Session collection.
+ * Expired sessions are removed automatically through the TTL index on `expiresAt`.
+ * @type {Schema<ISession>}
+ */
+const sessionSchema: Schema = new Schema(
+  {
+    subjectId: { type: Schema.Types.ObjectId, required: true, index: true },
+    role: { type: String, required: true },
+    refreshTokenHash: { type: String, required: true, unique: true },
+    previousTokenHashes: { type: [String], index: true, default: [] },
+    expiresAt: { type: Date, required: true, expires: 0 },
+    revokedAt: { type: Date },
+    revokedReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+/**
+ * The Session model based on the session schema.
+ * @typedef {mongoose.Model<ISession>}
+ */
+export const Session = mongoose.model<ISession>("Session", sessionSchema);
@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * A version of a session note, kept every time it is edited.
+ * @interface ISessionNoteRevision
+ * @property {string} [privateNotes] - The private notes as of this version.
+ * @property {string} [summary] - The summary as of this version.
+ * @property {string[]} actionItems - The action items as of this version.
+ * @property {mongoose.Schema.Types.ObjectId[]} attachments - The attachments as of this version.
+ * @property {Date} editedAt - When the edit was made.
+ * @property {string} editedBy - ID of the admin or expert who made the edit.
+ * @property {string} editedByRole - Role of the editor ("admin" or "expert").
+ */
+export interface ISessionNoteRevision {
+  privateNotes?: string;
+  summary?: string;
+  actionItems: string[];
+  attachments: mongoose.Schema.Types.ObjectId[];
+  editedAt: Date;
+  editedBy: string;
+  editedByRole: string;
+}
+
+/**
+ * Interface representing what an expert recorded about a booking's session.
+ * Private notes are only ever shown to the booking's expert and admins; the summary,
+ * action items and attachments are shown to the guest once published.
+ * @interface ISessionNote
+ * @extends {Document}
+ * @property {mongoose.Schema.Types.ObjectId} bookingId - The booking the session belongs to.
+ * @property {mongoose.Schema.Types.ObjectId} expertId - The booking's expert.
+ * @property {string} [privateNotes] - Notes for the expert's eyes only.
+ * @property {string} [summary] - Summary of the session for the guest.
+ * @property {string[]} actionItems - What the guest should do next.
+ * @property {mongoose.Schema.Types.ObjectId[]} attachments - Files shared with the guest.
+ * @property {Date} [publishedAt] - When the summary was published to the guest.
+ * @property {ISessionNoteRevision[]} history - Every version of the note, oldest first.
+ */
+export interface ISessionNote extends Document {
+  bookingId: mongoose.Schema.Types.ObjectId;
+  expertId: mongoose.Schema.Types.ObjectId;
+  privateNotes?: string;
+  summary?: string;
+  actionItems: string[];
+  attachments: mongoose.Schema.Types.ObjectId[];
+  publishedAt?: Date;
+  history: ISessionNoteRevision[];
+}
+
+const revisionSchema = new Schema(
+  {
+    privateNotes: { type: String },
+    summary: { type: String },
+    actionItems: [{ type: String }],
+    attachments: [{ type: Schema.Types.ObjectId, ref: "MediaFile" }],
+    editedAt: { type: Date, required: true },
+    editedBy: { type: String, required: true },
+    editedByRole: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+/**
+ * Mongoose schema for the SessionNote collection.
+ * @type {Schema<ISessionNote>}
+ */
+const sessionNoteSchema: Schema = new Schema(
+  {
+    bookingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Booking",
+      required: true,
+      unique: true,
+    },
+    expertId: { type: Schema.Types.ObjectId, ref: "Expert", required: true },
+    privateNotes: { type: String },
+    summary: { type: String },
+    actionItems: [{ type: String }],
+    attachments: [{ type: Schema.Types.ObjectId, ref: "MediaFile" }],
+    publishedAt: { type: Date },
+    history: { type: [revisionSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+/**
+ * The SessionNote model based on the session note schema.
+ * @typedef {mongoose.Model<ISessionNote>}
+ */
+export const SessionNote = mongoose.model<ISessionNote>(
+  "SessionNote",
+  sessionNoteSchema
+);
@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Enum for the known setting keys.
+ * @enum {string}
+ */
+export enum SettingKey {
+  REQUIRE_ADMIN_TWO_FACTOR = "requireAdminTwoFactor",
+}
+
+/**
+ * Interface representing an application-wide setting in MongoDB.
+ * @interface ISetting
+ * @extends {Document}
+ * @property {string} key - Unique name of the setting (e.g. "requireAdminTwoFactor").
+ * @property {unknown} value - The setting's value.
+ */
+export interface ISetting extends Document {
+  key: string;
+  value: unknown;
+}
+
+/**
+ * Mongoose schema for the Setting collection.
+ * @type {Schema<ISetting>}
+ */
+const settingSchema: Schema = new Schema(
+  {
+    key: { type: String, required: true, unique: true },
+    value: { type: Schema.Types.Mixed },
+  },
+  { timestamps: true }
+);
+
+/**
+ * The Setting model based on the setting schema.
+ * @typedef {mongoose.Model<ISetting>}
+ */
+export const Setting = mongoose.model<ISetting>("Setting", settingSchema);
+
+/**
+ * Reads a setting, falling back to a default when it was never set.
+ * @param {string} key - The setting's name.
+ * @param {T} defaultValue - Value returned when the setting does not exist.
+ * @returns {Promise<T>}
+ */
+export const getSetting = async <T>(
+  key: string,
+  defaultValue: T
+): Promise<T> => {
+  const setting = await Setting.findOne({ key });
+  return setting ? (setting.value as T) : defaultValue;
+};
+
+/**
+ * Creates or updates a setting.
+ * @param {string} key - The setting's name.
+ * @param {unknown} value - The new value.
+ * @returns {Promise<void>}
+ */
+export const setSetting = async (
+  key: string,
+  value: unknown
+): Promise<void> => {
+  await Setting.updateOne({ key }, { value }, { upsert: true });
+};
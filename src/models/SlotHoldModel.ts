@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Interface representing a temporary hold on one seat of a slot during checkout.
+ * Only the SHA-256 hash of the hold token is stored; the raw token is returned to the guest once.
+ * @interface ISlotHold
+ * @extends {Document}
+ * @property {mongoose.Schema.Types.ObjectId} slotId - Reference to the held Slot.
+ * @property {mongoose.Schema.Types.ObjectId} dateId - Reference to the Date the slot is held on.
+ * @property {string} tokenHash - SHA-256 hash of the hold token.
+ * @property {Date} expiresAt - When the hold lapses and the slot can be taken by others.
+ */
+export interface ISlotHold extends Document {
+  slotId: mongoose.Schema.Types.ObjectId;
+  dateId: mongoose.Schema.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Mongoose schema for the SlotHold collection.
+ * A slot has at most as many active holds as it has free seats, which `holdSlot` enforces.
+ * Expired holds are removed through the TTL index on `expiresAt`; as that runs about once a
+ * minute, queries also check `expiresAt`.
+ * @type {Schema<ISlotHold>}
+ */
+const slotHoldSchema: Schema = new Schema(
+  {
+    slotId: {
+      type: Schema.Types.ObjectId,
+      ref: "Slot",
+      required: true,
+      index: true,
+    },
+    dateId: { type: Schema.Types.ObjectId, ref: "Date", required: true },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true, expires: 0 },
+  },
+  { timestamps: true }
+);
+
+/**
+ * The SlotHold model based on the slot hold schema.
+ * @typedef {mongoose.Model<ISlotHold>}
+ */
+export const SlotHold = mongoose.model<ISlotHold>("SlotHold", slotHoldSchema);
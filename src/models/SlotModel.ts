@@ -1,14 +1,40 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { auditPlugin } from "../services/AuditService";
+
+/**
+ * Enum for slot availability.
+ * Older slots may use other casings, so availability is compared case-insensitively.
+ * @enum {string}
+ */
+export enum SlotAvailability {
+  AVAILABLE = "Available",
+  NOT_AVAILABLE = "Not available",
+  BOOKED = "Booked",
+}
+
+// Matches slots that can still be booked, whatever the casing
+export const SLOT_AVAILABLE_PATTERN = /^available$/i;
+
+// Matches slots with a seat left; slots from before seat capacities existed have one seat
+export const HAS_FREE_SEAT = {
+  $expr: {
+    $lt: [{ $ifNull: ["$bookedSeats", 0] }, { $ifNull: ["$capacity", 1] }],
+  },
+};
 
 /**
  * @interface ISlot
  * @extends Document
  * @description Represents a slot in the scheduling system.
- * @property {string} availability - Indicates if the slot is available or not (e.g., Available, Not available).
+ * @property {string} availability - Indicates if the slot is available or not (e.g., Available, Not available, Booked).
  * @property {string} timing - The time of the slot in "HH:MM" format.
  * @property {string} period - The period of the day (e.g., Morning, Afternoon, Night).
  * @property {mongoose.Schema.Types.ObjectId} planId - Reference to the associated Plan model.
  * @property {mongoose.Schema.Types.ObjectId} expertId - Reference to the associated Expert model.
+ * @property {number} capacity - How many guests can book the slot; it becomes "Booked" once all seats are taken.
+ * @property {number} bookedSeats - How many seats are taken by active bookings.
+ * @property {Date} [startsAt] - When the slot starts (UTC), from its date, timing and the expert's time zone.
+ * @property {Date} [endsAt] - When the slot ends (UTC), its plan's duration after it starts.
  */
 
 export interface ISlot extends Document {
@@ -16,7 +42,11 @@ export interface ISlot extends Document {
   timing: string;
   period: string;
   planId: mongoose.Schema.Types.ObjectId;
-  expertId: mongoose.Schema.Types.ObjectId
+  expertId: mongoose.Schema.Types.ObjectId;
+  capacity: number;
+  bookedSeats: number;
+  startsAt?: Date;
+  endsAt?: Date;
 }
 
 /**
@@ -40,6 +70,11 @@ export interface ISlot extends Document {
  * @property {ObjectId} expertId.type - The type of the field, should be a Schema.Types.ObjectId.
  * @property {string} expertId.ref - The model that this ID references (Expert).
  * @property {boolean} expertId.required - Indicates that the field is required.
+ * @property {Object} capacity - Number of seats (default 1).
+ * @property {Object} bookedSeats - Number of seats taken (default 0).
+ * @property {Object} startsAt - UTC start, kept in sync by the schedule service; unset until the slot is on a date.
+ * @property {Object} endsAt - UTC end.
+ * @property {Object} holdVersion - Bumped by every hold so concurrent holds conflict; never selected.
  * @property {Object} timestamps - Automatically adds createdAt and updatedAt fields.
  */
 
@@ -50,10 +85,19 @@ const SlotSchema: Schema = new Schema(
     period: { type: String, required: true },
     planId: { type: Schema.Types.ObjectId, ref: "Plan", required: true },
     expertId: { type: Schema.Types.ObjectId, ref: "Expert", required: true },
+    capacity: { type: Number, min: 1, default: 1 },
+    bookedSeats: { type: Number, min: 0, default: 0 },
+    startsAt: { type: Date },
+    endsAt: { type: Date },
+    holdVersion: { type: Number, select: false },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt fields
   }
 );
 
+SlotSchema.index({ expertId: 1, startsAt: 1 });
+
+SlotSchema.plugin(auditPlugin, { modelName: "Slot" });
+
 export const Slot = mongoose.model<ISlot>("Slot", SlotSchema);
@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+/**
+ * Enum for where a waitlist entry stands.
+ * @enum {string}
+ */
+export enum WaitlistStatus {
+  WAITING = "waiting", // waiting for a slot to free up
+  OFFERED = "offered", // a slot is held for the guest until the offer expires
+  CLAIMED = "claimed", // the guest booked the offered slot
+  EXPIRED = "expired", // the guest let the offer lapse
+  LEFT = "left", // the guest left the waitlist
+}
+
+/**
+ * Interface representing a slot offered to a waitlisted guest.
+ * @interface IWaitlistOffer
+ * @property {mongoose.Schema.Types.ObjectId} slotId - The offered slot.
+ * @property {mongoose.Schema.Types.ObjectId} dateId - The date of the offered slot.
+ * @property {string} tokenHash - SHA-256 hash of the claim token (which is also the slot's hold token).
+ * @property {Date} expiresAt - When the offer lapses.
+ */
+export interface IWaitlistOffer {
+  slotId: mongoose.Schema.Types.ObjectId;
+  dateId: mongoose.Schema.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Interface representing a guest waiting for an expert's plan to have a free slot.
+ * @interface IWaitlistEntry
+ * @extends {Document}
+ * @property {mongoose.Schema.Types.ObjectId} expertId - The expert the guest wants to see.
+ * @property {mongoose.Schema.Types.ObjectId} planId - The plan the guest wants to book.
+ * @property {string} guestName - Name of the guest.
+ * @property {string} guestEmail - Email the offer is sent to.
+ * @property {string} [guestPhone] - Phone number of the guest.
+ * @property {Date} [fromDate] - Only offer slots on or after this day (its midnight in the expert's time zone).
+ * @property {Date} [toDate] - Only offer slots on or before this day (its midnight in the expert's time zone).
+ * @property {WaitlistStatus} status - Where the entry stands.
+ * @property {IWaitlistOffer} [offer] - The current or last offer.
+ * @property {mongoose.Schema.Types.ObjectId} [bookingId] - The booking made from the offer.
+ */
+export interface IWaitlistEntry extends Document {
+  expertId: mongoose.Schema.Types.ObjectId;
+  planId: mongoose.Schema.Types.ObjectId;
+  guestName: string;
+  guestEmail: string;
+  guestPhone?: string;
+  fromDate?: Date;
+  toDate?: Date;
+  status: WaitlistStatus;
+  offer?: IWaitlistOffer;
+  bookingId?: mongoose.Schema.Types.ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose schema for the WaitlistEntry collection.
+ * Guests are offered slots first come, first served (by `createdAt`).
+ * @type {Schema<IWaitlistEntry>}
+ */
+const waitlistEntrySchema: Schema = new Schema(
+  {
+    expertId: { type: Schema.Types.ObjectId, ref: "Expert", required: true },
+    planId: { type: Schema.Types.ObjectId, ref: "Plan", required: true },
+    guestName: { type: String, required: true },
+    guestEmail: { type: String, required: true },
+    guestPhone: { type: String },
+    fromDate: { type: Date },
+    toDate: { type: Date },
+    status: {
+      type: String,
+      enum: Object.values(WaitlistStatus),
+      default: WaitlistStatus.WAITING,
+    },
+    offer: {
+      type: new Schema(
+        {
+          slotId: { type: Schema.Types.ObjectId, ref: "Slot", required: true },
+          dateId: { type: Schema.Types.ObjectId, ref: "Date", required: true },
+          tokenHash: { type: String, required: true },
+          expiresAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+    },
+    bookingId: { type: Schema.Types.ObjectId, ref: "Booking" },
+  },
+  { timestamps: true }
+);
+
+waitlistEntrySchema.index({ expertId: 1, planId: 1, status: 1, createdAt: 1 });
+waitlistEntrySchema.index({ "offer.tokenHash": 1 }, { sparse: true });
+
+/**
+ * The WaitlistEntry model based on the waitlist entry schema.
+ * @typedef {mongoose.Model<IWaitlistEntry>}
+ */
+export const WaitlistEntry = mongoose.model<IWaitlistEntry>(
+  "WaitlistEntry",
+  waitlistEntrySchema
+);
@@ -1,11 +1,54 @@
-import { BookingSchema } from "../models/BookingModel";
+import { BookingSchema, Status } from "../models/BookingModel";
 import express, { Request, Response } from "express";
-import { any, array, string } from "zod";
+import { any, array, string, z } from "zod";
+import {
+  canManageExpert,
+  forbidden,
+  requireAdmin,
+  requireExpertOrAdmin,
+} from "../middleware/auth";
+import { BookingTransitionSchemaZod } from "../schemas/BookingSchema";
+import {
+  backfillBookingReferences,
+  BookingTransitionError,
+  transitionBooking,
+} from "../services/BookingService";
+import {
+  BOOKING_EXPORT_COLUMNS,
+  BookingExportFormat,
+  streamBookingExport,
+} from "../services/BookingExportService";
 
 const router = express.Router();
 
-// Booking search route with pagination, filtering, and sorting
-router.get("/booking", async (req: Request, res: Response) => {
+// Query matching bookings whose guest details or intake answers contain the search term
+const buildBookingSearch = (search: string): any => ({
+  $or: [
+    { guestName: { $regex: search, $options: "i" } },
+    { guestOccupation: { $regex: search, $options: "i" } },
+    { guestCity: { $regex: search, $options: "i" } },
+    { guestEmail: { $regex: search, $options: "i" } },
+    { guestPhone: { $regex: search, $options: "i" } },
+    { guestWhatsapp: { $regex: search, $options: "i" } },
+    { guestProblem: { $regex: search, $options: "i" } },
+    { "intakeAnswers.value": { $regex: search, $options: "i" } }, // text and select answers
+  ],
+});
+
+// Sort from a "field" or "field,direction" query parameter
+const parseBookingSort = (sort: string) => {
+  const sortParams = sort.split(",");
+  let sortBy: any = {};
+  if (sortParams[1]) {
+    sortBy[sortParams[0]] = sortParams[1]; // Custom sort if multiple fields
+  } else {
+    sortBy[sortParams[0]] = "asc"; // Default to ascending sort
+  }
+  return sortBy;
+};
+
+// Booking search route with pagination, filtering, and sorting (admin only)
+router.get("/booking", requireAdmin, async (req: Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) - 1 || 0; // Page number (0-based index)
     const limit = parseInt(req.query.limit as string) || 5; // Limit per page
@@ -29,26 +72,10 @@ router.get("/booking", async (req: Request, res: Response) => {
     genre === "All" ? (genre = [...genreOptions]) : (genre = genre.split(","));
 
     // Sorting logic
-    const sortParams = sort.split(",");
-    let sortBy: any = {};
-    if (sortParams[1]) {
-      sortBy[sortParams[0]] = sortParams[1]; // Custom sort if multiple fields
-    } else {
-      sortBy[sortParams[0]] = "asc"; // Default to ascending sort
-    }
+    const sortBy = parseBookingSort(sort);
 
     // Query to find matching bookings
-    const query: any = {
-      $or: [
-        { guestName: { $regex: search, $options: "i" } },
-        { guestOccupation: { $regex: search, $options: "i" } },
-        { guestCity: { $regex: search, $options: "i" } },
-        { guestEmail: { $regex: search, $options: "i" } },
-        { guestPhone: { $regex: search, $options: "i" } },
-        { guestWhatsapp: { $regex: search, $options: "i" } },
-        { guestProblem: { $regex: search, $options: "i" } },
-      ],
-    };
+    const query = buildBookingSearch(search);
 
     // Execute the query with pagination and sorting
     const bookings = await BookingSchema.find(query)
@@ -77,17 +104,191 @@ router.get("/booking", async (req: Request, res: Response) => {
   }
 });
 
-// Get a date entry by ID
-router.get("/Booking/:UID", async (req: Request, res: Response) => {
+const exportQuerySchema = z.object({
+  format: z.nativeEnum(BookingExportFormat).default(BookingExportFormat.CSV),
+  search: z.string().default(""),
+  sort: z.string().default("guestName"),
+  columns: z
+    .string()
+    .optional()
+    .transform((columns) =>
+      columns
+        ? columns.split(",").map((column) => column.trim())
+        : Object.keys(BOOKING_EXPORT_COLUMNS)
+    )
+    .refine(
+      (columns) => columns.every((column) => column in BOOKING_EXPORT_COLUMNS),
+      {
+        message: `Columns must be among: ${Object.keys(BOOKING_EXPORT_COLUMNS).join(", ")}`,
+      }
+    ),
+});
+
+/**
+ * Export the bookings matching the same search and sort as GET /booking, as a CSV or
+ * Excel file. Rows are streamed, so the whole result set is exported without paging.
+ *
+ * @route GET /booking/export
+ * @access Admin
+ * @param {string} [req.query.format] - "csv" (default) or "xlsx".
+ * @param {string} [req.query.search] - Search term, as for GET /booking.
+ * @param {string} [req.query.sort] - Sort field and direction, as for GET /booking.
+ * @param {string} [req.query.columns] - Comma-separated columns to include, in order (default: all).
+ * @returns {File} 200 - The export file.
+ * @returns {Object} 400 - Validation errors (e.g. unknown columns).
+ */
+router.get(
+  "/booking/export",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { format, search, sort, columns } = exportQuerySchema.parse(
+        req.query
+      );
+
+      const day = new Date().toISOString().slice(0, 10);
+      res.status(200);
+      res.setHeader(
+        "Content-Type",
+        format === BookingExportFormat.XLSX
+          ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          : "text/csv; charset=utf-8"
+      );
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="bookings-${day}.${format}"`
+      );
+
+      await streamBookingExport(
+        {
+          query: buildBookingSearch(search),
+          sort: parseBookingSort(sort),
+          columns,
+          format,
+        },
+        res
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error(error);
+      // Once rows are on their way the status can no longer change, so cut the file short
+      if (res.headersSent) {
+        return res.destroy(error);
+      }
+      res.status(500).json({ error: true, message: "Internal Server Error" });
+    }
+  }
+);
+
+// Get a date entry by ID (admin, or the expert assigned to the booking)
+router.get(
+  "/Booking/:UID",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const dateEntry = await BookingSchema.findById(req.params.UID);
+      if (!dateEntry) {
+        return res.status(404).json({ error: "Date entry not found" });
+      }
+      if (!canManageExpert(req.user, dateEntry.expertId)) {
+        return forbidden(res);
+      }
+      res.status(200).json(dateEntry);
+    } catch (error) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * Builds a handler moving a booking to `to`.
+ * @param {Status} to - The status the endpoint moves bookings to.
+ */
+const transitionTo = (to: Status) => async (req: Request, res: Response) => {
   try {
-    const dateEntry = await BookingSchema.findById(req.params.UID);
-    if (!dateEntry) {
-      return res.status(404).json({ error: "Date entry not found" });
+    const { reason } = BookingTransitionSchemaZod.parse(req.body);
+
+    const booking = await BookingSchema.findById(req.params.id);
+    if (!booking) {
+      return res.status(404).json({ message: "Booking not found" });
     }
-    res.status(200).json(dateEntry);
+    if (!canManageExpert(req.user, booking.expertId)) {
+      return forbidden(res);
+    }
+
+    const updatedBooking = await transitionBooking(booking, to, req.user, {
+      reason,
+    });
+    res.status(200).json({
+      message: `Booking ${to.toLowerCase()}`,
+      booking: updatedBooking,
+    });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.errors });
+    }
+    if (error instanceof BookingTransitionError) {
+      return res.status(error.status).json({ message: error.message });
+    }
     res.status(500).json({ error: error.message });
   }
-});
+};
+
+/**
+ * @route POST /admin/bookings/migrate-references
+ * @access Admin
+ * @returns {Object} 200 - How many `bookings` were given a reference
+ * @returns {Object} 500 - Internal server error
+ * @description Gives bookings made before booking references existed a reference, so guests
+ * can look them up, cancel and review them. Safe to run again.
+ */
+router.post(
+  "/admin/bookings/migrate-references",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      res.status(200).json({ bookings: await backfillBookingReferences() });
+    } catch (error) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * Booking lifecycle endpoints (admin, or the expert assigned to the booking).
+ * Each takes an optional `reason` in the body and records the change in the booking's status history.
+ *
+ * @route POST /booking/:id/confirm - Pending → Confirmed
+ * @route POST /booking/:id/complete - Confirmed/Rescheduled → Completed
+ * @route POST /booking/:id/cancel - Pending/Confirmed/Rescheduled → Cancelled
+ * @route POST /booking/:id/no-show - Confirmed/Rescheduled → NoShow
+ * @returns {Object} 200 - The updated booking
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 403 - Not allowed to manage this booking
+ * @returns {Object} 404 - Booking not found
+ * @returns {Object} 409 - The booking cannot move to that status
+ */
+router.post(
+  "/booking/:id/confirm",
+  requireExpertOrAdmin,
+  transitionTo(Status.CONFIRMED)
+);
+router.post(
+  "/booking/:id/complete",
+  requireExpertOrAdmin,
+  transitionTo(Status.COMPLETED)
+);
+router.post(
+  "/booking/:id/cancel",
+  requireExpertOrAdmin,
+  transitionTo(Status.CANCELLED)
+);
+router.post(
+  "/booking/:id/no-show",
+  requireExpertOrAdmin,
+  transitionTo(Status.NO_SHOW)
+);
 
 export default router;
@@ -1,50 +1,120 @@
-import { SignupSchemaZod, LoginSchemaZod } from "./../schemas/AdminSchema";
+import {
+  SignupSchemaZod,
+  LoginSchemaZod,
+  ChangePasswordSchemaZod,
+  ForgotPasswordSchemaZod,
+  ResetPasswordSchemaZod,
+} from "./../schemas/AdminSchema";
 import express from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
-import { Request, Response } from "express";
+import { Request, Response, NextFunction } from "express";
 import AdminSchema from "../models/AdminModel";
+import {
+  authenticateJWT,
+  authorizeRoles,
+  requireAdmin,
+  Role,
+} from "../middleware/auth";
+import {
+  generateOpaqueToken,
+  hashToken,
+  issueTokens,
+  MfaPurpose,
+  revokeAllSessions,
+  signMfaToken,
+} from "../services/TokenService";
+import {
+  clearFailedLogins,
+  isLockedOut,
+  recordFailedLogin,
+} from "../services/LoginLockoutService";
+import { getSetting, SettingKey } from "../models/SettingModel";
+import { sendMail } from "../services/MailService";
+import {
+  byBodyField,
+  byIp,
+  rateLimit,
+  tooManyRequests,
+} from "../middleware/rateLimit";
+import { PasswordResetToken } from "../models/PasswordResetTokenModel";
+import { logoutSession, refreshSession } from "./SessionHandlers";
 
 const router = express.Router();
 
-// Signup route
-router.post("/signup", async (req: Request, res: Response) => {
-  try {
-    // Validate the request body with Zod
-    const validatedData = SignupSchemaZod.parse(req.body);
+// How long a password reset link stays valid
+const RESET_TOKEN_TTL_MINUTES = 30;
 
-    const { name, email, password } = validatedData;
+// Per-route throttling
+const loginRateLimit = rateLimit({
+  route: "admin-login",
+  windowMs: 15 * 60 * 1000,
+  buckets: [byIp(20), byBodyField("email", 10)],
+});
+const forgotPasswordRateLimit = rateLimit({
+  route: "admin-forgot-password",
+  windowMs: 60 * 60 * 1000,
+  buckets: [byIp(10), byBodyField("email", 3)],
+});
 
-    // Check if the admin already exists
-    const adminExists = await AdminSchema.findOne({ email });
-    if (adminExists) {
-      return res.status(400).json({ message: "Admin already exists" });
+// Only the very first admin may sign up without being authenticated as an admin
+const requireAdminOnceBootstrapped = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const adminCount = await AdminSchema.estimatedDocumentCount();
+    if (adminCount === 0) {
+      return next();
     }
+    authenticateJWT(req, res, () => authorizeRoles(Role.ADMIN)(req, res, next));
+  } catch (error) {
+    return res.status(500).json({ message: "Internal Server Error" });
+  }
+};
 
-    // Hash the password
-    const hashedPassword = await bcrypt.hash(password, 10);
+// Signup route
+router.post(
+  "/signup",
+  requireAdminOnceBootstrapped,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate the request body with Zod
+      const validatedData = SignupSchemaZod.parse(req.body);
 
-    // Create a new admin
-    const admin = await AdminSchema.create({
-      name,
-      email,
-      password: hashedPassword,
-    });
+      const { name, email, password } = validatedData;
 
-    res.status(201).json({
-      message: "Admin created successfully",
-      admin,
-    });
-  } catch (error) {
-    if (error instanceof Error) {
-      return res.status(400).json({ message: error.message });
+      // Check if the admin already exists
+      const adminExists = await AdminSchema.findOne({ email });
+      if (adminExists) {
+        return res.status(400).json({ message: "Admin already exists" });
+      }
+
+      // Hash the password
+      const hashedPassword = await bcrypt.hash(password, 10);
+
+      // Create a new admin
+      const admin = await AdminSchema.create({
+        name,
+        email,
+        password: hashedPassword,
+      });
+
+      res.status(201).json({
+        message: "Admin created successfully",
+        admin,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal Server Error" });
     }
-    return res.status(500).json({ message: "Internal Server Error" });
   }
-});
+);
 
 // Admin Login
-router.post("/login", async (req: Request, res: Response) => {
+router.post("/login", loginRateLimit, async (req: Request, res: Response) => {
   try {
     // Validate the request body with Zod
     const validatedData = LoginSchemaZod.parse(req.body);
@@ -57,22 +127,54 @@ router.post("/login", async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Invalid email or password" });
     }
 
+    // Refuse logins while the account is locked
+    if (isLockedOut(admin)) {
+      return tooManyRequests(
+        res,
+        admin.lockUntil,
+        "Account temporarily locked due to repeated failed logins"
+      );
+    }
+
     // Compare the password
     const isPasswordCorrect = await bcrypt.compare(password, admin.password);
     if (!isPasswordCorrect) {
+      await recordFailedLogin(admin);
       return res.status(400).json({ message: "Invalid email or password" });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: admin._id },
-      process.env.JWT_SECRET as string,
-      { expiresIn: "1h" }
+    // With 2FA on, only hand out an "MFA pending" token for /login/verify
+    if (admin.twoFactorEnabled) {
+      return res.status(200).json({
+        message: "Two-factor authentication code required",
+        mfaRequired: true,
+        mfaToken: signMfaToken(String(admin._id), MfaPurpose.VERIFY),
+      });
+    }
+
+    // When 2FA is mandatory, admins without it must enroll before getting a session
+    if (await getSetting(SettingKey.REQUIRE_ADMIN_TWO_FACTOR, false)) {
+      return res.status(200).json({
+        message: "Two-factor authentication must be set up before logging in",
+        mfaEnrollmentRequired: true,
+        mfaToken: signMfaToken(String(admin._id), MfaPurpose.ENROLL),
+      });
+    }
+
+    // Only a completed login clears the failure counter, so a known password cannot
+    // be used to reset it between guesses at the second factor
+    await clearFailedLogins(admin);
+
+    // Start a session with a short-lived access token and a refresh token
+    const { token, refreshToken } = await issueTokens(
+      String(admin._id),
+      Role.ADMIN
     );
 
     res.status(200).json({
       message: "Login successful",
       token,
+      refreshToken,
     });
   } catch (error) {
     if (error instanceof Error) {
@@ -82,4 +184,141 @@ router.post("/login", async (req: Request, res: Response) => {
   }
 });
 
+// Exchange a refresh token for a new token pair (the refresh token is rotated)
+router.post("/refresh", refreshSession);
+
+// Logout: revoke the session the refresh token belongs to
+router.post("/logout", logoutSession);
+
+// Forgot password: mail a single-use reset link
+router.post(
+  "/forgot-password",
+  forgotPasswordRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { email } = ForgotPasswordSchemaZod.parse(req.body);
+
+      const admin = await AdminSchema.findOne({ email });
+
+      // Same answer whether or not the admin exists, so emails cannot be probed
+      if (admin) {
+        // Only the most recent link may be used
+        await PasswordResetToken.deleteMany({ adminId: admin._id });
+
+        const token = generateOpaqueToken();
+        await PasswordResetToken.create({
+          adminId: admin._id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+        });
+
+        // A mail failure must not change the answer either
+        try {
+          await sendMail({
+            to: admin.email,
+            subject: "Reset your password",
+            text: `Use this token to reset your password within ${RESET_TOKEN_TTL_MINUTES} minutes: ${token}`,
+          });
+        } catch (error) {
+          console.error("Failed to send password reset mail:", error);
+        }
+      }
+
+      res.status(200).json({
+        message: "If the email is registered, a reset link has been sent",
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal Server Error" });
+    }
+  }
+);
+
+// Reset password with the mailed token; all sessions are revoked
+router.post("/reset-password", async (req: Request, res: Response) => {
+  try {
+    const { token, newPassword } = ResetPasswordSchemaZod.parse(req.body);
+
+    // Mark the token as used atomically so it can only be redeemed once
+    const resetToken = await PasswordResetToken.findOneAndUpdate(
+      {
+        tokenHash: hashToken(token),
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { $set: { usedAt: new Date() } }
+    );
+    if (!resetToken) {
+      return res
+        .status(400)
+        .json({ message: "Invalid or expired reset token" });
+    }
+
+    const admin = await AdminSchema.findById(resetToken.adminId);
+    if (!admin) {
+      return res
+        .status(400)
+        .json({ message: "Invalid or expired reset token" });
+    }
+
+    admin.password = await bcrypt.hash(newPassword, 10);
+    admin.passwordChangedAt = new Date();
+    await admin.save();
+    await revokeAllSessions(String(admin._id), "password-reset");
+
+    res.status(200).json({ message: "Password reset successfully" });
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ message: error.message });
+    }
+    return res.status(500).json({ message: "Internal Server Error" });
+  }
+});
+
+// Change password for the logged-in admin; other sessions are revoked
+router.put(
+  "/change-password",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { currentPassword, newPassword } = ChangePasswordSchemaZod.parse(
+        req.body
+      );
+
+      const admin = await AdminSchema.findById(req.user.id);
+      if (!admin) {
+        return res.status(404).json({ message: "Admin not found" });
+      }
+
+      const isPasswordCorrect = await bcrypt.compare(
+        currentPassword,
+        admin.password
+      );
+      if (!isPasswordCorrect) {
+        return res
+          .status(400)
+          .json({ message: "Current password is incorrect" });
+      }
+
+      admin.password = await bcrypt.hash(newPassword, 10);
+      admin.passwordChangedAt = new Date();
+      await admin.save();
+      await revokeAllSessions(
+        String(admin._id),
+        "password-change",
+        req.user.sessionId
+      );
+
+      res.status(200).json({ message: "Password changed successfully" });
+    } catch (error) {
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal Server Error" });
+    }
+  }
+);
+
 export default router;
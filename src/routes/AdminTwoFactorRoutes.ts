@@ -0,0 +1,467 @@
+import express, { NextFunction, Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import AdminSchema from "../models/AdminModel";
+import { getSetting, setSetting, SettingKey } from "../models/SettingModel";
+import {
+  DisableTwoFactorSchemaZod,
+  MfaLoginSchemaZod,
+  TwoFactorCodeSchemaZod,
+  TwoFactorPolicySchemaZod,
+} from "../schemas/AdminSchema";
+import {
+  authenticateJWT,
+  authorizeRoles,
+  requireAdmin,
+  Role,
+} from "../middleware/auth";
+import {
+  byBodyField,
+  byIp,
+  rateLimit,
+  tooManyRequests,
+} from "../middleware/rateLimit";
+import {
+  hashToken,
+  issueTokens,
+  MfaPurpose,
+  revokeAllSessions,
+  verifyMfaToken,
+} from "../services/TokenService";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from "../services/TotpService";
+import {
+  clearFailedLogins,
+  isLockedOut,
+  recordFailedLogin,
+} from "../services/LoginLockoutService";
+
+const router = express.Router();
+
+// Second login step; limited per MFA token so one password check cannot buy unlimited guesses
+const verifyRateLimit = rateLimit({
+  route: "admin-login-verify",
+  windowMs: 15 * 60 * 1000,
+  buckets: [byIp(20), byBodyField("mfaToken", 5)],
+});
+
+// Secrets are excluded from queries by default
+const TWO_FACTOR_FIELDS =
+  "+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes";
+
+/**
+ * Generates recovery codes, returning the raw codes and the hashes to store.
+ * @returns {{ codes: string[]; hashes: string[] }}
+ */
+const newRecoveryCodes = () => {
+  const codes = generateRecoveryCodes();
+  return {
+    codes,
+    hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))),
+  };
+};
+
+/**
+ * Lets admins who are forced to enroll (and so have no session yet) use the
+ * enrollment routes with the "MFA pending" token from /login; everyone else needs an admin JWT.
+ * Sets `res.locals.enrolling` when the pending token was used.
+ */
+const authenticateAdminOrEnrollment = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const mfaToken = req.body?.mfaToken;
+  if (typeof mfaToken === "string" && mfaToken) {
+    const adminId = verifyMfaToken(mfaToken, MfaPurpose.ENROLL);
+    if (!adminId) {
+      return res.status(401).json({ message: "Invalid or expired MFA token." });
+    }
+    req.user = { id: adminId, role: Role.ADMIN };
+    res.locals.enrolling = true;
+    return next();
+  }
+  authenticateJWT(req, res, () => authorizeRoles(Role.ADMIN)(req, res, next));
+};
+
+/**
+ * @route POST /login/verify
+ * @group Admin - Operations about admin
+ * @param {Object} req.body - The "MFA pending" token from /login and a TOTP code or a recovery code
+ * @returns {Object} 200 - Access and refresh tokens
+ * @returns {Object} 400 - Validation errors or invalid code
+ * @returns {Object} 401 - Invalid or expired MFA token
+ * @returns {Object} 429 - Account temporarily locked
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/login/verify",
+  verifyRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { mfaToken, code, recoveryCode } = MfaLoginSchemaZod.parse(
+        req.body
+      );
+
+      const adminId = verifyMfaToken(mfaToken, MfaPurpose.VERIFY);
+      if (!adminId) {
+        return res
+          .status(401)
+          .json({ message: "Invalid or expired MFA token." });
+      }
+
+      const admin =
+        await AdminSchema.findById(adminId).select(TWO_FACTOR_FIELDS);
+      if (!admin || !admin.twoFactorEnabled || !admin.twoFactorSecret) {
+        return res
+          .status(401)
+          .json({ message: "Invalid or expired MFA token." });
+      }
+
+      if (isLockedOut(admin)) {
+        return tooManyRequests(
+          res,
+          admin.lockUntil as Date,
+          "Account temporarily locked due to repeated failed logins"
+        );
+      }
+
+      let verified = false;
+      if (code) {
+        const step = verifyTotp(
+          admin.twoFactorSecret,
+          code,
+          admin.twoFactorLastStep ?? -1
+        );
+        if (step !== null) {
+          // Only one request can claim a given step, so a code cannot be replayed
+          const claimed = await AdminSchema.updateOne(
+            {
+              _id: admin._id,
+              $or: [
+                { twoFactorLastStep: { $exists: false } },
+                { twoFactorLastStep: { $lt: step } },
+              ],
+            },
+            { twoFactorLastStep: step }
+          );
+          verified = claimed.modifiedCount === 1;
+        }
+      } else if (recoveryCode) {
+        // Recovery codes are single use; pulling the hash consumes it atomically
+        const codeHash = hashToken(normalizeRecoveryCode(recoveryCode));
+        const consumed = await AdminSchema.updateOne(
+          { _id: admin._id, twoFactorRecoveryCodes: codeHash },
+          { $pull: { twoFactorRecoveryCodes: codeHash } }
+        );
+        verified = consumed.modifiedCount === 1;
+      }
+
+      if (!verified) {
+        await recordFailedLogin(admin);
+        return res
+          .status(400)
+          .json({ message: "Invalid two-factor authentication code" });
+      }
+
+      await clearFailedLogins(admin);
+
+      const { token, refreshToken } = await issueTokens(
+        String(admin._id),
+        Role.ADMIN
+      );
+      return res.status(200).json({
+        message: "Login successful",
+        token,
+        refreshToken,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal Server Error" });
+    }
+  }
+);
+
+/**
+ * @route POST /2fa/setup
+ * @group Admin - Operations about admin
+ * @access Admin, or the "MFA pending" token from /login when 2FA is mandatory
+ * @returns {Object} 200 - The new secret and an otpauth:// URI for authenticator apps
+ * @returns {Object} 400 - 2FA is already enabled
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/2fa/setup",
+  authenticateAdminOrEnrollment,
+  async (req: Request, res: Response) => {
+    try {
+      const admin = await AdminSchema.findById(req.user.id);
+      if (!admin) {
+        return res.status(404).json({ message: "Admin not found" });
+      }
+      if (admin.twoFactorEnabled) {
+        return res
+          .status(400)
+          .json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      // The secret only takes effect once /2fa/enable confirms a code from it
+      const secret = generateTotpSecret();
+      admin.twoFactorPendingSecret = secret;
+      await admin.save();
+
+      return res.status(200).json({
+        secret,
+        otpauthUri: buildOtpauthUri(admin.email, secret),
+      });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal Server Error" });
+    }
+  }
+);
+
+/**
+ * @route POST /2fa/enable
+ * @group Admin - Operations about admin
+ * @access Admin, or the "MFA pending" token from /login when 2FA is mandatory
+ * @param {Object} req.body - A code from the secret returned by /2fa/setup
+ * @returns {Object} 200 - Recovery codes (shown once), plus tokens when enrolling during login
+ * @returns {Object} 400 - Validation errors, invalid code or no pending setup
+ * @returns {Object} 401 - Not authenticated
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/2fa/enable",
+  authenticateAdminOrEnrollment,
+  async (req: Request, res: Response) => {
+    try {
+      const { code } = TwoFactorCodeSchemaZod.parse(req.body);
+
+      const admin = await AdminSchema.findById(req.user.id).select(
+        TWO_FACTOR_FIELDS
+      );
+      if (!admin) {
+        return res.status(404).json({ message: "Admin not found" });
+      }
+      if (admin.twoFactorEnabled) {
+        return res
+          .status(400)
+          .json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!admin.twoFactorPendingSecret) {
+        return res
+          .status(400)
+          .json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(admin.twoFactorPendingSecret, code);
+      if (step === null) {
+        return res
+          .status(400)
+          .json({ message: "Invalid two-factor authentication code" });
+      }
+
+      const { codes, hashes } = newRecoveryCodes();
+      admin.twoFactorEnabled = true;
+      admin.twoFactorSecret = admin.twoFactorPendingSecret;
+      admin.twoFactorPendingSecret = undefined;
+      admin.twoFactorLastStep = step;
+      admin.twoFactorRecoveryCodes = hashes;
+      await admin.save();
+
+      const response: Record<string, unknown> = {
+        message:
+          "Two-factor authentication enabled. Store the recovery codes now, they will not be shown again.",
+        recoveryCodes: codes,
+      };
+
+      // Finishing a forced enrollment completes the login
+      if (res.locals.enrolling) {
+        await clearFailedLogins(admin);
+        const { token, refreshToken } = await issueTokens(
+          String(admin._id),
+          Role.ADMIN
+        );
+        response.token = token;
+        response.refreshToken = refreshToken;
+      }
+
+      return res.status(200).json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal Server Error" });
+    }
+  }
+);
+
+/**
+ * @route POST /2fa/recovery-codes
+ * @group Admin - Operations about admin
+ * @access Admin
+ * @param {Object} req.body - A current TOTP code
+ * @returns {Object} 200 - A fresh set of recovery codes; the old ones stop working
+ * @returns {Object} 400 - Validation errors, invalid code or 2FA not enabled
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/2fa/recovery-codes",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { code } = TwoFactorCodeSchemaZod.parse(req.body);
+
+      const admin = await AdminSchema.findById(req.user.id).select(
+        TWO_FACTOR_FIELDS
+      );
+      if (!admin || !admin.twoFactorEnabled || !admin.twoFactorSecret) {
+        return res
+          .status(400)
+          .json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (verifyTotp(admin.twoFactorSecret, code) === null) {
+        return res
+          .status(400)
+          .json({ message: "Invalid two-factor authentication code" });
+      }
+
+      const { codes, hashes } = newRecoveryCodes();
+      admin.twoFactorRecoveryCodes = hashes;
+      await admin.save();
+
+      return res.status(200).json({ recoveryCodes: codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal Server Error" });
+    }
+  }
+);
+
+/**
+ * @route POST /2fa/disable
+ * @group Admin - Operations about admin
+ * @access Admin
+ * @param {Object} req.body - The admin's password and a current TOTP code
+ * @returns {Object} 200 - 2FA disabled; other sessions are signed out
+ * @returns {Object} 400 - Validation errors, wrong password or code, or 2FA not enabled
+ * @returns {Object} 403 - 2FA is required for all admins
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/2fa/disable",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { password, code } = DisableTwoFactorSchemaZod.parse(req.body);
+
+      if (await getSetting(SettingKey.REQUIRE_ADMIN_TWO_FACTOR, false)) {
+        return res.status(403).json({
+          message: "Two-factor authentication is required for all admins",
+        });
+      }
+
+      const admin = await AdminSchema.findById(req.user.id).select(
+        TWO_FACTOR_FIELDS
+      );
+      if (!admin || !admin.twoFactorEnabled || !admin.twoFactorSecret) {
+        return res
+          .status(400)
+          .json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      const isPasswordCorrect = await bcrypt.compare(password, admin.password);
+      if (
+        !isPasswordCorrect ||
+        verifyTotp(admin.twoFactorSecret, code) === null
+      ) {
+        return res
+          .status(400)
+          .json({ message: "Invalid password or two-factor code" });
+      }
+
+      admin.twoFactorEnabled = false;
+      admin.twoFactorSecret = undefined;
+      admin.twoFactorPendingSecret = undefined;
+      admin.twoFactorLastStep = undefined;
+      admin.twoFactorRecoveryCodes = [];
+      await admin.save();
+
+      await revokeAllSessions(
+        String(admin._id),
+        "two-factor-disabled",
+        req.user.sessionId
+      );
+
+      return res
+        .status(200)
+        .json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal Server Error" });
+    }
+  }
+);
+
+/**
+ * @route GET /settings/two-factor
+ * @group Admin - Operations about admin
+ * @access Admin
+ * @returns {Object} 200 - Whether 2FA is required for all admins
+ * @returns {Object} 500 - Internal server error
+ */
+router.get(
+  "/settings/two-factor",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const required = await getSetting(
+        SettingKey.REQUIRE_ADMIN_TWO_FACTOR,
+        false
+      );
+      return res.status(200).json({ required });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal Server Error" });
+    }
+  }
+);
+
+/**
+ * @route PUT /settings/two-factor
+ * @group Admin - Operations about admin
+ * @access Admin
+ * @param {Object} req.body - `required`: whether every admin must use 2FA
+ * @returns {Object} 200 - The updated policy
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 500 - Internal server error
+ */
+router.put(
+  "/settings/two-factor",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { required } = TwoFactorPolicySchemaZod.parse(req.body);
+      await setSetting(SettingKey.REQUIRE_ADMIN_TWO_FACTOR, required);
+      return res.status(200).json({ required });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal Server Error" });
+    }
+  }
+);
+
+export default router;
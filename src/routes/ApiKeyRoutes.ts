@@ -0,0 +1,98 @@
+import express, { Request, Response } from "express";
+import { z } from "zod";
+import { ApiKey } from "../models/ApiKeyModel";
+import { Expert } from "../models/ExpertModel";
+import { ApiKeySchemaZod } from "../schemas/ApiKeySchema";
+import { requireAdmin } from "../middleware/auth";
+import { generateOpaqueToken, hashToken } from "../services/TokenService";
+
+const router = express.Router();
+
+/**
+ * @route POST /api-keys
+ * @group ApiKeys - Partner API key management
+ * @access Admin
+ * @param {Object} req.body - Name, scopes, optional expertId and rateLimitPerMinute
+ * @returns {Object} 201 - The created key; the raw `key` is only ever returned here
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 404 - Expert not found
+ * @returns {Object} 500 - Internal server error
+ */
+router.post("/api-keys", requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const parsedData = ApiKeySchemaZod.parse(req.body);
+
+    if (
+      parsedData.expertId &&
+      !(await Expert.exists({ _id: parsedData.expertId }))
+    ) {
+      return res.status(404).json({ message: "Expert not found" });
+    }
+
+    const key = `tm_${generateOpaqueToken()}`;
+    const apiKey = await ApiKey.create({
+      ...parsedData,
+      prefix: key.slice(0, 10),
+      keyHash: hashToken(key),
+      createdBy: req.user.id,
+    });
+
+    res.status(201).json({
+      message: "API key created. Store it now, it will not be shown again.",
+      key,
+      apiKey,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.errors });
+    }
+    return res.status(500).json({ message: "Internal server error", error });
+  }
+});
+
+/**
+ * @route GET /api-keys
+ * @group ApiKeys - Partner API key management
+ * @access Admin
+ * @returns {Object[]} 200 - All keys (without hashes), newest first
+ * @returns {Object} 500 - Internal server error
+ */
+router.get("/api-keys", requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const apiKeys = await ApiKey.find().sort({ createdAt: -1 });
+    res.status(200).json(apiKeys);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route DELETE /api-keys/{id}
+ * @group ApiKeys - Partner API key management
+ * @access Admin
+ * @param {string} id.path.required - The ID of the key to revoke
+ * @returns {Object} 200 - The revoked key
+ * @returns {Object} 404 - Key not found or already revoked
+ * @returns {Object} 500 - Internal server error
+ */
+router.delete(
+  "/api-keys/:id",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const apiKey = await ApiKey.findOneAndUpdate(
+        { _id: req.params.id, revokedAt: { $exists: false } },
+        { revokedAt: new Date() },
+        { new: true }
+      );
+      if (!apiKey) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+      res.status(200).json({ message: "API key revoked", apiKey });
+    } catch (error) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,62 @@
+import express, { Request, Response } from "express";
+import { z } from "zod";
+import { AuditLog } from "../models/AuditLogModel";
+import { AuditLogQuerySchemaZod } from "../schemas/AuditLogSchema";
+import { requireAdmin } from "../middleware/auth";
+
+const router = express.Router();
+
+/**
+ * @route GET /audit-logs
+ * @group Audit - Audit trail of create, update and delete operations
+ * @access Admin
+ * @param {string} [targetModel.query] - Filter by model name
+ * @param {string} [targetId.query] - Filter by document ID
+ * @param {string} [actorId.query] - Filter by actor ID
+ * @param {string} [actorRole.query] - Filter by actor role
+ * @param {string} [action.query] - Filter by action ("create", "update", "delete")
+ * @param {string} [from.query] - Only entries at or after this date
+ * @param {string} [to.query] - Only entries at or before this date
+ * @param {number} [page.query] - Page number (default 1)
+ * @param {number} [limit.query] - Entries per page (default 20, max 100)
+ * @returns {Object} 200 - Paginated audit log entries, newest first
+ * @returns {Object} 400 - Invalid filters
+ * @returns {Object} 500 - Internal server error
+ */
+router.get("/audit-logs", requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { page, limit, from, to, ...filters } = AuditLogQuerySchemaZod.parse(
+      req.query
+    );
+
+    const query: Record<string, unknown> = { ...filters };
+    if (from || to) {
+      query.createdAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      };
+    }
+
+    const logs = await AuditLog.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+    const total = await AuditLog.countDocuments(query);
+
+    res.status(200).json({
+      error: false,
+      total,
+      page,
+      limit,
+      logs,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.errors });
+    }
+    console.error(error);
+    res.status(500).json({ error: true, message: "Internal Server Error" });
+  }
+});
+
+export default router;
@@ -1,10 +1,63 @@
-import { BookingSchemaZod } from "../schemas/BookingSchema";
+import {
+  BookingReferenceZod,
+  BookingSchemaZod,
+  BookingSeriesSchemaZod,
+  GuestCancelSchemaZod,
+  GuestLookupSchemaZod,
+  GuestSeriesCancelSchemaZod,
+} from "../schemas/BookingSchema";
 import express, { Request, Response } from "express";
-import { BookingSchema, IBooking } from "../models/BookingModel"; // Import Mongoose Booking model
+import {
+  BookingSchema,
+  IBooking,
+  ScreeningStatus,
+} from "../models/BookingModel"; // Import Mongoose Booking model
+import { BookingSeries } from "../models/BookingSeriesModel";
 import { date, z } from "zod";
+import { byBodyField, byIp, rateLimit } from "../middleware/rateLimit";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+import {
+  BookingTransitionError,
+  cancelBookingAsGuest,
+  findBookingByReferenceOrId,
+  ReservationError,
+  reserveSlot,
+} from "../services/BookingService";
+import {
+  cancelSeriesAsGuest,
+  reserveSeries,
+} from "../services/BookingSeriesService";
+import { getBookingDefaults, usesGuestContact } from "../services/GuestService";
+import { normalizePhone } from "../services/KycService";
+import { getPublishedSummaries } from "../services/SessionNoteService";
+import { authenticateOptional, Role } from "../middleware/auth";
 
 const router = express.Router();
 
+// Throttle spam bookings per IP and per guest identity
+const bookingRateLimit = rateLimit({
+  route: "book-appointment",
+  windowMs: 60 * 60 * 1000,
+  buckets: [
+    byIp(10),
+    byBodyField("guestEmail", 5),
+    byBodyField("guestPhone", 5, normalizePhone),
+  ],
+});
+
+// Guessing booking references and emails should be slow
+const guestCancelRateLimit = rateLimit({
+  route: "guest-cancel",
+  windowMs: 60 * 60 * 1000,
+  buckets: [byIp(20), byBodyField("guestEmail", 10)],
+});
+const guestLookupRateLimit = rateLimit({
+  route: "guest-lookup",
+  windowMs: 60 * 60 * 1000,
+  buckets: [byIp(30), byBodyField("guestEmail", 20)],
+});
+
 /**
  * @typedef {Object} BookingResponse
  * @property {string} guestName - Name of the guest.
@@ -17,12 +70,16 @@ const router = express.Router();
  * @property {string} guestWhatsapp - WhatsApp number of the guest.
  * @property {string} guestWebsite - Website of the guest.
  * @property {string} guestProblem - Problem or issue reported by the guest.
- * @property {string | undefined} guestVoiceNotes - Optional voice note from the guest.
+ * @property {string | undefined} guestVoiceNotes - Optional ID of the guest's uploaded voice note.
+ * @property {Array<string>} guestAttachments - IDs of files the guest uploaded.
+ * @property {Object} [intakeAnswers] - Answers to the plan's intake questions, keyed by question key (see the plan's `intakeQuestions`).
  * @property {Array<string>} tags - Array of tags associated with the booking.
- * @property {boolean} guestKYC - Indicates if KYC is completed.
+ * @property {boolean} guestKYC - Whether the guest's identity was verified when booking (see POST /kyc).
  * @property {string} expertId - MongoDB ObjectId of the expert.
  * @property {string} slotId - MongoDB ObjectId of the slot.
- * @property {("Pending" | "Completed" | "Cancelled" | "Rescheduled")} status - Status of the booking.
+ * @property {string} [planId] - MongoDB ObjectId of the plan; must be the slot's plan.
+ * @property {string} status - Status of the booking; new bookings are always "Pending".
+ * @property {boolean} heldForReview - Whether the booking looked like spam or a duplicate and waits for an admin before it can be confirmed.
  */
 
 /**
@@ -32,81 +89,171 @@ const router = express.Router();
  * @group Booking - Operations about booking appointments
  * @param {Object} req - Express request object.
  * @param {BookingResponse} req.body - The data for booking an appointment.
+ * Logged-in guests may leave out the details saved in their profile, and must use the
+ * email and phone on their account.
  * @returns {Object} 201 - Successfully created booking.
- * @returns {Object} 400 - Validation error details.
+ * @returns {Object} 400 - Validation error details (including answers that do not fit the plan's questionnaire), a logged-in guest's email or phone that is not their account's, or the slot does not belong to the date, expert or plan.
+ * @returns {Object} 404 - Slot or date not found.
+ * @returns {Object} 409 - Slot already booked or date not open for booking.
+ * @returns {Object} 429 - Too many bookings from this IP, email or phone.
  * @returns {Object} 500 - Internal server error.
  */
-router.post("/book-appointment", async (req: Request, res: Response) => {
-  try {
-    // Validate request body with Zod schema
-    const validatedData = BookingSchemaZod.parse(req.body);
-
-    // Create new Booking with validated data
-    const newBooking = new BookingSchema({
-      guestName: validatedData.guestName,
-      dateId: validatedData.dateId,
-      guestOccupation: validatedData.guestOccupation,
-      guestAge: validatedData.guestAge,
-      guestCity: validatedData.guestCity,
-      guestEmail: validatedData.guestEmail,
-      guestPhone: validatedData.guestPhone,
-      guestWhatsapp: validatedData.guestWhatsapp,
-      guestProblem: validatedData.guestProblem,
-      guestVoiceNote: validatedData.guestVoiceNote,
-      tags: validatedData.tags,
-      guestKYC: validatedData.guestKYC,
-      expertId: validatedData.expertId, // This should be an array of experts
-      slotId: validatedData.slotId,
-      status: validatedData.status,
-    });
-
-    // Save the booking to the database
-    await newBooking.save();
-
-    // Respond with only the required fields
-    res.status(201).json({
-      guestName: newBooking.guestName,
-      dateId: newBooking.dateId,
-      guestOccupation: newBooking.guestOccupation,
-      guestAge: newBooking.guestAge,
-      guestCity: newBooking.guestCity,
-      guestEmail: newBooking.guestEmail,
-      guestPhone: newBooking.guestPhone,
-      guestWhatsapp: newBooking.guestWhatsapp,
-      guestWebsite: newBooking.guestWebsite,
-      guestProblem: newBooking.guestProblem,
-      guestVoiceNotes: newBooking.guestVoiceNote,
-      tags: newBooking.tags,
-      guestKYC: newBooking.guestKYC,
-      expertId: newBooking.expertId,
-      slotId: newBooking.slotId,
-      status: newBooking.status,
-    });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      // Handle validation errors
-      return res.status(400).json({ errors: error.errors });
+router.post(
+  "/book-appointment",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  authenticateOptional,
+  bookingRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const guestId = req.user?.role === Role.GUEST ? req.user.id : undefined;
+      const defaults = guestId ? await getBookingDefaults(guestId) : {};
+
+      // Validate request body with Zod schema
+      const validatedData = BookingSchemaZod.parse({
+        ...defaults,
+        ...req.body,
+      });
+      if (guestId && !(await usesGuestContact(guestId, validatedData))) {
+        return res.status(400).json({
+          message:
+            "Bookings made while logged in must use the email and phone on your account",
+        });
+      }
+
+      // Validate the slot and reserve it together with the booking
+      const newBooking = await reserveSlot(validatedData, guestId);
+
+      // Respond with only the required fields
+      res.status(201).json({
+        reference: newBooking.reference,
+        guestName: newBooking.guestName,
+        dateId: newBooking.dateId,
+        guestOccupation: newBooking.guestOccupation,
+        guestAge: newBooking.guestAge,
+        guestCity: newBooking.guestCity,
+        guestEmail: newBooking.guestEmail,
+        guestPhone: newBooking.guestPhone,
+        guestWhatsapp: newBooking.guestWhatsapp,
+        guestWebsite: newBooking.guestWebsite,
+        guestProblem: newBooking.guestProblem,
+        guestVoiceNotes: newBooking.guestVoiceNote,
+        guestAttachments: newBooking.guestAttachments,
+        intakeAnswers: newBooking.intakeAnswers,
+        tags: newBooking.tags,
+        guestKYC: newBooking.guestKYC,
+        expertId: newBooking.expertId,
+        slotId: newBooking.slotId,
+        planId: newBooking.planId,
+        status: newBooking.status,
+        heldForReview: newBooking.screening?.status === ScreeningStatus.HELD,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        // Handle validation errors
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ReservationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
     }
-    return res.status(500).json({ message: "Internal server error", error });
   }
-});
+);
 
+/**
+ * POST route for booking a recurring series of appointments.
+ * The first session is booked like POST /book-appointment (it needs a hold on its slot);
+ * the later ones take the expert's slot of the same plan and timing every week or two
+ * weeks. Either every session is booked or none is.
+ *
+ * @route POST /book-series
+ * @group Booking - Operations about booking appointments
+ * @param {BookingResponse} req.body - The booking for the first session, plus the `interval`
+ * ("weekly" or "biweekly") and the number of `occurrences` (2 to 12).
+ * @returns {Object} 201 - The series and its bookings, in order.
+ * @returns {Object} 400 - Validation error details, or the slot does not belong to the date, expert or plan.
+ * @returns {Object} 404 - Slot or date not found.
+ * @returns {Object} 409 - The first slot is taken, or later sessions have no free slot (all are listed).
+ * @returns {Object} 429 - Too many bookings from this IP, email or phone.
+ * @returns {Object} 500 - Internal server error.
+ */
+router.post(
+  "/book-series",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  authenticateOptional,
+  bookingRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const guestId = req.user?.role === Role.GUEST ? req.user.id : undefined;
+      const defaults = guestId ? await getBookingDefaults(guestId) : {};
+
+      const validatedData = BookingSeriesSchemaZod.parse({
+        ...defaults,
+        ...req.body,
+      });
+      if (guestId && !(await usesGuestContact(guestId, validatedData))) {
+        return res.status(400).json({
+          message:
+            "Bookings made while logged in must use the email and phone on your account",
+        });
+      }
+
+      const { series, bookings } = await reserveSeries(validatedData, guestId);
+
+      res.status(201).json({
+        seriesId: series._id,
+        interval: series.interval,
+        occurrences: series.occurrences,
+        timing: series.timing,
+        status: series.status,
+        heldForReview: bookings[0].screening?.status === ScreeningStatus.HELD,
+        bookings: bookings.map((booking) => ({
+          reference: booking.reference,
+          bookingId: booking._id,
+          dateId: booking.dateId,
+          slotId: booking.slotId,
+          status: booking.status,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ReservationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
 
 /**
  * Zod validation schema for updating guest data.
  * 
  * @typedef {Object} UpdateGuestData
- * @property {string} booking_id - The ID of the booking to update.
+ * @property {string} [reference] - The reference of the booking to update (e.g. "TM-7K3QX").
+ * @property {string} [booking_id] - The ID of the booking to update, if no reference is given.
+ * @property {string} guestEmail - The email the booking was made with.
+ * @property {string} [newGuestEmail] - New email of the guest.
  * @property {string} guestPhone - New phone number of the guest.
- * @property {string} guestEmail - New email of the guest.
  * @property {string} guestName - New name of the guest.
  */
-const updateGuestSchema = z.object({
-  booking_id: z.string().nonempty({ message: "Booking ID is required" }),
-  guestPhone: z.string().nonempty({ message: "Phone number is required" }),
-  guestEmail: z.string().email({ message: "Valid email is required" }),
-  guestName: z.string().nonempty({ message: "Guest name is required" }),
-});
+const updateGuestSchema = z
+  .object({
+    reference: BookingReferenceZod.optional(),
+    booking_id: z.string().length(24, "Invalid Booking ID").optional(),
+    guestEmail: z.string().email({ message: "Valid email is required" }),
+    newGuestEmail: z
+      .string()
+      .email({ message: "Valid email is required" })
+      .optional(),
+    guestPhone: z.string().nonempty({ message: "Phone number is required" }),
+    guestName: z.string().nonempty({ message: "Guest name is required" }),
+  })
+  .refine((data) => data.reference || data.booking_id, {
+    message: "Booking reference is required",
+    path: ["reference"],
+  });
 
 
 /**
@@ -115,46 +262,237 @@ const updateGuestSchema = z.object({
  * @route PUT /booking/modify
  * @group Booking - Operations about booking appointments
  * @param {Object} req - Express request object.
- * @param {UpdateGuestData} req.body - The data for updating guest information.
- * @returns {Object} 200 - Successfully updated booking data.
- * @returns {Object} 404 - Booking not found.
+ * @param {UpdateGuestData} req.body - The booking reference and the email it was made with, and the new guest details.
+ * @returns {Object} 200 - The booking's reference and updated guest details.
+ * @returns {Object} 404 - No booking with that reference and email.
  * @returns {Object} 400 - Validation error details.
+ * @returns {Object} 429 - Too many attempts.
  * @returns {Object} 500 - Internal server error.
  */
-router.put("/booking/modify", async (req: Request, res: Response) => {
-  try {
-    // Validate request body using Zod schema
-    const validatedData = updateGuestSchema.parse(req.body);
-
-    // Find the booking by ID and update guest data
-    const updatedBooking = await BookingSchema.findByIdAndUpdate(
-      validatedData.booking_id,
-      {
-        $set: {
-          guestPhone: validatedData.guestPhone,
-          guestEmail: validatedData.guestEmail,
-          guestName: validatedData.guestName, // Changed from guestUsername to guestName
+router.put(
+  "/booking/modify",
+  guestLookupRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request body using Zod schema
+      const validatedData = updateGuestSchema.parse(req.body);
+
+      // Unknown bookings and wrong emails look the same, so neither can be probed
+      const booking = await findBookingByReferenceOrId({
+        reference: validatedData.reference,
+        bookingId: validatedData.booking_id,
+      });
+      if (
+        !booking ||
+        booking.guestEmail.toLowerCase() !==
+          validatedData.guestEmail.toLowerCase()
+      ) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      // Only applies if the email was not changed in the meantime
+      const updatedBooking = await BookingSchema.findOneAndUpdate(
+        { _id: booking._id, guestEmail: booking.guestEmail },
+        {
+          $set: {
+            guestPhone: validatedData.guestPhone,
+            guestEmail: validatedData.newGuestEmail ?? booking.guestEmail,
+            guestName: validatedData.guestName, // Changed from guestUsername to guestName
+          },
         },
-      },
-      { new: true }
-    );
+        { new: true }
+      );
+
+      if (!updatedBooking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      // Send a success response with the updated guest details only
+      res.status(200).json({
+        message: "Guest data updated successfully",
+        reference: updatedBooking.reference,
+        guestName: updatedBooking.guestName,
+        guestEmail: updatedBooking.guestEmail,
+        guestPhone: updatedBooking.guestPhone,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        // Handle validation errors
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * POST route for a guest to cancel their own booking.
+ * The plan's cancellation policy decides whether a fee applies; the slot is released.
+ *
+ * @route POST /booking/cancel
+ * @group Booking - Operations about booking appointments
+ * @param {Object} req.body - The booking `reference` (or `bookingId`), the `guestEmail` it was made with and an optional `reason`.
+ * @returns {Object} 200 - The cancelled booking and any cancellation fee.
+ * @returns {Object} 400 - Validation error details.
+ * @returns {Object} 404 - No booking with that reference and email.
+ * @returns {Object} 409 - The booking cannot be cancelled (already started, completed or cancelled).
+ * @returns {Object} 429 - Too many attempts.
+ * @returns {Object} 500 - Internal server error.
+ */
+router.post(
+  "/booking/cancel",
+  guestCancelRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { reference, bookingId, guestEmail, reason } =
+        GuestCancelSchemaZod.parse(req.body);
+
+      // Unknown bookings and wrong emails look the same, so neither can be probed
+      const booking = await findBookingByReferenceOrId({
+        reference,
+        bookingId,
+      });
+      if (
+        !booking ||
+        booking.guestEmail.toLowerCase() !== guestEmail.toLowerCase()
+      ) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      const cancelledBooking = await cancelBookingAsGuest(booking, reason);
 
-    if (!updatedBooking) {
-      return res.status(404).json({ message: "Booking not found" });
+      res.status(200).json({
+        message: "Booking cancelled successfully",
+        reference: cancelledBooking.reference,
+        bookingId: cancelledBooking._id,
+        status: cancelledBooking.status,
+        cancellationFee: cancelledBooking.cancellationFee,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof BookingTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
     }
+  }
+);
+
+/**
+ * POST route for a guest to cancel every remaining session of a series.
+ * Each session is cancelled under the plan's cancellation policy, like POST /booking/cancel;
+ * sessions that have already started are left as they are.
+ *
+ * @route POST /booking/series/cancel
+ * @group Booking - Operations about booking appointments
+ * @param {Object} req.body - The `seriesId`, the `guestEmail` it was booked with and an optional `reason`.
+ * @returns {Object} 200 - The cancelled bookings and any cancellation fees.
+ * @returns {Object} 400 - Validation error details.
+ * @returns {Object} 404 - No series with that ID and email.
+ * @returns {Object} 409 - The series was already cancelled.
+ * @returns {Object} 429 - Too many attempts.
+ * @returns {Object} 500 - Internal server error.
+ */
+router.post(
+  "/booking/series/cancel",
+  guestCancelRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { seriesId, guestEmail, reason } = GuestSeriesCancelSchemaZod.parse(
+        req.body
+      );
 
-    // Send a success response with updated booking data
-    res.status(200).json({
-      message: "Guest data updated successfully",
-      updatedBooking,
-    });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      // Handle validation errors
-      return res.status(400).json({ errors: error.errors });
+      const series = await BookingSeries.findById(seriesId);
+      if (
+        !series ||
+        series.guestEmail.toLowerCase() !== guestEmail.toLowerCase()
+      ) {
+        return res.status(404).json({ message: "Series not found" });
+      }
+
+      const cancelledBookings = await cancelSeriesAsGuest(series, reason);
+
+      res.status(200).json({
+        message: "Series cancelled successfully",
+        seriesId: series._id,
+        bookings: cancelledBookings.map((booking) => ({
+          reference: booking.reference,
+          bookingId: booking._id,
+          status: booking.status,
+          cancellationFee: booking.cancellationFee,
+        })),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof BookingTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
     }
-    return res.status(500).json({ message: "Internal server error", error });
   }
-});
+);
+
+/**
+ * POST route for a guest to look up their booking.
+ * The email is sent in the body rather than the query string so it does not end up in logs.
+ *
+ * @route POST /booking/lookup
+ * @group Booking - Operations about booking appointments
+ * @param {Object} req.body - The booking `reference` and the `guestEmail` it was made with.
+ * @returns {Object} 200 - The booking with its expert, plan, date and slot, and the session summary once published.
+ * @returns {Object} 400 - Validation error details.
+ * @returns {Object} 404 - No booking with that reference and email.
+ * @returns {Object} 429 - Too many attempts.
+ * @returns {Object} 500 - Internal server error.
+ */
+router.post(
+  "/booking/lookup",
+  guestLookupRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { reference, guestEmail } = GuestLookupSchemaZod.parse(req.body);
+
+      const booking = await BookingSchema.findOne({ reference })
+        .populate("expertId", "fullname designation avatar")
+        .populate("planId", "name channel duration price bookingType")
+        .populate("dateId", "date")
+        .populate("slotId", "timing period startsAt endsAt");
+      if (
+        !booking ||
+        booking.guestEmail.toLowerCase() !== guestEmail.toLowerCase()
+      ) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const summaries = await getPublishedSummaries(
+        [booking._id],
+        `${req.protocol}://${req.get("host")}`
+      );
+
+      res.status(200).json({
+        reference: booking.reference,
+        status: booking.status,
+        guestName: booking.guestName,
+        guestEmail: booking.guestEmail,
+        guestPhone: booking.guestPhone,
+        guestProblem: booking.guestProblem,
+        expert: booking.expertId,
+        plan: booking.planId,
+        date: booking.dateId,
+        slot: booking.slotId,
+        cancellationFee: booking.cancellationFee,
+        sessionSummary: summaries.get(String(booking._id)),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
 
 export default router;
@@ -0,0 +1,150 @@
+/**
+ * @module BookingScreeningRoutes
+ * @description Admin review of bookings held by spam and duplicate screening.
+ */
+
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { z } from "zod";
+import { BookingSchema, ScreeningStatus, Status } from "../models/BookingModel";
+import { BookingTransitionSchemaZod } from "../schemas/BookingSchema";
+import { requireAdmin } from "../middleware/auth";
+import {
+  BookingTransitionError,
+  transitionBooking,
+} from "../services/BookingService";
+import {
+  releaseHeldBooking,
+  ScreeningError,
+} from "../services/BookingScreeningService";
+
+const router = express.Router();
+
+const HeldBookingsQuerySchemaZod = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * @route GET /admin/bookings/held
+ * @access Admin
+ * @param {number} [page=1] - Page number
+ * @param {number} [limit=20] - Bookings per page (at most 100)
+ * @returns {Object} 200 - Held bookings with the reasons they were held, oldest first so the queue is worked in order
+ * @returns {Object} 400 - Invalid query
+ * @returns {Object} 500 - Internal server error
+ */
+router.get(
+  "/admin/bookings/held",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { page, limit } = HeldBookingsQuerySchemaZod.parse(req.query);
+      const filter = {
+        "screening.status": ScreeningStatus.HELD,
+        status: Status.PENDING,
+      };
+
+      const bookings = await BookingSchema.find(filter)
+        .populate("expertId", "fullname")
+        .sort({ createdAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit);
+      const total = await BookingSchema.countDocuments(filter);
+
+      res.status(200).json({ total, page, limit, bookings });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /admin/bookings/{id}/release
+ * @access Admin
+ * @param {string} id.path.required - The ID of the held booking
+ * @returns {Object} 200 - The released booking, which can now be confirmed
+ * @returns {Object} 404 - Booking not found
+ * @returns {Object} 409 - The booking is not held
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/admin/bookings/:id/release",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      const booking =
+        mongoose.isValidObjectId(id) && (await BookingSchema.findById(id));
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      res.status(200).json(await releaseHeldBooking(booking, req.user.id));
+    } catch (error) {
+      if (error instanceof ScreeningError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /admin/bookings/{id}/reject
+ * @access Admin
+ * @param {string} id.path.required - The ID of the held booking
+ * @param {Object} req.body - Optional `reason`, recorded in the status history
+ * @returns {Object} 200 - The booking, now cancelled; its seat is given back
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 404 - Booking not found
+ * @returns {Object} 409 - The booking is not held, or can no longer be cancelled
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/admin/bookings/:id/reject",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { reason } = BookingTransitionSchemaZod.parse(req.body);
+      const id = String(req.params.id);
+      const booking =
+        mongoose.isValidObjectId(id) && (await BookingSchema.findById(id));
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (booking.screening?.status !== ScreeningStatus.HELD) {
+        return res
+          .status(409)
+          .json({ message: "Booking is not held for review" });
+      }
+
+      const rejected = await transitionBooking(
+        booking,
+        Status.CANCELLED,
+        req.user,
+        {
+          reason,
+          set: {
+            "screening.status": ScreeningStatus.REJECTED,
+            "screening.reviewedBy": req.user.id,
+            "screening.reviewedAt": new Date(),
+          },
+        }
+      );
+      res.status(200).json(rejected);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof BookingTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+export default router;
@@ -7,9 +7,32 @@ import { DateSchemaZod } from "../schemas/DateSchema"; // Zod validation schema
 import { z } from "zod";
 import { Expert } from "../models/ExpertModel";
 import { Plan } from "../models/PlanModel";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+import {
+  canManageExpert,
+  forbidden,
+  requireAdmin,
+  requireExpertOrAdmin,
+} from "../middleware/auth";
+import { SLOT_AVAILABLE_PATTERN, SlotAvailability } from "../models/SlotModel";
+import { getHeldSeatCounts } from "../services/SlotHoldService";
+import { notifyWaitlist } from "../services/WaitlistService";
+import { getExpertDates } from "../services/ExpertCalendarService";
+import {
+  migrateScheduleTimes,
+  syncDateTimes,
+} from "../services/ScheduleService";
+import {
+  formatInTimeZone,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "../services/TimeZoneService";
 
 const router = express.Router();
 
+const calendarRead = requireApiKeyScope(ApiKeyScope.CALENDAR_READ);
+
 
 /**
  * @route POST /date/create
@@ -21,26 +44,35 @@ const router = express.Router();
  * @param {Array<string>} [req.body.slotsId] - Optional array of slot IDs
  * @returns {object} 201 - The created date entry
  * @returns {Error} 400 - Invalid input data
+ * @returns {Error} 403 - Not the admin or the date's expert
  * @returns {Error} 500 - Internal server error
  */
-router.post("/date/create", async (req: Request, res: Response) => {
-  try {
-    // Validate request data with Zod
-    const parsedData = DateSchemaZod.parse(req.body);
+router.post(
+  "/date/create",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request data with Zod
+      const parsedData = DateSchemaZod.parse(req.body);
+      if (!canManageExpert(req.user, parsedData.expertId)) {
+        return forbidden(res);
+      }
 
-    const dateEntry = new DateModel(parsedData);
-    await dateEntry.save();
-    res.status(201).json(dateEntry);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      // Return Zod validation errors
-      res.status(400).json({ errors: error.errors });
-    } else {
-      res.status(400).json({ error: error.message });
+      const dateEntry = new DateModel(parsedData);
+      await dateEntry.save();
+      await syncDateTimes(dateEntry);
+      notifyWaitlist(dateEntry.slotsId); // new openings go to waiting guests first
+      res.status(201).json(dateEntry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        // Return Zod validation errors
+        res.status(400).json({ errors: error.errors });
+      } else {
+        res.status(400).json({ error: error.message });
+      }
     }
   }
-});
-
+);
 
 /**
  * @route GET /dates
@@ -48,7 +80,7 @@ router.post("/date/create", async (req: Request, res: Response) => {
  * @returns {Array<object>} 200 - List of all date entries
  * @returns {Error} 500 - Internal server error
  */
-router.get("/dates", async (req: Request, res: Response) => {
+router.get("/dates", calendarRead, async (req: Request, res: Response) => {
   try {
     const dates = await DateModel.find().populate("expertId").populate("slots");
     res.status(200).json(dates);
@@ -62,36 +94,52 @@ router.get("/dates", async (req: Request, res: Response) => {
  * @route GET /date/{expertid}
  * @group Date - Operations about date
  * @param {string} expertid.path.required - The ID of the expert
- * @returns {Array<object>} 200 - The date entries associated with the expert
+ * @returns {Array<object>} 200 - The date entries associated with the expert, in chronological order
  * @returns {Error} 404 - Date entry not found
  * @returns {Error} 500 - Internal server error
  */
-router.get("/date/:expertid", async (req: Request, res: Response) => {
-  try {
-    const dateEntry = await DateModel.find({ expertId: req.params.expertid });
-    if (!dateEntry) {
-      return res.status(404).json({ error: "Date entry not found" });
+router.get(
+  "/date/:expertid",
+  calendarRead,
+  async (req: Request, res: Response) => {
+    try {
+      const dateEntry = await getExpertDates(req.params.expertid);
+      if (!dateEntry) {
+        return res.status(404).json({ error: "Date entry not found" });
+      }
+      res.status(200).json(dateEntry);
+    } catch (error) {
+      res.status(500).json({ error: error.message });
     }
-    res.status(200).json(dateEntry);
-  } catch (error) {
-    res.status(500).json({ error: error.message });
   }
-});
-
+);
 
 /**
  * @route POST /calendar
  * @group Calendar - Operations about calendars
  * @param {object} req.body - The plan ID to fetch dates and slots
  * @param {string} req.body.plan_id - The ID of the plan
- * @returns {object} 200 - The structured data including plan, expert, and dates
+ * @param {string} [req.body.timezone] - IANA time zone to show times in, e.g. the guest's (defaults to the expert's)
+ * @returns {object} 200 - The structured data including plan, expert, the `timezone` times are shown in, and dates in chronological order.
+ * Each slot has its UTC `startsAt` and `endsAt`, its `local` date, timing and UTC offset in that time zone, and its remaining seats
+ * (slots that have started, or whose free seats are all held, show as "Not available")
+ * @returns {Error} 400 - Invalid time zone
  * @returns {Error} 404 - Plan or expert not found
  * @returns {Error} 500 - Internal server error
  */
-router.post("/calendar", async (req: Request, res: Response) => {
-  const { plan_id } = req.body;
+router.post("/calendar", calendarRead, async (req: Request, res: Response) => {
+  const { plan_id, timezone } = req.body;
 
   try {
+    if (
+      timezone !== undefined &&
+      (typeof timezone !== "string" || !isValidTimeZone(timezone))
+    ) {
+      return res
+        .status(400)
+        .json({ message: "timezone must be an IANA time zone name" });
+    }
+
     // 1. Find the plan by plan_id
     const plan = await Plan.findById(plan_id);
 
@@ -105,10 +153,25 @@ router.post("/calendar", async (req: Request, res: Response) => {
     if (!expert) {
       return res.status(404).json({ message: "Expert not found" });
     }
+    const viewTimeZone: string = timezone || expert.timezone;
 
     // 3. Find all dates associated with this plan and expert
     const dates = await DateModel.find({ expertId: plan.expertId });
 
+    // Seats other guests are checking out with are not offered
+    const heldSeats = await getHeldSeatCounts(
+      dates.flatMap((date) => date.slotsId)
+    );
+
+    // Dates and slots not migrated yet have no stored times, so they are read from their strings
+    const startOf = (day: string, timing: string, stored?: Date) =>
+      stored ?? zonedTimeToUtc(day, timing, expert.timezone);
+    const chronologically = (
+      a: { startsAt: Date | null },
+      b: { startsAt: Date | null }
+    ) => (a.startsAt?.getTime() ?? 0) - (b.startsAt?.getTime() ?? 0);
+    const now = Date.now();
+
     // 4. Fetch the slots for each date using the correct property (slotsId)
     const responseDates = await Promise.all(
       dates.map(async (date) => {
@@ -119,14 +182,39 @@ router.post("/calendar", async (req: Request, res: Response) => {
           id: date._id,
           date: date.date,
           availability: date.availability,
-          slots: populatedDate.slotsId.map((slot: any) => ({
-            id: slot._id,
-            availability: slot.availability,
-            timing: slot.timing,
-            period: slot.period,
-            expertId: slot.expertId,
-            planId: slot.planId,
-          })),
+          startsAt: startOf(date.date, "00:00", date.startsAt),
+          endsAt: date.endsAt,
+          slots: populatedDate.slotsId
+            .map((slot: any) => {
+              const startsAt = startOf(date.date, slot.timing, slot.startsAt);
+              const open = SLOT_AVAILABLE_PATTERN.test(slot.availability);
+              const bookable = open && !(startsAt?.getTime() <= now);
+              const remainingSeats = bookable
+                ? Math.max(
+                    0,
+                    slot.capacity -
+                      slot.bookedSeats -
+                      (heldSeats.get(String(slot._id)) || 0)
+                  )
+                : 0;
+              return {
+                id: slot._id,
+                availability:
+                  open && remainingSeats === 0
+                    ? SlotAvailability.NOT_AVAILABLE
+                    : slot.availability,
+                timing: slot.timing,
+                period: slot.period,
+                startsAt,
+                endsAt: slot.endsAt,
+                local: startsAt && formatInTimeZone(startsAt, viewTimeZone),
+                expertId: slot.expertId,
+                planId: slot.planId,
+                capacity: slot.capacity,
+                remainingSeats,
+              };
+            })
+            .sort(chronologically),
         };
       })
     );
@@ -142,13 +230,16 @@ router.post("/calendar", async (req: Request, res: Response) => {
         bookingType: plan.bookingType,
         expertId: plan.expertId,
         isDedicated: plan.isDedicated,
+        seatCapacity: plan.seatCapacity,
       },
       expert: {
         id: expert._id,
         fullname: expert.fullname, // Assuming expert has a name field
         expertise: expert.expertise, // Assuming expert has a specialty field
+        timezone: expert.timezone,
       },
-      dates: responseDates,
+      timezone: viewTimeZone,
+      dates: responseDates.sort(chronologically),
     });
   } catch (error) {
     console.error("Error fetching plan dates and slots:", error);
@@ -158,9 +249,30 @@ router.post("/calendar", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route POST /admin/schedule/migrate-times
+ * @group Date - Operations about date
+ * @access Admin
+ * @returns {object} 200 - How many `experts`, `dates` and `slots` were migrated, and the IDs of `skipped` dates whose date string could not be read
+ * @returns {Error} 500 - Internal server error
+ * @description Gives dates and slots created before they had UTC times their `startsAt` and `endsAt`,
+ * reading their "DD/MM/YYYY" dates and "HH:MM" timings in the expert's time zone. Experts without one
+ * get `DEFAULT_TIMEZONE`, so set it to the zone existing data was entered in first. Safe to run again.
+ */
+router.post(
+  "/admin/schedule/migrate-times",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      res.status(200).json(await migrateScheduleTimes());
+    } catch (error) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
 
 /**
- * @route PUT /{id}
+ * @route PUT /date/{id}
  * @group Date - Operations about date
  * @param {string} id.path.required - The ID of the date entry to update
  * @param {object} req.body - The updated date entry data
@@ -171,49 +283,75 @@ router.post("/calendar", async (req: Request, res: Response) => {
  * @returns {object} 200 - The updated date entry
  * @returns {Error} 404 - Date entry not found
  * @returns {Error} 400 - Invalid input data
+ * @returns {Error} 403 - Not the admin or the date's expert
  * @returns {Error} 500 - Internal server error
  */
-router.put("/:id", async (req: Request, res: Response) => {
-  try {
-    // Validate request data with Zod (allow partial updates)
-    const parsedData = DateSchemaZod.partial().parse(req.body);
+router.put(
+  "/date/:id", // not "/:id", which planRoutes (mounted first) already answers
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request data with Zod (allow partial updates)
+      const parsedData = DateSchemaZod.partial().parse(req.body);
 
-    const dateEntry = await DateModel.findByIdAndUpdate(
-      req.params.id,
-      parsedData,
-      { new: true }
-    );
-    if (!dateEntry) {
-      return res.status(404).json({ error: "Date entry not found" });
-    }
-    res.status(200).json(dateEntry);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      res.status(400).json({ errors: error.errors });
-    } else {
-      res.status(400).json({ error: error.message });
+      const existingEntry = await DateModel.findById(req.params.id);
+      if (!existingEntry) {
+        return res.status(404).json({ error: "Date entry not found" });
+      }
+      if (
+        !canManageExpert(req.user, existingEntry.expertId) ||
+        (parsedData.expertId && !canManageExpert(req.user, parsedData.expertId))
+      ) {
+        return forbidden(res);
+      }
+
+      const dateEntry = await DateModel.findByIdAndUpdate(
+        req.params.id,
+        parsedData,
+        { new: true }
+      );
+      if (dateEntry) {
+        await syncDateTimes(dateEntry);
+        notifyWaitlist(dateEntry.slotsId);
+      }
+      res.status(200).json(dateEntry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ errors: error.errors });
+      } else {
+        res.status(400).json({ error: error.message });
+      }
     }
   }
-});
-
+);
 
 /**
- * @route DELETE /{date_Id}
+ * @route DELETE /date/{date_Id}
  * @group Date - Operations about date
  * @param {string} date_Id.path.required - The ID of the date entry to delete
  * @returns {204} 204 - No Content
  * @returns {Error} 404 - Date entry not found
+ * @returns {Error} 403 - Not the admin or the date's expert
  * @returns {Error} 500 - Internal server error
  */
-router.delete("/:date_Id", async (req: Request, res: Response) => {
-  try {
-    const dateEntry = await DateModel.findByIdAndDelete(req.params.date_Id);
-    if (!dateEntry) {
-      return res.status(404).json({ error: "Date entry not found" });
+router.delete(
+  "/date/:date_Id",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const dateEntry = await DateModel.findById(req.params.date_Id);
+      if (!dateEntry) {
+        return res.status(404).json({ error: "Date entry not found" });
+      }
+      if (!canManageExpert(req.user, dateEntry.expertId)) {
+        return forbidden(res);
+      }
+
+      await DateModel.findByIdAndDelete(dateEntry._id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: error.message });
     }
-    res.status(204).send();
-  } catch (error) {
-    res.status(500).json({ error: error.message });
   }
-});
+);
 export default router;
@@ -3,7 +3,7 @@
  * @requires express
  * @requires Expert
  * @requires ExpertSchemaZod
- * @requires jwt
+ * @requires bcrypt
  * @requires authenticateJWT
  * @requires z
  * @requires ReschedulingRequest
@@ -13,9 +13,19 @@
 
 import express from "express";
 import { Expert, IExpert } from "../models/ExpertModel";
-import { ExpertSchemaZod } from "../schemas/ExpertSchema";
-import jwt from "jsonwebtoken";
-import { authenticateJWT } from "../middleware/auth";
+import {
+  ExpertListQuerySchemaZod,
+  ExpertLoginSchemaZod,
+  ExpertSchemaZod,
+} from "../schemas/ExpertSchema";
+import bcrypt from "bcryptjs";
+import {
+  canManageExpert,
+  forbidden,
+  requireAdmin,
+  requireExpertOrAdmin,
+  Role,
+} from "../middleware/auth";
 import { Request, Response } from "express";
 import { z } from "zod";
 import {
@@ -25,61 +35,163 @@ import {
 import { populate } from "dotenv";
 import mongoose from "mongoose";
 import { BookingSchema, Status } from "../models/BookingModel";
+import { issueTokens } from "../services/TokenService";
+import { syncExpertSchedule } from "../services/ScheduleService";
+import { getExpertRescheduleRequests } from "../services/ExpertCalendarService";
+import { logoutSession, refreshSession } from "./SessionHandlers";
+import { byBodyField, byIp, rateLimit } from "../middleware/rateLimit";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+import {
+  BookingTransitionError,
+  ReservationError,
+  transitionBooking,
+} from "../services/BookingService";
 
 const router = express.Router();
 
+// Partner API keys need the read-only calendar scope for these lookups
+const calendarRead = requireApiKeyScope(ApiKeyScope.CALENDAR_READ);
+
+const loginRateLimit = rateLimit({
+  route: "expert-login",
+  windowMs: 15 * 60 * 1000,
+  buckets: [byIp(20), byBodyField("email", 10)],
+});
+
 /**
  * @route POST /expert/create
  * @description Create a new expert
- * @access Public
+ * @access Admin
  * @param {Request} req - Express request object, with expert data in the body
  * @param {Response} res - Express response object, returns created expert or error
  */
 
-router.post("/expert/create", async (req: Request, res: Response) => {
-  try {
-    // Validate the request body using Zod schema
-    const parsedData = ExpertSchemaZod.parse(req.body);
+router.post(
+  "/expert/create",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate the request body using Zod schema
+      const parsedData = ExpertSchemaZod.parse(req.body);
 
-    const expert = new Expert(parsedData);
-    await expert.save();
-    res.status(201).json(expert);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      // Return Zod validation errors
-      res.status(400).json({ errors: error.errors });
-    } else {
-      res.status(400).json({ error: error.message });
+      // Hash the initial password, if the admin set one
+      if (parsedData.password) {
+        parsedData.password = await bcrypt.hash(parsedData.password, 10);
+      }
+
+      const expert = new Expert(parsedData);
+      await expert.save();
+      res.status(201).json(expert);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        // Return Zod validation errors
+        res.status(400).json({ errors: error.errors });
+      } else {
+        res.status(400).json({ error: error.message });
+      }
     }
   }
-});
+);
+
+/**
+ * @route POST /expert/login
+ * @description Log in as an expert with email and password
+ * @access Public
+ * @param {Request} req - Express request object, with email and password in the body
+ * @param {Response} res - Express response object, returns an access and a refresh token
+ */
+
+router.post(
+  "/expert/login",
+  loginRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { email, password } = ExpertLoginSchemaZod.parse(req.body);
+
+      // The password is not selected by default
+      const expert = await Expert.findOne({ email }).select("+password");
+      if (!expert || !expert.password || !expert.isActive) {
+        return res.status(400).json({ message: "Invalid email or password" });
+      }
+
+      const isPasswordCorrect = await bcrypt.compare(password, expert.password);
+      if (!isPasswordCorrect) {
+        return res.status(400).json({ message: "Invalid email or password" });
+      }
+
+      const { token, refreshToken } = await issueTokens(
+        String(expert._id),
+        Role.EXPERT
+      );
+
+      res.status(200).json({
+        message: "Login successful",
+        token,
+        refreshToken,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * @route POST /expert/refresh
+ * @description Exchange an expert refresh token for a new token pair
+ * @access Public
+ */
+
+router.post("/expert/refresh", refreshSession);
+
+/**
+ * @route POST /expert/logout
+ * @description Revoke the expert session the refresh token belongs to
+ * @access Public
+ */
+
+router.post("/expert/logout", logoutSession);
 
 /**
  * @route GET /experts
- * @description Get all experts
+ * @description Get all experts, each with their average rating (`ratingAverage`) and `reviewCount`
  * @access Public
- * @param {Request} req - Express request object
+ * @param {Request} req - Express request object, optional `sort` ("rating" or "reviews") and `order` ("desc" by default) in the query
  * @param {Response} res - Express response object, returns all experts or error
  */
 
-router.get("/experts", async (req: Request, res: Response) => {
+router.get("/experts", calendarRead, async (req: Request, res: Response) => {
   try {
-    const experts = await Expert.find();
+    const { sort, order } = ExpertListQuerySchemaZod.parse(req.query);
+    const sortBy =
+      sort === "rating"
+        ? { ratingAverage: order, reviewCount: order }
+        : sort === "reviews"
+          ? { reviewCount: order }
+          : {};
+
+    const experts = await Expert.find().sort(sortBy);
     res.status(200).json(experts);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.errors });
+    }
     res.status(500).json({ error: error.message });
   }
 });
 
 /**
  * @route GET /expert/:id
- * @description Get an expert by ID
+ * @description Get an expert by ID, with their average rating (`ratingAverage`) and `reviewCount`
  * @access Public
  * @param {Request} req - Express request object, expert ID in the params
  * @param {Response} res - Express response object, returns expert or error
  */
 
-router.get("/expert/:id", async (req: Request, res: Response) => {
+router.get("/expert/:id", calendarRead, async (req: Request, res: Response) => {
   try {
     const expert = await Expert.findById(req.params.id);
     if (!expert) {
@@ -94,95 +206,131 @@ router.get("/expert/:id", async (req: Request, res: Response) => {
 /**
  * @route PUT /expert/:id
  * @description Update an expert by ID
- * @access Public
+ * @access Admin, or the expert themselves
  * @param {Request} req - Express request object, expert ID in the params, updated data in the body
  * @param {Response} res - Express response object, returns updated expert or error
  */
 
-router.put("/expert/:id", async (req: Request, res: Response) => {
-  try {
-    // Validate the request body using Zod schema
-    const parsedData = ExpertSchemaZod.partial().parse(req.body); // Allow partial updates
+router.put(
+  "/expert/:id",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      if (!canManageExpert(req.user, req.params.id)) {
+        return forbidden(res);
+      }
 
-    const expert = await Expert.findByIdAndUpdate(req.params.id, parsedData, {
-      new: true,
-    });
-    if (!expert) {
-      return res.status(404).json({ error: "Expert not found" });
-    }
-    res.status(200).json(expert);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      // Return Zod validation errors
-      res.status(400).json({ errors: error.errors });
-    } else {
-      res.status(400).json({ error: error.message });
+      // Validate the request body using Zod schema
+      const parsedData = ExpertSchemaZod.partial().parse(req.body); // Allow partial updates
+
+      // Only admins may change the admin and active flags or reset the password
+      if (
+        req.user.role !== Role.ADMIN &&
+        (parsedData.isAdmin !== undefined ||
+          parsedData.isActive !== undefined ||
+          parsedData.password !== undefined)
+      ) {
+        return forbidden(res);
+      }
+      if (parsedData.password) {
+        parsedData.password = await bcrypt.hash(parsedData.password, 10);
+      }
+
+      const expert = await Expert.findByIdAndUpdate(req.params.id, parsedData, {
+        new: true,
+      });
+      if (!expert) {
+        return res.status(404).json({ error: "Expert not found" });
+      }
+      if (parsedData.timezone) {
+        await syncExpertSchedule(expert._id); // same timings, new instants
+      }
+      res.status(200).json(expert);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        // Return Zod validation errors
+        res.status(400).json({ errors: error.errors });
+      } else {
+        res.status(400).json({ error: error.message });
+      }
     }
   }
-});
+);
 
 /**
  * @route DELETE /expert/:id
  * @description Delete an expert by ID
- * @access Public
+ * @access Admin
  * @param {Request} req - Express request object, expert ID in the params
  * @param {Response} res - Express response object, returns 204 on success or error
  */
 
-router.delete("/expert/:id", async (req: Request, res: Response) => {
-  try {
-    const expert = await Expert.findByIdAndDelete(req.params.id);
-    if (!expert) {
-      return res.status(404).json({ error: "Expert not found" });
+router.delete(
+  "/expert/:id",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const expert = await Expert.findByIdAndDelete(req.params.id);
+      if (!expert) {
+        return res.status(404).json({ error: "Expert not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: error.message });
     }
-    res.status(204).send();
-  } catch (error) {
-    res.status(500).json({ error: error.message });
   }
-});
+);
 
 /**
  * @route GET /reschedule-request
  * @description List all reschedule requests from guests
- * @access Public
+ * @access Admin
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object, returns reschedule requests
  */
 
-router.get("/reschedule-request", async (req: Request, res: Response) => {
-  try {
-    // Fetch all rescheduling requests without populating the entire document
-    const requests = await ReschedulingRequest.find();
-
-    // Send the response with only the required fields
-    const formattedRequests = requests.map((request) => ({
-      currentBookingId: request.CurrentBookingId,
-      requestedDateId: request.RequestedDateId,
-      requestedSlotId: request.RequestedSlotId,
-    }));
-
-    res.status(200).json({
-      message: "Rescheduling requests retrieved successfully",
-      list: requests,
-    });
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({ message: "Internal server error", error });
+router.get(
+  "/reschedule-request",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Fetch all rescheduling requests without populating the entire document
+      const requests = await ReschedulingRequest.find();
+
+      // Send the response with only the required fields
+      const formattedRequests = requests.map((request) => ({
+        currentBookingId: request.CurrentBookingId,
+        requestedDateId: request.RequestedDateId,
+        requestedSlotId: request.RequestedSlotId,
+      }));
+
+      res.status(200).json({
+        message: "Rescheduling requests retrieved successfully",
+        list: requests,
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ message: "Internal server error", error });
+    }
   }
-});
+);
 
 /**
  * @route GET /reschedule-requests/:ExpertId
  * @description List reschedule requests by expert ID
- * @access Public
+ * @access Admin, or the expert themselves
  * @param {Request} req - Express request object, expert ID in the params
  * @param {Response} res - Express response object, returns reschedule requests for the expert
  */
 
 router.get(
   "/reschedule-requests/:ExpertId",
+  requireExpertOrAdmin,
   async (req: Request, res: Response) => {
     const { ExpertId } = req.params; // Extract expert ID from request parameters
+    if (!canManageExpert(req.user, ExpertId)) {
+      return forbidden(res);
+    }
     console.log(`Expert ID: ${ExpertId}`);
 
     try {
@@ -192,11 +340,8 @@ router.get(
         return res.status(404).json({ message: "Expert not found" });
       }
 
-      // Fetch rescheduling requests associated with the specified expert ID
-      const requests = await ReschedulingRequest.find({ expertId: ExpertId }) // Ensure the expertId field exists in ReschedulingRequest schema
-        .populate("CurrentBookingId") // Populate booking details if needed
-        .populate("RequestedDateId") // Populate date details if needed
-        .populate("RequestedSlotId"); // Populate slot details if needed
+      // Fetch rescheduling requests for the specified expert's bookings
+      const requests = await getExpertRescheduleRequests(ExpertId);
 
       // If no requests are found
       if (requests.length === 0) {
@@ -235,115 +380,136 @@ router.get(
  * @param {Response} res - Express response object, returns all reschedule requests
  */
 
-router.get("/reschedule-requests", async (req: Request, res: Response) => {
-  try {
-    // Fetch all rescheduling requests and populate the expert's username
-    const requests = await ReschedulingRequest.find()
-      .populate({
-        path: "CurrentBookingId",
-        select: "_Id",
-        populate: {
-          path: "expertId",
-          model: "Expert",
-          select: "username",
-        },
-      })
-      .populate({
-        path: "RequestedDateId",
-        select: "date", // Populate date details if needed
-      })
-      .populate({
-        path: "RequestedSlotId",
-        select: "_Id", // Populate slot details if needed
+router.get(
+  "/reschedule-requests",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Fetch all rescheduling requests and populate the expert's username
+      const requests = await ReschedulingRequest.find()
+        .populate({
+          path: "CurrentBookingId",
+          select: "_Id",
+          populate: {
+            path: "expertId",
+            model: "Expert",
+            select: "username",
+          },
+        })
+        .populate({
+          path: "RequestedDateId",
+          select: "date", // Populate date details if needed
+        })
+        .populate({
+          path: "RequestedSlotId",
+          select: "_Id", // Populate slot details if needed
+        });
+      console.log(requests);
+
+      // Format the response to include only the required fields
+      const formattedRequests = requests.map((request) => ({
+        currentBookingId: request.CurrentBookingId, // Include the relevant fields
+        requestedDateId: request.RequestedDateId,
+        requestedSlotId: request.RequestedSlotId,
+      }));
+
+      res.status(200).json({
+        message: "Rescheduling requests retrieved successfully",
+        list: formattedRequests, // Return the formatted data
       });
-    console.log(requests);
-
-    // Format the response to include only the required fields
-    const formattedRequests = requests.map((request) => ({
-      currentBookingId: request.CurrentBookingId, // Include the relevant fields
-      requestedDateId: request.RequestedDateId,
-      requestedSlotId: request.RequestedSlotId,
-    }));
-
-    res.status(200).json({
-      message: "Rescheduling requests retrieved successfully",
-      list: formattedRequests, // Return the formatted data
-    });
-  } catch (error) {
-    console.error("Error fetching reschedule requests:", error);
-    res
-      .status(500)
-      .json({ message: "Internal server error", error: error.message });
+    } catch (error) {
+      console.error("Error fetching reschedule requests:", error);
+      res
+        .status(500)
+        .json({ message: "Internal server error", error: error.message });
+    }
   }
-});
+);
 
 /**
  * @route POST /handle-Reschedule
  * @description Handle expert reschedule requests
- * @access Public
+ * @access Admin, or the expert assigned to the booking
  * @param {Request} req - Express request object, including reschedule data
  * @param {Response} res - Express response object, returns success or error
  */
 
-router.post("/handle-Reschedule", async (req: Request, res: Response) => {
-  const {
-    CurrentBookingId,
-    RequestedDateId,
-    RequestedSlotId,
-    action,
-    newDate,
-  } = req.body;
+router.post(
+  "/handle-Reschedule",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    const {
+      CurrentBookingId,
+      RequestedDateId,
+      RequestedSlotId,
+      action,
+      newDate,
+    } = req.body;
 
-  try {
-    // Check if the booking exists
-    const booking = await BookingSchema.findById(CurrentBookingId);
-    if (!booking) {
-      return res.status(404).json({ message: "Booking not found" });
-    }
+    try {
+      // Check if the booking exists
+      const booking = await BookingSchema.findById(CurrentBookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (!canManageExpert(req.user, booking.expertId)) {
+        return forbidden(res);
+      }
 
-    if (action === "accepted") {
-      // Validate the requestedDateId and requestedSlotId
+      if (action === "accepted") {
+        // Validate the requestedDateId and requestedSlotId
+        if (
+          !mongoose.Types.ObjectId.isValid(RequestedDateId) ||
+          !mongoose.Types.ObjectId.isValid(RequestedSlotId)
+        ) {
+          return res.status(400).json({ message: "Invalid date or slot ID" });
+        }
+
+        // Move the booking to the new date and slot
+        const rescheduledBooking = await transitionBooking(
+          booking,
+          Status.RESCHEDULED,
+          req.user,
+          {
+            reason: "Reschedule request accepted",
+            set: { dateId: RequestedDateId, slotId: RequestedSlotId },
+          }
+        );
+
+        // Optionally, delete the rescheduling request if it was accepted
+        await ReschedulingRequest.deleteOne({
+          CurrentBookingId: CurrentBookingId,
+        });
+
+        return res.status(200).json({
+          message: "Reschedule request accepted successfully",
+          booking: rescheduledBooking,
+        });
+      } else if (action === "rejected") {
+        // Optionally, delete the rescheduling request if it was rejected
+        await ReschedulingRequest.deleteOne({
+          CurrentBookingId: CurrentBookingId,
+        });
+
+        return res.status(200).json({
+          message: "Reschedule request rejected successfully",
+        });
+      } else {
+        return res.status(400).json({ message: "Invalid action" });
+      }
+    } catch (error) {
       if (
-        !mongoose.Types.ObjectId.isValid(RequestedDateId) ||
-        !mongoose.Types.ObjectId.isValid(RequestedSlotId)
+        error instanceof BookingTransitionError ||
+        error instanceof ReservationError
       ) {
-        return res.status(400).json({ message: "Invalid date or slot ID" });
+        return res.status(error.status).json({ message: error.message });
       }
-
-      // Update the booking with new date and slot
-      booking.dateId = RequestedDateId;
-      booking.slotId = RequestedSlotId;
-      booking.status = Status.RESCHEDULED; // Update the status using the enum
-
-      await booking.save();
-
-      // Optionally, delete the rescheduling request if it was accepted
-      await ReschedulingRequest.deleteOne({
-        CurrentBookingId: CurrentBookingId,
-      });
-
-      return res.status(200).json({
-        message: "Reschedule request accepted successfully",
-        booking,
-      });
-    } else if (action === "rejected") {
-      // Optionally, delete the rescheduling request if it was rejected
-      await ReschedulingRequest.deleteOne({
-        CurrentBookingId: CurrentBookingId,
-      });
-
-      return res.status(200).json({
-        message: "Reschedule request rejected successfully",
-      });
-    } else {
-      return res.status(400).json({ message: "Invalid action" });
+      console.error("Error handling reschedule request:", error);
+      return res
+        .status(500)
+        .json({ message: "Internal server error", error: error.message });
     }
-  } catch (error) {
-    console.error("Error handling reschedule request:", error);
-    return res
-      .status(500)
-      .json({ message: "Internal server error", error: error.message });
   }
-});
+);
 
 export default router;
@@ -0,0 +1,340 @@
+/**
+ * @module GuestRoutes
+ * @description Passwordless login and "my account" endpoints for returning guests.
+ */
+
+import express, { Request, Response } from "express";
+import { z } from "zod";
+import { BookingSchema } from "../models/BookingModel";
+import { IExpert } from "../models/ExpertModel";
+import { Guest } from "../models/GuestModel";
+import { ISlot } from "../models/SlotModel";
+import {
+  GuestLoginSchemaZod,
+  GuestLoginVerifySchemaZod,
+  GuestMagicLinkSchemaZod,
+  GuestProfileSchemaZod,
+} from "../schemas/GuestSchema";
+import { authenticateJWT, authorizeRoles, Role } from "../middleware/auth";
+import { byBodyField, byIp, rateLimit } from "../middleware/rateLimit";
+import {
+  addGuestContact,
+  GuestIdentity,
+  GuestLoginError,
+  requestGuestLogin,
+  verifyGuestCode,
+  verifyMagicLink,
+} from "../services/GuestService";
+import { normalizePhone } from "../services/KycService";
+import { getPublishedSummaries } from "../services/SessionNoteService";
+import {
+  getDefaultTimeZone,
+  zonedTimeToUtc,
+} from "../services/TimeZoneService";
+import { logoutSession, refreshSession } from "./SessionHandlers";
+
+const router = express.Router();
+
+const requireGuest = [authenticateJWT, authorizeRoles(Role.GUEST)];
+
+// Every code sent costs a mail or SMS, and codes are only 6 digits
+const loginRateLimit = rateLimit({
+  route: "guest-login",
+  windowMs: 60 * 60 * 1000,
+  buckets: [
+    byIp(20),
+    byBodyField("email", 5),
+    byBodyField("phone", 5, normalizePhone),
+  ],
+});
+const verifyRateLimit = rateLimit({
+  route: "guest-login-verify",
+  windowMs: 15 * 60 * 1000,
+  buckets: [
+    byIp(30),
+    byBodyField("email", 10),
+    byBodyField("phone", 10, normalizePhone),
+  ],
+});
+
+// The validated body holds exactly one of email and phone
+const toIdentity = (data: { email?: string; phone?: string }): GuestIdentity =>
+  data.email ? { email: data.email } : { phone: data.phone };
+
+/**
+ * @route POST /guest/login
+ * @description Send a one-time login code to an email (with a magic link) or phone. New guests get an account on first login.
+ * @access Public
+ * @param {Object} req.body - Either `email` or `phone`
+ * @returns {Object} 200 - Code sent
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 429 - Too many requests
+ */
+router.post(
+  "/guest/login",
+  loginRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      await requestGuestLogin(toIdentity(GuestLoginSchemaZod.parse(req.body)));
+      res.status(200).json({ message: "A login code has been sent" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /guest/login/verify
+ * @description Log in with the code that was sent
+ * @access Public
+ * @param {Object} req.body - `email` or `phone`, and the 6-digit `code`
+ * @returns {Object} 200 - `token`, `refreshToken` and the guest's profile
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 401 - Invalid or expired code
+ * @returns {Object} 429 - Too many requests
+ */
+router.post(
+  "/guest/login/verify",
+  verifyRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { code, ...identity } = GuestLoginVerifySchemaZod.parse(req.body);
+      const { guest, tokens } = await verifyGuestCode(
+        toIdentity(identity),
+        code
+      );
+      res.status(200).json({ ...tokens, guest });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof GuestLoginError) {
+        return res.status(401).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /guest/login/magic
+ * @description Log in with the token from a magic link
+ * @access Public
+ * @param {Object} req.body - `token`
+ * @returns {Object} 200 - `token`, `refreshToken` and the guest's profile
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 401 - Invalid, expired or used link
+ */
+router.post(
+  "/guest/login/magic",
+  verifyRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { token } = GuestMagicLinkSchemaZod.parse(req.body);
+      const { guest, tokens } = await verifyMagicLink(token);
+      res.status(200).json({ ...tokens, guest });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof GuestLoginError) {
+        return res.status(401).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /guest/refresh
+ * @description Exchange a guest refresh token for a new token pair
+ * @access Public
+ */
+
+router.post("/guest/refresh", refreshSession);
+
+/**
+ * @route POST /guest/logout
+ * @description Revoke the guest session the refresh token belongs to
+ * @access Public
+ */
+
+router.post("/guest/logout", logoutSession);
+
+/**
+ * @route GET /guest/me
+ * @description Get the logged-in guest's profile, used to prefill bookings
+ * @access Guest
+ */
+
+router.get("/guest/me", requireGuest, async (req: Request, res: Response) => {
+  try {
+    const guest = await Guest.findById(req.user.id);
+    if (!guest) {
+      return res.status(404).json({ message: "Guest not found" });
+    }
+    res.status(200).json(guest);
+  } catch (error) {
+    return res.status(500).json({ message: "Internal server error", error });
+  }
+});
+
+/**
+ * @route PUT /guest/me
+ * @description Update the logged-in guest's profile. Email and phone are changed through POST /guest/me/contact.
+ * @access Guest
+ */
+
+router.put("/guest/me", requireGuest, async (req: Request, res: Response) => {
+  try {
+    const profile = GuestProfileSchemaZod.parse(req.body);
+    const guest = await Guest.findByIdAndUpdate(req.user.id, profile, {
+      new: true,
+    });
+    if (!guest) {
+      return res.status(404).json({ message: "Guest not found" });
+    }
+    res.status(200).json(guest);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.errors });
+    }
+    return res.status(500).json({ message: "Internal server error", error });
+  }
+});
+
+/**
+ * @route POST /guest/me/contact
+ * @description Send a code to an email or phone to add to the logged-in guest's account (or to replace the one it has)
+ * @access Guest
+ * @param {Object} req.body - Either `email` or `phone`
+ * @returns {Object} 200 - Code sent
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 429 - Too many requests
+ */
+
+router.post(
+  "/guest/me/contact",
+  requireGuest,
+  loginRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      await requestGuestLogin(
+        toIdentity(GuestLoginSchemaZod.parse(req.body)),
+        false
+      );
+      res.status(200).json({ message: "A code has been sent" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /guest/me/contact/verify
+ * @description Add the email or phone the code was sent to to the logged-in guest's account.
+ * An account created earlier by logging in with it is merged into this one, bookings included.
+ * @access Guest
+ * @param {Object} req.body - `email` or `phone`, and the 6-digit `code`
+ * @returns {Object} 200 - The updated profile
+ * @returns {Object} 400 - Validation errors, or an invalid or expired code
+ * @returns {Object} 404 - Guest not found
+ * @returns {Object} 429 - Too many requests
+ */
+
+router.post(
+  "/guest/me/contact/verify",
+  requireGuest,
+  verifyRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { code, ...identity } = GuestLoginVerifySchemaZod.parse(req.body);
+      const guest = await addGuestContact(
+        req.user.id,
+        toIdentity(identity),
+        code
+      );
+      if (!guest) {
+        return res.status(404).json({ message: "Guest not found" });
+      }
+      res.status(200).json(guest);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof GuestLoginError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route GET /guest/me/bookings
+ * @description List the logged-in guest's bookings, split into upcoming (soonest first) and past (latest first),
+ * each with its session summary once published
+ * @access Guest
+ */
+
+router.get(
+  "/guest/me/bookings",
+  requireGuest,
+  async (req: Request, res: Response) => {
+    try {
+      const bookings = await BookingSchema.find({ guestId: req.user.id })
+        .populate("expertId", "fullname designation avatar timezone")
+        .populate("planId", "name channel duration price")
+        .populate("dateId", "date")
+        .populate("slotId", "timing period startsAt endsAt");
+
+      const now = Date.now();
+      const withStart = bookings.map((booking) => {
+        const expert = booking.expertId as unknown as IExpert | null;
+        const date = booking.dateId as unknown as { date?: string } | null;
+        const slot = booking.slotId as unknown as ISlot | null;
+        // Slots not migrated yet are read in the expert's time zone
+        const startsAt =
+          slot?.startsAt ??
+          zonedTimeToUtc(
+            date?.date,
+            slot?.timing,
+            expert?.timezone || getDefaultTimeZone()
+          );
+        return { booking, startsAt };
+      });
+
+      const upcoming = withStart
+        .filter(({ startsAt }) => startsAt && startsAt.getTime() >= now)
+        .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+      const past = withStart
+        .filter(({ startsAt }) => !startsAt || startsAt.getTime() < now)
+        .sort(
+          (a, b) => (b.startsAt?.getTime() ?? 0) - (a.startsAt?.getTime() ?? 0)
+        );
+
+      const summaries = await getPublishedSummaries(
+        bookings.map((booking) => booking._id),
+        `${req.protocol}://${req.get("host")}`
+      );
+      const toJson = ({ booking, startsAt }: (typeof withStart)[number]) => ({
+        ...booking.toJSON(),
+        startsAt,
+        sessionSummary: summaries.get(String(booking._id)),
+      });
+      res
+        .status(200)
+        .json({ upcoming: upcoming.map(toJson), past: past.map(toJson) });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+export default router;
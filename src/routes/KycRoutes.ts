@@ -0,0 +1,234 @@
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { z } from "zod";
+import { KycVerification } from "../models/KycVerificationModel";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+import {
+  KycQuerySchemaZod,
+  KycRejectionSchemaZod,
+  KycStatusQuerySchemaZod,
+  KycSubmissionSchemaZod,
+} from "../schemas/KycSchema";
+import { requireAdmin } from "../middleware/auth";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { byBodyField, byIp, rateLimit } from "../middleware/rateLimit";
+import {
+  getLatestKyc,
+  KycError,
+  reviewKyc,
+  submitKyc,
+} from "../services/KycService";
+
+const router = express.Router();
+
+const submitRateLimit = rateLimit({
+  route: "kyc-submit",
+  windowMs: 60 * 60 * 1000,
+  buckets: [byIp(10), byBodyField("guestEmail", 5)],
+});
+
+// Status checks reveal whether an email/phone pair has been verified
+const statusRateLimit = rateLimit({
+  route: "kyc-status",
+  windowMs: 15 * 60 * 1000,
+  buckets: [byIp(30)],
+});
+
+/**
+ * @route POST /kyc
+ * @group KYC - Identity verification of guests
+ * @param {Object} req.body - Guest name, email and phone, `documentType` and the IDs of the `documents` uploaded through POST /media/kyc-document
+ * @returns {Object} 201 - The verification's `id` and `status` ("pending")
+ * @returns {Object} 400 - Validation errors, or a document was not found or already used
+ * @returns {Object} 409 - The guest is already verified or waiting for review
+ * @returns {Object} 429 - Too many requests
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/kyc",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  submitRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const verification = await submitKyc(
+        KycSubmissionSchemaZod.parse(req.body)
+      );
+      res
+        .status(201)
+        .json({ id: verification._id, status: verification.status });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof KycError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /kyc/status
+ * @group KYC - Identity verification of guests
+ * @param {Object} req.body - `guestEmail` and `guestPhone` the documents were submitted with
+ * @returns {Object} 200 - `status` of the latest verification ("none" if there is none) and any `rejectionReason`
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 429 - Too many requests
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/kyc/status",
+  statusRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { guestEmail, guestPhone } = KycStatusQuerySchemaZod.parse(
+        req.body
+      );
+      const latest = await getLatestKyc(guestEmail, guestPhone);
+      res.status(200).json({
+        status: latest?.status ?? "none",
+        rejectionReason: latest?.rejectionReason,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route GET /admin/kyc
+ * @group KYC - Identity verification of guests
+ * @access Admin
+ * @param {string} [status.query] - "pending" (default), "approved" or "rejected"
+ * @param {string} [guestEmail.query] - Filter by guest email
+ * @param {number} [page.query] - Page number (default 1)
+ * @param {number} [limit.query] - Entries per page (default 20, max 100)
+ * @returns {Object} 200 - Paginated verifications, oldest first so the review queue is worked in order
+ * @returns {Object} 400 - Invalid filters
+ * @returns {Object} 500 - Internal server error
+ */
+router.get("/admin/kyc", requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { page, limit, ...filters } = KycQuerySchemaZod.parse(req.query);
+
+    const verifications = await KycVerification.find(filters)
+      .sort({ createdAt: 1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+    const total = await KycVerification.countDocuments(filters);
+
+    res.status(200).json({ total, page, limit, verifications });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.errors });
+    }
+    return res.status(500).json({ message: "Internal server error", error });
+  }
+});
+
+/**
+ * @route GET /admin/kyc/{id}
+ * @group KYC - Identity verification of guests
+ * @access Admin
+ * @param {string} id.path.required - The ID of the verification
+ * @returns {Object} 200 - The verification, with its documents' details (use GET /media/{id}/url to view them)
+ * @returns {Object} 404 - Verification not found
+ * @returns {Object} 500 - Internal server error
+ */
+router.get(
+  "/admin/kyc/:id",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      const verification =
+        mongoose.isValidObjectId(id) &&
+        (await KycVerification.findById(id).populate(
+          "documents",
+          "originalName mimeType size createdAt"
+        ));
+      if (!verification) {
+        return res.status(404).json({ message: "Verification not found" });
+      }
+      res.status(200).json(verification);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /admin/kyc/{id}/approve
+ * @group KYC - Identity verification of guests
+ * @access Admin
+ * @param {string} id.path.required - The ID of the verification
+ * @returns {Object} 200 - The approved verification; the guest is notified by email
+ * @returns {Object} 404 - Verification not found
+ * @returns {Object} 409 - Already reviewed
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/admin/kyc/:id/approve",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      if (!mongoose.isValidObjectId(id)) {
+        return res.status(404).json({ message: "Verification not found" });
+      }
+      const verification = await reviewKyc(id, { approve: true }, req.user.id);
+      res.status(200).json(verification);
+    } catch (error) {
+      if (error instanceof KycError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /admin/kyc/{id}/reject
+ * @group KYC - Identity verification of guests
+ * @access Admin
+ * @param {string} id.path.required - The ID of the verification
+ * @param {Object} req.body - `reason`, shown to the guest
+ * @returns {Object} 200 - The rejected verification; the guest is notified by email
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 404 - Verification not found
+ * @returns {Object} 409 - Already reviewed
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/admin/kyc/:id/reject",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      const { reason } = KycRejectionSchemaZod.parse(req.body);
+      if (!mongoose.isValidObjectId(id)) {
+        return res.status(404).json({ message: "Verification not found" });
+      }
+      const verification = await reviewKyc(
+        id,
+        { approve: false, reason },
+        req.user.id
+      );
+      res.status(200).json(verification);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof KycError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,209 @@
+/**
+ * @module MeRoutes
+ * @description "My account" endpoints for the logged-in expert.
+ * Listing uses the same queries as the routes taking an expert ID
+ * (ExpertCalendarService); creating, updating and deleting plans, dates and slots
+ * goes through the regular `/plan`, `/date` and `/slot` routes, which only let an
+ * expert touch their own documents.
+ */
+
+import express, { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { Expert } from "../models/ExpertModel";
+import { ExpertProfileSchemaZod } from "../schemas/ExpertSchema";
+import { ChangePasswordSchemaZod } from "../schemas/AdminSchema";
+import {
+  authenticateJWT,
+  authorizeRoles,
+  forbidden,
+  Role,
+} from "../middleware/auth";
+import { revokeAllSessions } from "../services/TokenService";
+import { syncExpertSchedule } from "../services/ScheduleService";
+import {
+  getExpertBookings,
+  getExpertDates,
+  getExpertPlans,
+  getExpertRescheduleRequests,
+  getExpertSlots,
+} from "../services/ExpertCalendarService";
+
+const router = express.Router();
+
+// Every route below is scoped to the expert in the access token
+router.use(authenticateJWT, authorizeRoles(Role.EXPERT));
+
+/**
+ * @route GET /me
+ * @description Get the logged-in expert's profile
+ * @access Expert
+ */
+
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const expert = await Expert.findById(req.user.id);
+    if (!expert) {
+      return res.status(404).json({ error: "Expert not found" });
+    }
+    res.status(200).json(expert);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route PUT /me
+ * @description Update the logged-in expert's profile
+ * @access Expert
+ */
+
+router.put("/", async (req: Request, res: Response) => {
+  try {
+    const parsedData = ExpertProfileSchemaZod.parse(req.body);
+
+    const expert = await Expert.findByIdAndUpdate(req.user.id, parsedData, {
+      new: true,
+    });
+    if (!expert) {
+      return res.status(404).json({ error: "Expert not found" });
+    }
+    if (parsedData.timezone) {
+      await syncExpertSchedule(expert._id); // same timings, new instants
+    }
+    res.status(200).json(expert);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ errors: error.errors });
+    } else {
+      res.status(400).json({ error: error.message });
+    }
+  }
+});
+
+/**
+ * @route PUT /me/password
+ * @description Change the logged-in expert's password. Other sessions are revoked.
+ * @access Expert
+ */
+
+router.put("/password", async (req: Request, res: Response) => {
+  // Partner API keys may manage the calendar but never the expert's credentials
+  if (req.apiKey) {
+    return forbidden(res);
+  }
+
+  try {
+    const { currentPassword, newPassword } = ChangePasswordSchemaZod.parse(
+      req.body
+    );
+
+    const expert = await Expert.findById(req.user.id).select("+password");
+    if (!expert || !expert.password) {
+      return res.status(404).json({ error: "Expert not found" });
+    }
+
+    const isPasswordCorrect = await bcrypt.compare(
+      currentPassword,
+      expert.password
+    );
+    if (!isPasswordCorrect) {
+      return res.status(400).json({ message: "Current password is incorrect" });
+    }
+
+    expert.password = await bcrypt.hash(newPassword, 10);
+    await expert.save();
+    await revokeAllSessions(req.user.id, "password-change", req.user.sessionId);
+
+    res.status(200).json({ message: "Password changed successfully" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ errors: error.errors });
+    } else {
+      res.status(500).json({ error: error.message });
+    }
+  }
+});
+
+/**
+ * @route GET /me/plans
+ * @description List the logged-in expert's plans
+ * @access Expert
+ */
+
+router.get("/plans", async (req: Request, res: Response) => {
+  try {
+    const plans = await getExpertPlans(req.user.id);
+    res.status(200).json(plans);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route GET /me/dates
+ * @description List the logged-in expert's dates with their slots, in chronological order
+ * @access Expert
+ */
+
+router.get("/dates", async (req: Request, res: Response) => {
+  try {
+    const dates = await getExpertDates(req.user.id, { withSlots: true });
+    res.status(200).json(dates);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route GET /me/slots
+ * @description List the logged-in expert's slots, in chronological order
+ * @access Expert
+ */
+
+router.get("/slots", async (req: Request, res: Response) => {
+  try {
+    const slots = await getExpertSlots(req.user.id);
+    res.status(200).json(slots);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route GET /me/bookings
+ * @description List the bookings assigned to the logged-in expert, newest first
+ * @access Expert
+ */
+
+router.get("/bookings", async (req: Request, res: Response) => {
+  try {
+    const bookings = await getExpertBookings(req.user.id);
+    res.status(200).json(bookings);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route GET /me/reschedule-requests
+ * @description List incoming reschedule requests for the logged-in expert's bookings
+ * @access Expert
+ */
+
+router.get("/reschedule-requests", async (req: Request, res: Response) => {
+  try {
+    const requests = await getExpertRescheduleRequests(req.user.id);
+
+    res.status(200).json({
+      message: "Rescheduling requests retrieved successfully",
+      list: requests,
+    });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Internal server error", error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,241 @@
+import express, { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import multer from "multer";
+import { MediaFile, MediaKind } from "../models/MediaFileModel";
+import { BookingSchema } from "../models/BookingModel";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { byIp, rateLimit } from "../middleware/rateLimit";
+import {
+  canManageExpert,
+  forbidden,
+  requireExpertOrAdmin,
+  Role,
+} from "../middleware/auth";
+import {
+  getMediaDownloadUrl,
+  getMediaRules,
+  MediaError,
+  storeUpload,
+} from "../services/MediaService";
+import { getMediaStorage } from "../services/MediaStorage";
+import { verifyMediaToken } from "../services/TokenService";
+
+const router = express.Router();
+
+// Uploads are anonymous (guests upload before booking), so keep one client from filling the disk
+const uploadRateLimit = rateLimit({
+  route: "media-upload",
+  windowMs: 60 * 60 * 1000,
+  buckets: [byIp(20)],
+});
+
+/**
+ * Middleware factory reading a single multipart file field named "file" into memory.
+ * Files over the kind's size limit are cut off while streaming rather than buffered whole.
+ * @param {MediaKind} kind - What the file is uploaded as.
+ */
+const receiveFile =
+  (kind: MediaKind) => (req: Request, res: Response, next: NextFunction) =>
+    multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: getMediaRules(kind).maxBytes, files: 1 },
+    }).single("file")(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res
+          .status(error.code === "LIMIT_FILE_SIZE" ? 413 : 400)
+          .json({ message: error.message });
+      }
+      if (error) return next(error);
+      next();
+    });
+
+/**
+ * Handles an upload of the given kind.
+ * @param {MediaKind} kind - What the file is uploaded as.
+ */
+const upload = (kind: MediaKind) => async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res
+        .status(400)
+        .json({ message: 'A file is required in the "file" field' });
+    }
+    const media = await storeUpload(kind, req.file);
+    res.status(201).json({
+      id: media._id,
+      kind: media.kind,
+      mimeType: media.mimeType,
+      size: media.size,
+      durationSeconds: media.durationSeconds,
+    });
+  } catch (error) {
+    if (error instanceof MediaError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    return res.status(500).json({ message: "Internal server error", error });
+  }
+};
+
+/**
+ * @route POST /media/voice-note
+ * @group Media - Voice notes and attachments for bookings
+ * @param {File} file.formData.required - The recording (webm, ogg, mp3, m4a, aac or wav)
+ * @returns {Object} 201 - `id` to send as `guestVoiceNote` with /book-appointment, plus the file's details
+ * @returns {Object} 400 - No file, not a valid recording, or longer than `MEDIA_MAX_VOICE_NOTE_SECONDS` (default 180)
+ * @returns {Object} 413 - Larger than `MEDIA_MAX_VOICE_NOTE_MB` (default 10)
+ * @returns {Object} 415 - Unsupported file type
+ * @returns {Object} 429 - Too many uploads from this IP
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/media/voice-note",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  uploadRateLimit,
+  receiveFile(MediaKind.VOICE_NOTE),
+  upload(MediaKind.VOICE_NOTE)
+);
+
+/**
+ * @route POST /media/attachment
+ * @group Media - Voice notes and attachments for bookings
+ * @param {File} file.formData.required - The file (pdf, jpeg or png)
+ * @returns {Object} 201 - `id` to send in `guestAttachments` with /book-appointment, plus the file's details
+ * @returns {Object} 400 - No file, or its content does not match its type
+ * @returns {Object} 413 - Larger than `MEDIA_MAX_ATTACHMENT_MB` (default 10)
+ * @returns {Object} 415 - Unsupported file type
+ * @returns {Object} 429 - Too many uploads from this IP
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/media/attachment",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  uploadRateLimit,
+  receiveFile(MediaKind.ATTACHMENT),
+  upload(MediaKind.ATTACHMENT)
+);
+
+/**
+ * @route POST /media/kyc-document
+ * @group Media - Voice notes and attachments for bookings
+ * @param {File} file.formData.required - A scan of an identity document (pdf, jpeg or png)
+ * @returns {Object} 201 - `id` to send in `documents` with POST /kyc, plus the file's details
+ * @returns {Object} 400 - No file, or its content does not match its type
+ * @returns {Object} 413 - Larger than `MEDIA_MAX_ATTACHMENT_MB` (default 10)
+ * @returns {Object} 415 - Unsupported file type
+ * @returns {Object} 429 - Too many uploads from this IP
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/media/kyc-document",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  uploadRateLimit,
+  receiveFile(MediaKind.KYC_DOCUMENT),
+  upload(MediaKind.KYC_DOCUMENT)
+);
+
+/**
+ * @route POST /media/session-attachment
+ * @group Media - Voice notes and attachments for bookings
+ * @param {File} file.formData.required - The file (pdf, jpeg or png)
+ * @returns {Object} 201 - `id` to send in `attachments` with PUT /booking/{id}/notes, plus the file's details
+ * @returns {Object} 400 - No file, or its content does not match its type
+ * @returns {Object} 413 - Larger than `MEDIA_MAX_ATTACHMENT_MB` (default 10)
+ * @returns {Object} 415 - Unsupported file type
+ * @returns {Object} 429 - Too many uploads from this IP
+ * @returns {Object} 500 - Internal server error
+ * @description Restricted to admins and experts, who share these files with guests in session summaries.
+ */
+router.post(
+  "/media/session-attachment",
+  requireExpertOrAdmin,
+  uploadRateLimit,
+  receiveFile(MediaKind.SESSION_ATTACHMENT),
+  upload(MediaKind.SESSION_ATTACHMENT)
+);
+
+/**
+ * @route GET /media/{id}/url
+ * @group Media - Voice notes and attachments for bookings
+ * @param {string} id.path.required - The ID of the file
+ * @returns {Object} 200 - `url` to download the file from, valid for 15 minutes without logging in
+ * @returns {Object} 403 - The file belongs to another expert's booking
+ * @returns {Object} 404 - File not found, or not attached to a booking or KYC verification
+ * @returns {Object} 500 - Internal server error
+ * @description Restricted to admins and the expert of the booking the file is attached to.
+ * Identity documents are only ever shown to admins.
+ */
+router.get(
+  "/media/:id/url",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      if (!mongoose.isValidObjectId(id)) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const media = await MediaFile.findById(id);
+      if (media?.kycVerificationId) {
+        if (req.user.role !== Role.ADMIN) {
+          return forbidden(res);
+        }
+      } else {
+        const booking =
+          media?.bookingId && (await BookingSchema.findById(media.bookingId));
+        if (!booking) {
+          return res.status(404).json({ message: "File not found" });
+        }
+        if (!canManageExpert(req.user, booking.expertId)) {
+          return forbidden(res);
+        }
+      }
+
+      res.status(200).json({
+        url: getMediaDownloadUrl(
+          `${req.protocol}://${req.get("host")}`,
+          String(media._id)
+        ),
+      });
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route GET /media/{id}/download
+ * @group Media - Voice notes and attachments for bookings
+ * @param {string} id.path.required - The ID of the file
+ * @param {string} token.query.required - The token from GET /media/{id}/url
+ * @returns {File} 200 - The file
+ * @returns {Object} 403 - Missing, expired or mismatched token
+ * @returns {Object} 404 - File not found
+ * @returns {Object} 500 - Internal server error
+ */
+router.get("/media/:id/download", async (req: Request, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    if (!verifyMediaToken(String(req.query.token ?? ""), id)) {
+      return res.status(403).json({ message: "Invalid or expired link" });
+    }
+    const media = await MediaFile.findById(id);
+    if (!media) {
+      return res.status(404).json({ message: "File not found" });
+    }
+
+    const stream = await getMediaStorage().read(media.storageKey);
+    res.set({
+      "Content-Type": media.mimeType,
+      "Content-Length": String(media.size),
+      "Content-Disposition": `inline; filename="${encodeURIComponent(media.originalName)}"`,
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    });
+    stream.on("error", () => res.destroy());
+    stream.pipe(res);
+  } catch (error) {
+    return res.status(500).json({ message: "Internal server error", error });
+  }
+});
+
+export default router;
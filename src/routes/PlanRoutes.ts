@@ -3,35 +3,53 @@ import { Plan } from "../models/PlanModel"; // Updated model import path
 import { PlanSchemaZod } from "../schemas/PlanSchema"; // Zod validation schema
 import { z } from "zod";
 import express from "express";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+import {
+  canManageExpert,
+  forbidden,
+  requireExpertOrAdmin,
+} from "../middleware/auth";
+import { syncPlanSlotEnds } from "../services/ScheduleService";
+import { getExpertPlans } from "../services/ExpertCalendarService";
 
 const router = express.Router();
 
+const calendarRead = requireApiKeyScope(ApiKeyScope.CALENDAR_READ);
+
 /**
  * @route POST /plan/create
  * @description Create a new plan
- * @access Public
+ * @access Admin, or the expert the plan belongs to
  * @param {Request} req - Express request object containing the new plan data in req.body
  * @param {Response} res - Express response object
  * @returns {Object} Created plan or validation errors
  */
 
-router.post("/plan/create", async (req: Request, res: Response) => {
-  try {
-    // Validate request data with Zod
-    const parsedData = PlanSchemaZod.parse(req.body);
+router.post(
+  "/plan/create",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request data with Zod
+      const parsedData = PlanSchemaZod.parse(req.body);
+      if (!canManageExpert(req.user, parsedData.expertId)) {
+        return forbidden(res);
+      }
 
-    const plan = new Plan(parsedData);
-    await plan.save();
-    res.status(201).json(plan);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      // Return Zod validation errors
-      res.status(400).json({ errors: error.errors });
-    } else {
-      res.status(400).json({ error: error.message });
+      const plan = new Plan(parsedData);
+      await plan.save();
+      res.status(201).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        // Return Zod validation errors
+        res.status(400).json({ errors: error.errors });
+      } else {
+        res.status(400).json({ error: error.message });
+      }
     }
   }
-});
+);
 
 /**
  * @route GET /plans/get
@@ -42,7 +60,7 @@ router.post("/plan/create", async (req: Request, res: Response) => {
  * @returns {Object[]} List of all plans or error message
  */
 
-router.get("/plans/get", async (req: Request, res: Response) => {
+router.get("/plans/get", calendarRead, async (req: Request, res: Response) => {
   try {
     const plans = await Plan.find();
     res.status(200).json(plans);
@@ -60,67 +78,97 @@ router.get("/plans/get", async (req: Request, res: Response) => {
  * @returns {Object[]} List of plans or error message
  */
 
-router.get("/plan/:expert_id", async (req: Request, res: Response) => {
-  try {
-    const plans = await Plan.find({ expertId: req.params.expert_id });
-    if (!plans || plans.length === 0) {
-      return res.status(404).json({ error: "No plans found for this expert" });
+router.get(
+  "/plan/:expert_id",
+  calendarRead,
+  async (req: Request, res: Response) => {
+    try {
+      const plans = await getExpertPlans(req.params.expert_id);
+      if (!plans || plans.length === 0) {
+        return res
+          .status(404)
+          .json({ error: "No plans found for this expert" });
+      }
+      res.status(200).json(plans);
+    } catch (error) {
+      res.status(500).json({ error: error.message });
     }
-    res.status(200).json(plans);
-  } catch (error) {
-    res.status(500).json({ error: error.message });
   }
-});
+);
 
 /**
  * @route PUT /:id
  * @description Update a plan by ID
- * @access Public
+ * @access Admin, or the expert the plan belongs to
  * @param {Request} req - Express request object containing plan ID in req.params and updated data in req.body
  * @param {Response} res - Express response object
  * @returns {Object} Updated plan or error message
  */
 
-router.put("/:id", async (req: Request, res: Response) => {
-  try {
-    // Validate request data using Zod
-    const parsedData = PlanSchemaZod.partial().parse(req.body); // Allow partial updates
-
-    const plan = await Plan.findByIdAndUpdate(req.params.id, parsedData, {
-      new: true,
-    });
-    if (!plan) {
-      return res.status(404).json({ error: "Plan not found" });
-    }
-    res.status(200).json(plan);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      res.status(400).json({ errors: error.errors });
-    } else {
-      res.status(400).json({ error: error.message });
+router.put(
+  "/:id",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate request data using Zod
+      const parsedData = PlanSchemaZod.partial().parse(req.body); // Allow partial updates
+
+      const existingPlan = await Plan.findById(req.params.id);
+      if (!existingPlan) {
+        return res.status(404).json({ error: "Plan not found" });
+      }
+      if (
+        !canManageExpert(req.user, existingPlan.expertId) ||
+        (parsedData.expertId && !canManageExpert(req.user, parsedData.expertId))
+      ) {
+        return forbidden(res);
+      }
+
+      const plan = await Plan.findByIdAndUpdate(req.params.id, parsedData, {
+        new: true,
+      });
+      if (parsedData.duration !== undefined) {
+        await syncPlanSlotEnds(plan._id, plan.duration);
+      }
+      res.status(200).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ errors: error.errors });
+      } else {
+        res.status(400).json({ error: error.message });
+      }
     }
   }
-});
+);
 
 /**
  * @route DELETE /:id
  * @description Delete a plan by ID
- * @access Public
+ * @access Admin, or the expert the plan belongs to
  * @param {Request} req - Express request object containing plan ID in req.params
  * @param {Response} res - Express response object
  * @returns {void} No content or error message
  */
 
-router.delete("/:id", async (req: Request, res: Response) => {
-  try {
-    const plan = await Plan.findByIdAndDelete(req.params.id);
-    if (!plan) {
-      return res.status(404).json({ error: "Plan not found" });
+router.delete(
+  "/:id",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const plan = await Plan.findById(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ error: "Plan not found" });
+      }
+      if (!canManageExpert(req.user, plan.expertId)) {
+        return forbidden(res);
+      }
+
+      await Plan.findByIdAndDelete(plan._id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: error.message });
     }
-    res.status(204).send();
-  } catch (error) {
-    res.status(500).json({ error: error.message });
   }
-});
+);
 
 export default router;
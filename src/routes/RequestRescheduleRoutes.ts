@@ -2,6 +2,7 @@ import express, { Request, Response } from "express";
 import { ReschedulingRequestSchemaZod } from "../schemas/RequestRescheduleSchema";
 import { ReschedulingRequest } from "../models/RequestRescheduleModel";
 import { z } from "zod";
+import { findBookingByReferenceOrId } from "../services/BookingService";
 
 const router = express.Router();
 
@@ -9,11 +10,13 @@ const router = express.Router();
  * @route POST /reschedule
  * @group Rescheduling - Operations related to rescheduling requests
  * @param {object} req.body - The request body containing rescheduling request data
- * @param {string} req.body.CurrentBookingId - The ID of the current booking (must be a valid ObjectId)
+ * @param {string} [req.body.CurrentBookingId] - The ID of the current booking (must be a valid ObjectId)
+ * @param {string} [req.body.BookingReference] - The reference of the current booking (e.g. "TM-7K3QX"), instead of its ID
  * @param {string} req.body.RequestedDateId - The ID of the requested new date (must be a valid ObjectId)
  * @param {string} req.body.RequestedSlotId - The ID of the requested new slot (must be a valid ObjectId)
  * @returns {object} 201 - Rescheduling request created successfully
  * @returns {object} 400 - Bad request, rescheduling request already exists or validation errors
+ * @returns {object} 404 - Booking not found
  * @returns {object} 500 - Internal server error
  * @example
  * Request body example
@@ -29,9 +32,17 @@ router.post("/reschedule", async (req: Request, res: Response) => {
     // Validate request body with Zod schema
     const validatedData = ReschedulingRequestSchemaZod.parse(req.body);
 
+    const booking = await findBookingByReferenceOrId({
+      reference: validatedData.BookingReference,
+      bookingId: validatedData.CurrentBookingId,
+    });
+    if (!booking) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
     // Check if the rescheduling request already exists
     const reschedulingRequestExists = await ReschedulingRequest.findOne({
-      CurrentBookingId: validatedData.CurrentBookingId,
+      CurrentBookingId: booking._id,
       RequestedDateId: validatedData.RequestedDateId,
       RequestedSlotId: validatedData.RequestedSlotId,
     });
@@ -42,7 +53,7 @@ router.post("/reschedule", async (req: Request, res: Response) => {
     }
     // Create a new rescheduling request
     const newReschedulingRequest = new ReschedulingRequest({
-      CurrentBookingId: validatedData.CurrentBookingId,
+      CurrentBookingId: booking._id,
       RequestedDateId: validatedData.RequestedDateId,
       RequestedSlotId: validatedData.RequestedSlotId,
       // ExpertId: validatedData.expertId,
@@ -2,6 +2,12 @@ import express, { Request, Response } from "express";
 import { ReschedulingOptions } from "../models/ReschedulingOptionsModel";
 import { ReschedulingOptionsSchemaZod } from "../schemas/ReschedulingOptionsSchema"; // Import Zod validation schema
 import { z } from "zod";
+import { BookingSchema } from "../models/BookingModel";
+import {
+  canManageExpert,
+  forbidden,
+  requireExpertOrAdmin,
+} from "../middleware/auth";
 
 const router = express.Router();
 
@@ -15,6 +21,8 @@ const router = express.Router();
  * @param {string} req.body.availableSlots[].slotId - The ID of the available slot.
  * @returns {Object} 201 - Successfully created rescheduling options
  * @returns {Object} 400 - Validation errors
+ * @returns {Object} 403 - Not the admin or the booking's expert
+ * @returns {Object} 404 - Booking not found
  * @returns {Object} 500 - Internal server error
  * @example
  * Example request
@@ -37,32 +45,47 @@ const router = express.Router();
  *   ]
  * }
  */
-router.post("/reschedule-options", async (req: Request, res: Response) => {
-  try {
-    // Validate the request body using Zod schema
-    const validatedData = ReschedulingOptionsSchemaZod.parse(req.body);
+router.post(
+  "/reschedule-options",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate the request body using Zod schema
+      const validatedData = ReschedulingOptionsSchemaZod.parse(req.body);
 
-    // Create a new rescheduling options entry
-    const newReschedulingOptions = new ReschedulingOptions({
-      currentBookingId: validatedData.CurrentBookingId,
-      availableSlots: validatedData.availableSlots,
-      expiryDate: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24-hour expiry
-    });
-    await newReschedulingOptions.save();
+      // Only the booking's expert (or an admin) may offer new slots
+      const booking = await BookingSchema.findById(
+        validatedData.CurrentBookingId
+      );
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (!canManageExpert(req.user, booking.expertId)) {
+        return forbidden(res);
+      }
 
-    // Send response with the new rescheduling options
-    res.status(201).json({
-      message: "Rescheduling options created successfully",
-      currentBookingId: newReschedulingOptions.CurrentBookingId,
-      availableSlots: newReschedulingOptions.availableSlots,
-      expiryDate: newReschedulingOptions.expiryDate,
-    });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({ errors: error.errors });
+      // Create a new rescheduling options entry
+      const newReschedulingOptions = new ReschedulingOptions({
+        currentBookingId: validatedData.CurrentBookingId,
+        availableSlots: validatedData.availableSlots,
+        expiryDate: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24-hour expiry
+      });
+      await newReschedulingOptions.save();
+
+      // Send response with the new rescheduling options
+      res.status(201).json({
+        message: "Rescheduling options created successfully",
+        currentBookingId: newReschedulingOptions.CurrentBookingId,
+        availableSlots: newReschedulingOptions.availableSlots,
+        expiryDate: newReschedulingOptions.expiryDate,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
     }
-    return res.status(500).json({ message: "Internal server error", error });
   }
-});
+);
 
 export default router;
@@ -0,0 +1,263 @@
+/**
+ * @module ReviewRoutes
+ * @description Guest ratings and reviews of experts, their moderation and expert replies.
+ */
+
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { z } from "zod";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+import { Review, ReviewStatus } from "../models/ReviewModel";
+import {
+  PublicReviewQuerySchemaZod,
+  ReviewQuerySchemaZod,
+  ReviewRejectionSchemaZod,
+  ReviewReplySchemaZod,
+  ReviewSubmissionSchemaZod,
+} from "../schemas/ReviewSchema";
+import {
+  canManageExpert,
+  forbidden,
+  requireAdmin,
+  requireExpertOrAdmin,
+} from "../middleware/auth";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { byBodyField, byIp, rateLimit } from "../middleware/rateLimit";
+import {
+  moderateReview,
+  replyToReview,
+  ReviewError,
+  submitReview,
+} from "../services/ReviewService";
+
+const router = express.Router();
+
+// Guessing booking references and emails should be slow
+const reviewRateLimit = rateLimit({
+  route: "review-submit",
+  windowMs: 60 * 60 * 1000,
+  buckets: [byIp(20), byBodyField("guestEmail", 10)],
+});
+
+// What the public sees of a review
+const PUBLIC_REVIEW_FIELDS = "guestName rating comment reply createdAt";
+
+/**
+ * @route POST /reviews
+ * @group Reviews - Guest ratings and reviews of experts
+ * @param {Object} req.body - The booking `reference`, the `guestEmail` it was made with, a `rating` from 1 to 5 and an optional `comment`
+ * @returns {Object} 201 - The review's `id` and `status` ("pending"); it is public once an admin approves it
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 404 - No booking with that reference and email
+ * @returns {Object} 409 - The booking is not completed, or was already reviewed
+ * @returns {Object} 429 - Too many requests
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/reviews",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  reviewRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const review = await submitReview(
+        ReviewSubmissionSchemaZod.parse(req.body)
+      );
+      res.status(201).json({ id: review._id, status: review.status });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route GET /expert/{id}/reviews
+ * @group Reviews - Guest ratings and reviews of experts
+ * @param {string} id.path.required - The ID of the expert
+ * @param {number} [page=1] - Page number
+ * @param {number} [limit=10] - Reviews per page (at most 50)
+ * @returns {Object} 200 - The expert's approved reviews with any replies, newest first
+ * @returns {Object} 400 - Invalid query
+ * @returns {Object} 500 - Internal server error
+ */
+router.get(
+  "/expert/:id/reviews",
+  requireApiKeyScope(ApiKeyScope.CALENDAR_READ),
+  async (req: Request, res: Response) => {
+    try {
+      const { page, limit } = PublicReviewQuerySchemaZod.parse(req.query);
+      const id = String(req.params.id);
+      if (!mongoose.isValidObjectId(id)) {
+        return res.status(200).json({ total: 0, page, limit, reviews: [] });
+      }
+
+      const filter = { expertId: id, status: ReviewStatus.APPROVED };
+      const reviews = await Review.find(filter, PUBLIC_REVIEW_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit);
+      const total = await Review.countDocuments(filter);
+
+      res.status(200).json({ total, page, limit, reviews });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /reviews/{id}/reply
+ * @group Reviews - Guest ratings and reviews of experts
+ * @access Admin, or the expert reviewed
+ * @param {string} id.path.required - The ID of the review
+ * @param {Object} req.body - `text`; replaces any earlier reply
+ * @returns {Object} 200 - The review with its reply
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 403 - Not the expert reviewed
+ * @returns {Object} 404 - Review not found
+ * @returns {Object} 409 - The review was rejected
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/reviews/:id/reply",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { text } = ReviewReplySchemaZod.parse(req.body);
+      const id = String(req.params.id);
+      const review =
+        mongoose.isValidObjectId(id) && (await Review.findById(id));
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      if (!canManageExpert(req.user, review.expertId)) {
+        return forbidden(res);
+      }
+
+      res.status(200).json(await replyToReview(review, text, req.user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route GET /admin/reviews
+ * @group Reviews - Guest ratings and reviews of experts
+ * @access Admin
+ * @param {string} [status=pending] - "pending", "approved" or "rejected"
+ * @param {string} [expertId] - Only reviews of this expert
+ * @param {number} [page=1] - Page number
+ * @param {number} [limit=20] - Reviews per page (at most 100)
+ * @returns {Object} 200 - Paginated reviews, oldest first so the moderation queue is worked in order
+ * @returns {Object} 400 - Invalid filters
+ * @returns {Object} 500 - Internal server error
+ */
+router.get(
+  "/admin/reviews",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { page, limit, ...filters } = ReviewQuerySchemaZod.parse(req.query);
+
+      const reviews = await Review.find(filters)
+        .sort({ createdAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit);
+      const total = await Review.countDocuments(filters);
+
+      res.status(200).json({ total, page, limit, reviews });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /admin/reviews/{id}/approve
+ * @group Reviews - Guest ratings and reviews of experts
+ * @access Admin
+ * @param {string} id.path.required - The ID of the review
+ * @returns {Object} 200 - The approved review, now public and counted in the expert's rating
+ * @returns {Object} 404 - Review not found
+ * @returns {Object} 409 - Already approved
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/admin/reviews/:id/approve",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      if (!mongoose.isValidObjectId(id)) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      const review = await moderateReview(id, { approve: true }, req.user.id);
+      res.status(200).json(review);
+    } catch (error) {
+      if (error instanceof ReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /admin/reviews/{id}/reject
+ * @group Reviews - Guest ratings and reviews of experts
+ * @access Admin
+ * @param {string} id.path.required - The ID of the review
+ * @param {Object} req.body - `reason`
+ * @returns {Object} 200 - The rejected review, hidden and no longer counted in the expert's rating
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 404 - Review not found
+ * @returns {Object} 409 - Already rejected
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/admin/reviews/:id/reject",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const id = String(req.params.id);
+      const { reason } = ReviewRejectionSchemaZod.parse(req.body);
+      if (!mongoose.isValidObjectId(id)) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      const review = await moderateReview(
+        id,
+        { approve: false, reason },
+        req.user.id
+      );
+      res.status(200).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,64 @@
+import { Request, Response } from "express";
+import { RefreshTokenSchemaZod } from "../schemas/AdminSchema";
+import {
+  findSessionIdByRefreshToken,
+  revokeSession,
+  rotateRefreshToken,
+  TokenError,
+} from "../services/TokenService";
+
+/**
+ * @module SessionHandlers
+ * @description Refresh and logout handlers shared by the admin, expert and guest routers.
+ * Sessions are role-agnostic, so the same handlers serve all three.
+ */
+
+/**
+ * Exchanges a refresh token for a new token pair (the refresh token is rotated).
+ * @param {Request} req - Express request object, with `refreshToken` in the body
+ * @param {Response} res - Express response object, returns the new token pair
+ */
+export const refreshSession = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = RefreshTokenSchemaZod.parse(req.body);
+
+    const tokens = await rotateRefreshToken(refreshToken);
+
+    res.status(200).json({
+      message: "Token refreshed successfully",
+      ...tokens,
+    });
+  } catch (error) {
+    if (error instanceof TokenError) {
+      return res.status(401).json({ message: error.message });
+    }
+    if (error instanceof Error) {
+      return res.status(400).json({ message: error.message });
+    }
+    return res.status(500).json({ message: "Internal Server Error" });
+  }
+};
+
+/**
+ * Revokes the session the refresh token belongs to.
+ * @param {Request} req - Express request object, with `refreshToken` in the body
+ * @param {Response} res - Express response object
+ */
+export const logoutSession = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = RefreshTokenSchemaZod.parse(req.body);
+
+    const sessionId = await findSessionIdByRefreshToken(refreshToken);
+    if (!sessionId) {
+      return res.status(401).json({ message: "Invalid refresh token" });
+    }
+    await revokeSession(sessionId, "logout");
+
+    res.status(200).json({ message: "Logout successful" });
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ message: error.message });
+    }
+    return res.status(500).json({ message: "Internal Server Error" });
+  }
+};
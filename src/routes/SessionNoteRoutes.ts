@@ -0,0 +1,106 @@
+/**
+ * @module SessionNoteRoutes
+ * @description An expert's private notes and guest-facing summary of a booking's session.
+ */
+
+import express, { Request, Response } from "express";
+import mongoose from "mongoose";
+import { z } from "zod";
+import { BookingSchema } from "../models/BookingModel";
+import { SessionNote } from "../models/SessionNoteModel";
+import { SessionNoteSchemaZod } from "../schemas/SessionNoteSchema";
+import {
+  canManageExpert,
+  forbidden,
+  requireExpertOrAdmin,
+} from "../middleware/auth";
+import {
+  saveSessionNote,
+  SessionNoteError,
+} from "../services/SessionNoteService";
+
+const router = express.Router();
+
+/**
+ * @route GET /booking/{id}/notes
+ * @description Get a booking's session notes, including the private notes and every earlier version
+ * @access Admin, or the expert assigned to the booking
+ * @param {string} id.path.required - The ID of the booking
+ * @returns {Object} 200 - The notes, with `history` oldest first
+ * @returns {Object} 403 - Not allowed to manage this booking
+ * @returns {Object} 404 - Booking not found, or no notes yet
+ */
+router.get(
+  "/booking/:id/notes",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const booking = await BookingSchema.findById(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (!canManageExpert(req.user, booking.expertId)) {
+        return forbidden(res);
+      }
+
+      const note = await SessionNote.findOne({ bookingId: booking._id });
+      if (!note) {
+        return res.status(404).json({ message: "No notes yet" });
+      }
+      res.status(200).json(note);
+    } catch (error) {
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route PUT /booking/{id}/notes
+ * @description Edit a booking's session notes. Fields left out keep their current value, and every
+ * edit is kept in the notes' history. The summary, action items and attachments are published to the
+ * guest when the booking is completed (straight away if it already is); private notes never are.
+ * @access Admin, or the expert assigned to the booking
+ * @param {string} id.path.required - The ID of the booking
+ * @param {Object} req.body - `privateNotes`, `summary`, `actionItems` and `attachments` (IDs from POST /media/session-attachment)
+ * @returns {Object} 200 - The updated notes
+ * @returns {Object} 400 - Validation errors, or unusable attachments
+ * @returns {Object} 403 - Not allowed to manage this booking
+ * @returns {Object} 404 - Booking not found
+ * @returns {Object} 409 - The booking has not been confirmed, or was cancelled
+ */
+router.put(
+  "/booking/:id/notes",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const changes = SessionNoteSchemaZod.parse(req.body);
+
+      if (!mongoose.isValidObjectId(req.params.id)) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      const booking = await BookingSchema.findById(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      if (!canManageExpert(req.user, booking.expertId)) {
+        return forbidden(res);
+      }
+
+      const note = await saveSessionNote(booking, changes, req.user);
+      res.status(200).json(note);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof SessionNoteError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+export default router;
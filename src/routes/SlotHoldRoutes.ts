@@ -0,0 +1,81 @@
+import express, { Request, Response } from "express";
+import { z } from "zod";
+import { SlotHoldSchemaZod } from "../schemas/BookingSchema";
+import { ReservationError } from "../services/BookingService";
+import { holdSlot, releaseHold } from "../services/SlotHoldService";
+import { byIp, rateLimit } from "../middleware/rateLimit";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+
+const router = express.Router();
+
+// Stop one client from holding every slot of a calendar
+const holdRateLimit = rateLimit({
+  route: "slot-hold",
+  windowMs: 15 * 60 * 1000,
+  buckets: [byIp(20)],
+});
+
+/**
+ * @route POST /slot-holds
+ * @group Booking - Operations about booking appointments
+ * @param {Object} req.body - `slotId` and `dateId` of the slot to hold
+ * @returns {Object} 201 - `holdToken` (send it with /book-appointment) and `expiresAt`
+ * @returns {Object} 400 - Validation errors, or the slot is not on that date
+ * @returns {Object} 404 - Slot or date not found
+ * @returns {Object} 409 - Slot already booked or held by someone else
+ * @returns {Object} 429 - Too many holds from this IP
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/slot-holds",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  holdRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { slotId, dateId } = SlotHoldSchemaZod.parse(req.body);
+      const hold = await holdSlot(slotId, dateId);
+      res.status(201).json(hold);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ReservationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route DELETE /slot-holds
+ * @group Booking - Operations about booking appointments
+ * @param {Object} req.body - `holdToken` of the hold to give up
+ * @returns {Object} 200 - Hold released
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 404 - No such hold (it may have expired)
+ * @returns {Object} 500 - Internal server error
+ */
+router.delete(
+  "/slot-holds",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  async (req: Request, res: Response) => {
+    try {
+      const { holdToken } = z
+        .object({ holdToken: z.string().min(1, "Hold token is required") })
+        .parse(req.body);
+      if (!(await releaseHold(holdToken))) {
+        return res.status(404).json({ message: "Hold not found" });
+      }
+      res.status(200).json({ message: "Hold released" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+export default router;
@@ -1,11 +1,29 @@
 import { Request, Response } from "express";
-import { Slot } from "../models/SlotModel";
+import {
+  Slot,
+  SLOT_AVAILABLE_PATTERN,
+  SlotAvailability,
+} from "../models/SlotModel";
+import { Plan } from "../models/PlanModel";
+import { BookingSchema, Status } from "../models/BookingModel";
 import { SlotSchemaZod } from "../schemas/SlotSchema"; // Import the Zod schema
 import { z } from "zod";
 import express from "express";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+import {
+  canManageExpert,
+  forbidden,
+  requireExpertOrAdmin,
+} from "../middleware/auth";
+import { notifyWaitlist } from "../services/WaitlistService";
+import { syncSlotTimes } from "../services/ScheduleService";
+import { getExpertSlots } from "../services/ExpertCalendarService";
 
 const router = express.Router();
 
+const calendarRead = requireApiKeyScope(ApiKeyScope.CALENDAR_READ);
+
 /**
  * @module SlotRouter
  * @description Express router for handling slot-related operations.
@@ -18,26 +36,39 @@ const router = express.Router();
  * @returns {Slot} 201 - Created slot object
  * @returns {Error} 400 - Validation error
  * @returns {Error} 500 - Internal server error
- * @description Create a new slot.
+ * @description Create a new slot. Restricted to admins and the slot's expert.
+ * Without a `capacity`, the slot gets as many seats as its plan's `seatCapacity`.
  */
 
-router.post("/slot/create", async (req: Request, res: Response) => {
-  try {
-    // Validate the request body using Zod
-    const parsedData = SlotSchemaZod.parse(req.body);
+router.post(
+  "/slot/create",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate the request body using Zod
+      const parsedData = SlotSchemaZod.parse(req.body);
+      if (!canManageExpert(req.user, parsedData.expertId)) {
+        return forbidden(res);
+      }
 
-    const slot = new Slot(parsedData);
-    await slot.save();
-    res.status(201).json(slot);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      // Return Zod validation errors
-      res.status(400).json({ errors: error.errors });
-    } else {
-      res.status(400).json({ error: error.message });
+      if (parsedData.capacity === undefined) {
+        const plan = await Plan.findById(parsedData.planId);
+        parsedData.capacity = plan?.seatCapacity ?? 1;
+      }
+
+      const slot = new Slot(parsedData);
+      await slot.save();
+      res.status(201).json(await syncSlotTimes(slot));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        // Return Zod validation errors
+        res.status(400).json({ errors: error.errors });
+      } else {
+        res.status(400).json({ error: error.message });
+      }
     }
   }
-});
+);
 
 /**
  * @route GET /slots
@@ -47,7 +78,7 @@ router.post("/slot/create", async (req: Request, res: Response) => {
  * @description Retrieve all slots.
  */
 
-router.get("/slots", async (req: Request, res: Response) => {
+router.get("/slots", calendarRead, async (req: Request, res: Response) => {
   try {
     const slots = await Slot.find();
     res.status(200).json(slots);
@@ -66,18 +97,22 @@ router.get("/slots", async (req: Request, res: Response) => {
  * @description Get a slot by expert ID.
  */
 
-router.get("/slot/:expert_Id", async (req: Request, res: Response) => {
-  try {
-    console.log(req.params.expert_Id);
-    const slot = await Slot.find({ expertId: req.params.expert_Id });
-    if (!slot) {
-      return res.status(404).json({ error: "Slot not found" });
+router.get(
+  "/slot/:expert_Id",
+  calendarRead,
+  async (req: Request, res: Response) => {
+    try {
+      console.log(req.params.expert_Id);
+      const slot = await getExpertSlots(req.params.expert_Id);
+      if (!slot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+      res.status(200).json(slot);
+    } catch (error) {
+      res.status(500).json({ error: error.message });
     }
-    res.status(200).json(slot);
-  } catch (error) {
-    res.status(500).json({ error: error.message });
   }
-});
+);
 
 /**
  * @route PUT /slot/{id}
@@ -88,30 +123,108 @@ router.get("/slot/:expert_Id", async (req: Request, res: Response) => {
  * @returns {Error} 400 - Validation error
  * @returns {Error} 404 - Slot not found
  * @returns {Error} 500 - Internal server error
- * @description Update a slot by ID.
+ * @description Update a slot by ID. Restricted to admins and the slot's expert.
+ * The capacity cannot go below the seats already booked; changing it reopens or closes
+ * the slot as seats become free or run out.
  */
 
-router.put("/slot:id", async (req: Request, res: Response) => {
-  try {
-    // Validate the request body using Zod
-    const parsedData = SlotSchemaZod.partial().parse(req.body); // Allow partial updates
-
-    const slot = await Slot.findByIdAndUpdate(req.params.id, parsedData, {
-      new: true,
-    });
-    if (!slot) {
-      return res.status(404).json({ error: "Slot not found" });
+router.put(
+  "/slot/:id", // not "/slot:id", which planRoutes' "/:id" (mounted first) already answers
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      // Validate the request body using Zod
+      const parsedData = SlotSchemaZod.partial().parse(req.body); // Allow partial updates
+
+      const existingSlot = await Slot.findById(req.params.id);
+      if (!existingSlot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+      if (
+        !canManageExpert(req.user, existingSlot.expertId) ||
+        (parsedData.expertId && !canManageExpert(req.user, parsedData.expertId))
+      ) {
+        return forbidden(res);
+      }
+
+      if (parsedData.capacity !== undefined) {
+        if (parsedData.capacity < existingSlot.bookedSeats) {
+          return res.status(400).json({
+            error: `Capacity cannot be below the ${existingSlot.bookedSeats} seats already booked`,
+          });
+        }
+        if (parsedData.availability === undefined) {
+          const full = parsedData.capacity === existingSlot.bookedSeats;
+          if (full && SLOT_AVAILABLE_PATTERN.test(existingSlot.availability)) {
+            parsedData.availability = SlotAvailability.BOOKED;
+          } else if (
+            !full &&
+            existingSlot.availability === SlotAvailability.BOOKED
+          ) {
+            parsedData.availability = SlotAvailability.AVAILABLE;
+          }
+        }
+      }
+
+      const updated = await Slot.findByIdAndUpdate(req.params.id, parsedData, {
+        new: true,
+      });
+      const slot = updated && (await syncSlotTimes(updated));
+      if (slot) {
+        notifyWaitlist([slot._id]); // in case it was made available again
+      }
+      res.status(200).json(slot);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        // Return Zod validation errors
+        res.status(400).json({ errors: error.errors });
+      } else {
+        res.status(400).json({ error: error.message });
+      }
     }
-    res.status(200).json(slot);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      // Return Zod validation errors
-      res.status(400).json({ errors: error.errors });
-    } else {
-      res.status(400).json({ error: error.message });
+  }
+);
+
+/**
+ * @route GET /slot/{id}/roster
+ * @group Slots - Operations about slots
+ * @param {string} id.path.required - The ID of the slot
+ * @returns {object} 200 - The slot's seats and its attendees (bookings that are not cancelled)
+ * @returns {Error} 404 - Slot not found
+ * @returns {Error} 500 - Internal server error
+ * @description List who is attending a (group) slot. Restricted to admins and the slot's expert.
+ */
+
+router.get(
+  "/slot/:id/roster",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const slot = await Slot.findById(req.params.id);
+      if (!slot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+      if (!canManageExpert(req.user, slot.expertId)) {
+        return forbidden(res);
+      }
+
+      const attendees = await BookingSchema.find(
+        { slotId: slot._id, status: { $ne: Status.CANCELLED } },
+        "reference guestName guestEmail guestPhone status dateId createdAt"
+      ).sort({ createdAt: 1 });
+
+      res.status(200).json({
+        slotId: slot._id,
+        timing: slot.timing,
+        capacity: slot.capacity,
+        bookedSeats: slot.bookedSeats,
+        attendees,
+      });
+    } catch (error) {
+      res.status(500).json({ error: error.message });
     }
   }
-});
+);
 
 /**
  * @route DELETE /slot/{id}
@@ -120,19 +233,28 @@ router.put("/slot:id", async (req: Request, res: Response) => {
  * @returns {204} 204 - No content
  * @returns {Error} 404 - Slot not found
  * @returns {Error} 500 - Internal server error
- * @description Delete a slot by ID.
+ * @description Delete a slot by ID. Restricted to admins and the slot's expert.
  */
 
-router.delete("/slot:id", async (req: Request, res: Response) => {
-  try {
-    const slot = await Slot.findByIdAndDelete(req.params.id);
-    if (!slot) {
-      return res.status(404).json({ error: "Slot not found" });
+router.delete(
+  "/slot/:id",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const slot = await Slot.findById(req.params.id);
+      if (!slot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+      if (!canManageExpert(req.user, slot.expertId)) {
+        return forbidden(res);
+      }
+
+      await Slot.findByIdAndDelete(slot._id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: error.message });
     }
-    res.status(204).send();
-  } catch (error) {
-    res.status(500).json({ error: error.message });
   }
-});
+);
 
 export default router;
@@ -0,0 +1,245 @@
+import express, { Request, Response } from "express";
+import { z } from "zod";
+import { Plan } from "../models/PlanModel";
+import { SlotHold } from "../models/SlotHoldModel";
+import { WaitlistEntry, WaitlistStatus } from "../models/WaitlistEntryModel";
+import {
+  LeaveWaitlistSchemaZod,
+  WaitlistQuerySchemaZod,
+  WaitlistSchemaZod,
+} from "../schemas/WaitlistSchema";
+import {
+  canManageExpert,
+  forbidden,
+  requireExpertOrAdmin,
+  Role,
+} from "../middleware/auth";
+import { byBodyField, byIp, rateLimit } from "../middleware/rateLimit";
+import { requireApiKeyScope } from "../middleware/apiKey";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+import { getExpertDayStart } from "../services/ScheduleService";
+import { hashToken } from "../services/TokenService";
+import { notifyWaitlist } from "../services/WaitlistService";
+
+const router = express.Router();
+
+const joinRateLimit = rateLimit({
+  route: "waitlist-join",
+  windowMs: 60 * 60 * 1000,
+  buckets: [byIp(10), byBodyField("guestEmail", 5)],
+});
+
+/**
+ * @route POST /waitlist
+ * @group Waitlist - Guests waiting for a fully booked expert
+ * @param {Object} req.body - Expert, plan, guest details and an optional `fromDate`/`toDate` range ("DD/MM/YYYY")
+ * @returns {Object} 201 - The waitlist entry; the guest is mailed when a slot is offered
+ * @returns {Object} 400 - Validation errors, or the plan is not the expert's
+ * @returns {Object} 404 - Plan not found
+ * @returns {Object} 409 - The guest is already waiting for this plan
+ * @returns {Object} 429 - Too many requests
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/waitlist",
+  requireApiKeyScope(ApiKeyScope.BOOKINGS_CREATE),
+  joinRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { fromDate, toDate, ...data } = WaitlistSchemaZod.parse(req.body);
+
+      const plan = await Plan.findById(data.planId);
+      if (!plan) {
+        return res.status(404).json({ message: "Plan not found" });
+      }
+      if (String(plan.expertId) !== data.expertId) {
+        return res
+          .status(400)
+          .json({ message: "Plan does not belong to this expert" });
+      }
+
+      // Days start at midnight in the expert's time zone, like the dates on their calendar
+      const from = fromDate
+        ? await getExpertDayStart(fromDate, data.expertId)
+        : undefined;
+      const to = toDate
+        ? await getExpertDayStart(toDate, data.expertId)
+        : undefined;
+      if (from === null || to === null) {
+        return res.status(400).json({ message: "Invalid fromDate or toDate" });
+      }
+      if (from && to && from > to) {
+        return res
+          .status(400)
+          .json({ message: "fromDate must not be after toDate" });
+      }
+
+      const alreadyWaiting = await WaitlistEntry.exists({
+        planId: data.planId,
+        guestEmail: data.guestEmail,
+        status: { $in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+      });
+      if (alreadyWaiting) {
+        return res
+          .status(409)
+          .json({ message: "You are already on the waitlist for this plan" });
+      }
+
+      const entry = await WaitlistEntry.create({
+        ...data,
+        fromDate: from,
+        toDate: to,
+      });
+
+      res.status(201).json({
+        message: "Added to the waitlist",
+        id: entry._id,
+        status: entry.status,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route POST /waitlist/:id/leave
+ * @group Waitlist - Guests waiting for a fully booked expert
+ * @param {string} id.path.required - The waitlist entry ID
+ * @param {Object} req.body - The `guestEmail` the guest joined with
+ * @returns {Object} 200 - Left the waitlist; a pending offer is passed on to the next guest
+ * @returns {Object} 400 - Validation errors
+ * @returns {Object} 404 - No active entry with that ID and email
+ * @returns {Object} 500 - Internal server error
+ */
+router.post(
+  "/waitlist/:id/leave",
+  joinRateLimit,
+  async (req: Request, res: Response) => {
+    try {
+      const { guestEmail } = LeaveWaitlistSchemaZod.parse(req.body);
+
+      const entry = await WaitlistEntry.findOneAndUpdate(
+        {
+          _id: req.params.id,
+          guestEmail,
+          status: { $in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+        },
+        { status: WaitlistStatus.LEFT }
+      );
+      if (!entry) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+
+      // Pass a pending offer on rather than letting it run out
+      if (entry.status === WaitlistStatus.OFFERED && entry.offer) {
+        await SlotHold.deleteOne({ tokenHash: entry.offer.tokenHash });
+        notifyWaitlist([entry.offer.slotId]);
+      }
+
+      res.status(200).json({ message: "Removed from the waitlist" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      return res.status(500).json({ message: "Internal server error", error });
+    }
+  }
+);
+
+/**
+ * @route GET /waitlist/offers/:token
+ * @group Waitlist - Guests waiting for a fully booked expert
+ * @param {string} token.path.required - The token from the claim link; book with it as `holdToken`
+ * @returns {Object} 200 - The offered slot with its expert, plan and date, and when the offer expires
+ * @returns {Object} 404 - No such offer, or it has expired or been claimed
+ * @returns {Object} 500 - Internal server error
+ */
+router.get("/waitlist/offers/:token", async (req: Request, res: Response) => {
+  try {
+    const entry = await WaitlistEntry.findOne({
+      "offer.tokenHash": hashToken(String(req.params.token)),
+      "offer.expiresAt": { $gt: new Date() },
+      status: WaitlistStatus.OFFERED,
+    })
+      .populate("expertId", "fullname designation avatar")
+      .populate("planId", "name channel duration price bookingType")
+      .populate("offer.dateId", "date")
+      .populate("offer.slotId", "timing period startsAt endsAt");
+    if (!entry || !entry.offer) {
+      return res.status(404).json({ message: "Offer not found or expired" });
+    }
+
+    res.status(200).json({
+      guestName: entry.guestName,
+      guestEmail: entry.guestEmail,
+      expiresAt: entry.offer.expiresAt,
+      expert: entry.expertId,
+      plan: entry.planId,
+      date: entry.offer.dateId,
+      slot: entry.offer.slotId,
+    });
+  } catch (error) {
+    return res.status(500).json({ message: "Internal server error", error });
+  }
+});
+
+/**
+ * @route GET /waitlist
+ * @group Waitlist - Guests waiting for a fully booked expert
+ * @access Admin, or an expert for their own waitlist
+ * @param {string} [expertId.query] - Filter by expert
+ * @param {string} [planId.query] - Filter by plan
+ * @param {string} [status.query] - Filter by status
+ * @param {number} [page.query] - Page number (default 1)
+ * @param {number} [limit.query] - Entries per page (default 20, max 100)
+ * @returns {Object} 200 - Paginated entries, oldest (first in line) first
+ * @returns {Object} 400 - Invalid filters
+ * @returns {Object} 403 - An expert asking for another expert's waitlist
+ * @returns {Object} 500 - Internal server error
+ */
+router.get(
+  "/waitlist",
+  requireExpertOrAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const { page, limit, ...filters } = WaitlistQuerySchemaZod.parse(
+        req.query
+      );
+
+      // Experts only see their own waitlist
+      if (req.user.role === Role.EXPERT) {
+        if (filters.expertId && !canManageExpert(req.user, filters.expertId)) {
+          return forbidden(res);
+        }
+        filters.expertId = req.user.id;
+      }
+
+      const entries = await WaitlistEntry.find(filters)
+        .populate("planId", "name")
+        .sort({ createdAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit);
+      const total = await WaitlistEntry.countDocuments(filters);
+
+      res.status(200).json({
+        error: false,
+        total,
+        page,
+        limit,
+        entries,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error(error);
+      res.status(500).json({ error: true, message: "Internal Server Error" });
+    }
+  }
+);
+
+export default router;
@@ -10,3 +10,46 @@ export const LoginSchemaZod = z.object({
   email: z.string().email("Invalid email address"),
   password: z.string().min(6, "Password must be at least 6 characters long"),
 });
+
+export const RefreshTokenSchemaZod = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const ChangePasswordSchemaZod = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters long"),
+});
+
+export const ForgotPasswordSchemaZod = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const ResetPasswordSchemaZod = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters long"),
+});
+
+export const MfaLoginSchemaZod = z
+  .object({
+    mfaToken: z.string().min(1, "MFA token is required"),
+    code: z.string().optional(),
+    recoveryCode: z.string().optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: "Either a code or a recovery code is required",
+    path: ["code"],
+  });
+
+export const TwoFactorCodeSchemaZod = z.object({
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+  mfaToken: z.string().optional(),
+});
+
+export const DisableTwoFactorSchemaZod = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+});
+
+export const TwoFactorPolicySchemaZod = z.object({
+  required: z.boolean(),
+});
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { ApiKeyScope } from "../models/ApiKeyModel";
+
+/**
+ * @constant ApiKeySchemaZod
+ * @description Zod schema for creating a partner API key.
+ * @property {string} name - Label of the key, at least 3 characters.
+ * @property {ApiKeyScope[]} scopes - At least one scope.
+ * @property {string} [expertId] - Required with the "expert:manage" scope; the expert the key manages.
+ * @property {number} [rateLimitPerMinute] - Requests per minute (1-10000, default 60).
+ */
+export const ApiKeySchemaZod = z
+  .object({
+    name: z.string().min(3, "Name must be at least 3 characters"),
+    scopes: z
+      .array(z.nativeEnum(ApiKeyScope))
+      .min(1, "At least one scope is required"),
+    expertId: z.string().length(24, "Invalid Expert ID format").optional(),
+    rateLimitPerMinute: z.number().int().min(1).max(10000).optional(),
+  })
+  .refine(
+    (data) =>
+      !data.scopes.includes(ApiKeyScope.EXPERT_MANAGE) || !!data.expertId,
+    {
+      message: "expertId is required for the expert:manage scope",
+      path: ["expertId"],
+    }
+  );
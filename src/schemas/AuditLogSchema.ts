@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+/**
+ * @constant AuditLogQuerySchemaZod
+ * @description Zod schema for the audit log search query string.
+ * @property {string} [targetModel] - Only entries for this model (e.g. "Plan", "Booking").
+ * @property {string} [targetId] - Only entries for this document.
+ * @property {string} [actorId] - Only entries made by this admin or expert.
+ * @property {string} [actorRole] - Only entries made by this role.
+ * @property {("create" | "update" | "delete")} [action] - Only entries of this kind.
+ * @property {Date} [from] - Only entries created at or after this instant.
+ * @property {Date} [to] - Only entries created at or before this instant.
+ * @property {number} [page=1] - Page number (1-based).
+ * @property {number} [limit=20] - Entries per page (at most 100).
+ */
+export const AuditLogQuerySchemaZod = z.object({
+  targetModel: z.string().optional(),
+  targetId: z.string().length(24, "Invalid target ID format").optional(),
+  actorId: z.string().length(24, "Invalid actor ID format").optional(),
+  actorRole: z.enum(["admin", "expert", "guest", "system"]).optional(),
+  action: z.enum(["create", "update", "delete"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
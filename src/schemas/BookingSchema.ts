@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { BOOKING_REFERENCE_PATTERN } from "../models/BookingModel";
+import { SeriesInterval } from "../models/BookingSeriesModel";
 
 /**
  * Enum representing guest occupations.
@@ -16,11 +18,22 @@ export const GuestOccupationEnum = z.enum([
  */
 export const StatusEnum = z.enum([
   "Pending",
+  "Confirmed",
   "Completed",
   "Cancelled",
+  "NoShow",
   "Rescheduled",
 ]);
 
+/**
+ * Booking reference such as "TM-7K3QX", accepted in any casing.
+ */
+export const BookingReferenceZod = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(BOOKING_REFERENCE_PATTERN, "Invalid booking reference");
+
 /**
  * Zod schema for validating booking data.
  * 
@@ -34,12 +47,14 @@ export const StatusEnum = z.enum([
  * @property {string} guestWhatsapp - WhatsApp number of the guest, required and must be at least 10 digits.
  * @property {string} guestWebsite - Website of the guest, optional but must be a valid format if provided.
  * @property {string} guestProblem - The problem or issue reported by the guest, required and must be a non-empty string.
- * @property {string | undefined} guestVoiceNote - Optional voice note from the guest.
+ * @property {string | undefined} guestVoiceNote - Optional ID of a voice note uploaded through POST /media/voice-note.
+ * @property {Array<string> | undefined} guestAttachments - Optional IDs of files uploaded through POST /media/attachment (at most 5).
  * @property {Array<string>} tags - Array of tags associated with the booking, required.
- * @property {boolean} guestKYC - Boolean indicating whether KYC (Know Your Customer) is completed, required.
  * @property {string} expertId - MongoDB ObjectId of the expert, required and must be a valid ObjectId format.
  * @property {string} slotId - MongoDB ObjectId of the slot, required and must be a valid ObjectId format.
- * @property {("Pending" | "Completed" | "Cancelled" | "Rescheduled")} status - Status of the booking, restricted to specific values.
+ * @property {string} [planId] - MongoDB ObjectId of the plan; when given it must be the slot's plan.
+ * @property {string} holdToken - Token of the guest's hold on the slot, from POST /slot-holds.
+ * @property {Object} [intakeAnswers] - Answers to the plan's intake questions, keyed by question key; validated against the plan when booking.
  */
 export const BookingSchemaZod = z.object({
   guestName: z.string().min(1, "Guest name is required"),
@@ -54,10 +69,97 @@ export const BookingSchemaZod = z.object({
     .min(10, "Guest Whatsapp must be at least 10 digits"),
   guestWebsite: z.string().min(10, "Invalid website format"),
   guestProblem: z.string().min(1, "Guest problem is required"),
-  guestVoiceNote: z.string().optional(),
+  guestVoiceNote: z.string().length(24, "Invalid voice note ID").optional(),
+  guestAttachments: z
+    .array(z.string().length(24, "Invalid attachment ID"))
+    .max(5, "At most 5 attachments are allowed")
+    .optional(),
   tags: z.array(z.string()),
-  guestKYC: z.boolean(),
   expertId: z.string().length(24, "Invalid Expert ID"), // Validate MongoDB ObjectId format
   slotId: z.string().length(24, "Invalid Slot ID"), // Validate MongoDB ObjectId format
-  status: StatusEnum,
+  planId: z.string().length(24, "Invalid Plan ID").optional(),
+  holdToken: z.string().min(1, "A hold on the slot is required"),
+  intakeAnswers: z.record(z.unknown()).optional(),
+});
+
+// Longest series that can be booked at once
+const MAX_SERIES_OCCURRENCES = 12;
+
+/**
+ * Zod schema for validating a recurring booking request: a booking for the first session,
+ * plus how often and how many times it repeats.
+ *
+ * @property {("weekly" | "biweekly")} interval - How far apart the sessions are.
+ * @property {number} occurrences - How many sessions to book, including the first (2 to 12).
+ */
+export const BookingSeriesSchemaZod = BookingSchemaZod.extend({
+  interval: z.nativeEnum(SeriesInterval),
+  occurrences: z
+    .number()
+    .int("Occurrences must be a whole number")
+    .min(2, "A series has at least 2 sessions")
+    .max(
+      MAX_SERIES_OCCURRENCES,
+      `A series has at most ${MAX_SERIES_OCCURRENCES} sessions`
+    ),
+});
+
+/**
+ * Zod schema for validating a slot hold request.
+ *
+ * @property {string} slotId - MongoDB ObjectId of the slot to hold.
+ * @property {string} dateId - MongoDB ObjectId of the date the slot is on.
+ */
+export const SlotHoldSchemaZod = z.object({
+  slotId: z.string().length(24, "Invalid Slot ID"),
+  dateId: z.string().length(24, "Invalid Date ID"),
+});
+
+/**
+ * Zod schema for validating a booking status change.
+ *
+ * @property {string} [reason] - Why the status is changing.
+ */
+export const BookingTransitionSchemaZod = z.object({
+  reason: z.string().max(500, "Reason is too long").optional(),
+});
+
+/**
+ * Zod schema for validating a guest's booking lookup.
+ *
+ * @property {string} reference - The booking reference.
+ * @property {string} guestEmail - The email the booking was made with.
+ */
+export const GuestLookupSchemaZod = z.object({
+  reference: BookingReferenceZod,
+  guestEmail: z.string().email("Invalid email format"),
+});
+
+/**
+ * Zod schema for validating a guest's cancellation.
+ *
+ * @property {string} [reference] - The reference of the booking to cancel.
+ * @property {string} [bookingId] - The ID of the booking to cancel, if no reference is given.
+ * @property {string} guestEmail - The email the booking was made with.
+ * @property {string} [reason] - Why the guest is cancelling.
+ */
+export const GuestCancelSchemaZod = BookingTransitionSchemaZod.extend({
+  reference: BookingReferenceZod.optional(),
+  bookingId: z.string().length(24, "Invalid Booking ID").optional(),
+  guestEmail: z.string().email("Invalid email format"),
+}).refine((data) => data.reference || data.bookingId, {
+  message: "Booking reference is required",
+  path: ["reference"],
+});
+
+/**
+ * Zod schema for validating a guest's cancellation of a whole series.
+ *
+ * @property {string} seriesId - The ID of the series to cancel.
+ * @property {string} guestEmail - The email the series was booked with.
+ * @property {string} [reason] - Why the guest is cancelling.
+ */
+export const GuestSeriesCancelSchemaZod = BookingTransitionSchemaZod.extend({
+  seriesId: z.string().length(24, "Invalid Series ID"),
+  guestEmail: z.string().email("Invalid email format"),
 });
@@ -12,7 +12,7 @@ import { z } from "zod";
  */
 export const DateSchemaZod = z.object({
   /**
-   * The date in "DD/MM/YYYY" format.
+   * The date in "DD/MM/YYYY" format, in the expert's time zone.
    * Must match the regex /^\d{2}\/\d{2}\/\d{4}$/.
    * @type {string}
    */
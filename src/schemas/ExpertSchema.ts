@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../services/TimeZoneService";
 
 /**
  * Zod schema for validating expert data.
@@ -17,6 +18,8 @@ import { z } from "zod";
  * @property {string[]} availableCities - An array of cities where the expert is available (must have at least one city).
  * @property {boolean} [isAdmin] - A boolean indicating if the expert is an admin (optional).
  * @property {boolean} [isActive] - A boolean indicating if the expert is currently active (optional).
+ * @property {string} [password] - The expert's login password (optional, at least 6 characters).
+ * @property {string} [timezone] - IANA time zone of the expert's calendar, e.g. "Europe/Berlin" (optional).
  */
 export const ExpertSchemaZod = z.object({
   username: z.string().min(3, "Username must be at least 3 characters long"),
@@ -34,4 +37,44 @@ export const ExpertSchemaZod = z.object({
   availableCities: z.array(z.string()).min(1, "must have citys element"),
   isAdmin: z.boolean().optional(),
   isActive: z.boolean().optional(),
+  password: z
+    .string()
+    .min(6, "Password must be at least 6 characters long")
+    .optional(),
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, "Timezone must be an IANA time zone name")
+    .optional(),
+});
+
+/**
+ * Zod schema for validating expert login credentials.
+ * @const ExpertLoginSchemaZod
+ */
+export const ExpertLoginSchemaZod = z.object({
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(6, "Password must be at least 6 characters long"),
+});
+
+/**
+ * Zod schema for an expert editing their own profile.
+ * Admin-only flags and the password are managed through dedicated endpoints.
+ * @const ExpertProfileSchemaZod
+ */
+export const ExpertProfileSchemaZod = ExpertSchemaZod.omit({
+  isAdmin: true,
+  isActive: true,
+  password: true,
+}).partial();
+
+/**
+ * Zod schema for the expert list query string.
+ * @const ExpertListQuerySchemaZod
+ *
+ * @property {("rating" | "reviews")} [sort] - Sort by average rating (ties broken by review count) or by review count.
+ * @property {("asc" | "desc")} [order=desc] - Sort direction.
+ */
+export const ExpertListQuerySchemaZod = z.object({
+  sort: z.enum(["rating", "reviews"]).optional(),
+  order: z.enum(["asc", "desc"]).default("desc"),
 });
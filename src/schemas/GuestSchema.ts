@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { GuestOccupationEnum } from "./BookingSchema";
+import { normalizePhone } from "../services/KycService";
+
+// Punctuation is dropped before codes are sent, so only digits count towards the length
+const GuestPhoneZod = z
+  .string()
+  .refine(
+    (phone) => normalizePhone(phone).replace("+", "").length >= 10,
+    "Phone must be at least 10 digits"
+  );
+
+/**
+ * @constant GuestLoginSchemaZod
+ * @description Zod schema for requesting a guest login code. Exactly one of `email` or `phone` is needed.
+ * @property {string} [email] - Email to send the code and magic link to.
+ * @property {string} [phone] - Phone number to text the code to.
+ */
+export const GuestLoginSchemaZod = z
+  .object({
+    email: z.string().trim().toLowerCase().email("Invalid email format"),
+    phone: GuestPhoneZod,
+  })
+  .partial()
+  .refine((data) => !data.email !== !data.phone, {
+    message: "Provide either an email or a phone number",
+  });
+
+/**
+ * @constant GuestLoginVerifySchemaZod
+ * @description Zod schema for completing a guest login with the code that was sent.
+ * @property {string} [email] - The email the code was sent to.
+ * @property {string} [phone] - The phone number the code was sent to.
+ * @property {string} code - The 6-digit code.
+ */
+export const GuestLoginVerifySchemaZod = z
+  .object({
+    email: z.string().trim().toLowerCase().email("Invalid email format"),
+    phone: GuestPhoneZod,
+  })
+  .partial()
+  .extend({ code: z.string().regex(/^\d{6}$/, "Code must be 6 digits") })
+  .refine((data) => !data.email !== !data.phone, {
+    message: "Provide either an email or a phone number",
+  });
+
+/**
+ * @constant GuestMagicLinkSchemaZod
+ * @description Zod schema for completing a guest login with a magic link.
+ * @property {string} token - The token from the link.
+ */
+export const GuestMagicLinkSchemaZod = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
+/**
+ * @constant GuestProfileSchemaZod
+ * @description Zod schema for updating a guest's profile. Email and phone are not editable:
+ * they are added with a code sent to them (POST /guest/me/contact).
+ * @property {string} [name] - Name of the guest.
+ * @property {("Student" | "Businessperson" | "Working Professional")} [occupation] - Occupation of the guest.
+ * @property {number} [age] - Age of the guest.
+ * @property {string} [city] - City of the guest.
+ * @property {string} [whatsapp] - WhatsApp number of the guest.
+ * @property {string} [website] - Website of the guest.
+ */
+export const GuestProfileSchemaZod = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    occupation: GuestOccupationEnum,
+    age: z.number().min(1, "Age must be a positive number"),
+    city: z.string().min(1, "City is required"),
+    whatsapp: z.string().min(10, "Whatsapp must be at least 10 digits"),
+    website: z.string().min(10, "Invalid website format"),
+  })
+  .partial();
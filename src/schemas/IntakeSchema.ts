@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { IIntakeQuestion, IntakeFieldType } from "../models/PlanModel";
+
+const CHOICE_TYPES = [IntakeFieldType.SELECT, IntakeFieldType.MULTI_SELECT];
+
+/**
+ * @constant IntakeQuestionSchemaZod
+ * @description Zod schema for one question of a plan's intake questionnaire.
+ * @property {string} key - Identifies the answer (a letter, then letters, digits or underscores).
+ * @property {string} label - The question as shown to the guest.
+ * @property {("text" | "number" | "select" | "multiSelect" | "boolean")} type - The kind of answer.
+ * @property {boolean} [required=false] - Whether the question must be answered.
+ * @property {string[]} [options] - The choices; required for select and multi-select questions.
+ * @property {number} [min] - Smallest accepted number (number questions only).
+ * @property {number} [max] - Largest accepted number (number questions only).
+ */
+export const IntakeQuestionSchemaZod = z
+  .object({
+    key: z
+      .string()
+      .regex(
+        /^[a-zA-Z][a-zA-Z0-9_]{0,39}$/,
+        "Key must start with a letter and contain only letters, digits and underscores (at most 40)"
+      ),
+    label: z
+      .string()
+      .trim()
+      .min(1, "Label is required")
+      .max(200, "Label is too long"),
+    type: z.nativeEnum(IntakeFieldType),
+    required: z.boolean().default(false),
+    options: z
+      .array(z.string().trim().min(1, "Options cannot be empty").max(100))
+      .min(1, "At least one option is required")
+      .max(50, "At most 50 options are allowed")
+      .optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .superRefine((question, ctx) => {
+    if (CHOICE_TYPES.includes(question.type) && !question.options) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Options are required for ${question.type} questions`,
+        path: ["options"],
+      });
+    }
+    if (!CHOICE_TYPES.includes(question.type) && question.options) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Options are only allowed for select and multi-select questions`,
+        path: ["options"],
+      });
+    }
+    if (
+      question.type !== IntakeFieldType.NUMBER &&
+      (question.min !== undefined || question.max !== undefined)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Min and max are only allowed for number questions",
+        path: ["min"],
+      });
+    }
+    if (
+      question.min !== undefined &&
+      question.max !== undefined &&
+      question.min > question.max
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Min cannot be greater than max",
+        path: ["max"],
+      });
+    }
+  });
+
+/**
+ * @constant IntakeQuestionnaireSchemaZod
+ * @description Zod schema for a plan's intake questionnaire: up to 30 questions with unique keys.
+ */
+export const IntakeQuestionnaireSchemaZod = z
+  .array(IntakeQuestionSchemaZod)
+  .max(30, "At most 30 questions are allowed")
+  .superRefine((questions, ctx) => {
+    questions.forEach((question, index) => {
+      if (questions.findIndex(({ key }) => key === question.key) !== index) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate question key "${question.key}"`,
+          path: [index, "key"],
+        });
+      }
+    });
+  });
+
+// The Zod type accepting the answer to one question
+const answerSchema = (question: IIntakeQuestion): z.ZodTypeAny => {
+  const required_error = `${question.label} is required`;
+  const choiceError: z.ZodErrorMap = (_issue, ctx) => ({
+    message:
+      ctx.data === undefined
+        ? required_error
+        : `${question.label} must be among: ${question.options.join(", ")}`,
+  });
+
+  switch (question.type) {
+    case IntakeFieldType.TEXT:
+      return z
+        .string({ required_error })
+        .trim()
+        .min(question.required ? 1 : 0, required_error)
+        .max(2000, `${question.label} is too long`);
+    case IntakeFieldType.NUMBER: {
+      let schema = z.number({
+        required_error,
+        invalid_type_error: `${question.label} must be a number`,
+      });
+      if (question.min != null) {
+        schema = schema.min(
+          question.min,
+          `${question.label} must be at least ${question.min}`
+        );
+      }
+      if (question.max != null) {
+        schema = schema.max(
+          question.max,
+          `${question.label} must be at most ${question.max}`
+        );
+      }
+      return schema;
+    }
+    case IntakeFieldType.SELECT:
+      return z.enum(question.options as [string, ...string[]], {
+        errorMap: choiceError,
+      });
+    case IntakeFieldType.MULTI_SELECT:
+      return z
+        .array(
+          z.enum(question.options as [string, ...string[]], {
+            errorMap: choiceError,
+          }),
+          { required_error }
+        )
+        .min(question.required ? 1 : 0, required_error)
+        .transform((choices) => [...new Set(choices)]);
+    case IntakeFieldType.BOOLEAN:
+      return z.boolean({
+        required_error,
+        invalid_type_error: `${question.label} must be true or false`,
+      });
+  }
+};
+
+/**
+ * Builds the Zod schema validating a booking's answers to a plan's questionnaire.
+ * Answers to questions the plan does not ask are rejected.
+ * @param {IIntakeQuestion[]} questions - The plan's intake questions.
+ * @returns {z.ZodTypeAny} Schema for the `intakeAnswers` object, keyed by question key.
+ */
+export const buildIntakeAnswersSchema = (questions: IIntakeQuestion[]) =>
+  z
+    .object(
+      Object.fromEntries(
+        questions.map((question) => {
+          const schema = answerSchema(question);
+          return [question.key, question.required ? schema : schema.optional()];
+        })
+      )
+    )
+    .strict()
+    .default({});
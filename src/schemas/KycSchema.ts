@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { KycDocumentType, KycStatus } from "../models/KycVerificationModel";
+
+/**
+ * @constant KycSubmissionSchemaZod
+ * @description Zod schema for submitting identity documents.
+ * @property {string} guestName - Name of the guest, as on the documents.
+ * @property {string} guestEmail - The email the guest books with.
+ * @property {string} guestPhone - The phone number the guest books with.
+ * @property {("passport" | "nationalId" | "drivingLicence")} documentType - The kind of document.
+ * @property {string[]} documents - IDs of scans uploaded through POST /media/kyc-document (1 to 3, e.g. front and back).
+ */
+export const KycSubmissionSchemaZod = z.object({
+  guestName: z.string().min(1, "Guest name is required"),
+  guestEmail: z.string().trim().toLowerCase().email("Invalid email format"),
+  guestPhone: z.string().min(10, "Guest phone must be at least 10 digits"),
+  documentType: z.nativeEnum(KycDocumentType),
+  documents: z
+    .array(z.string().length(24, "Invalid document ID"))
+    .min(1, "At least one document is required")
+    .max(3, "At most 3 documents are allowed"),
+});
+
+/**
+ * @constant KycStatusQuerySchemaZod
+ * @description Zod schema for a guest checking their verification.
+ * @property {string} guestEmail - The email the documents were submitted with.
+ * @property {string} guestPhone - The phone number the documents were submitted with.
+ */
+export const KycStatusQuerySchemaZod = z.object({
+  guestEmail: z.string().trim().toLowerCase().email("Invalid email format"),
+  guestPhone: z.string().min(10, "Guest phone must be at least 10 digits"),
+});
+
+/**
+ * @constant KycRejectionSchemaZod
+ * @description Zod schema for rejecting a verification.
+ * @property {string} reason - Why the documents were rejected, shown to the guest.
+ */
+export const KycRejectionSchemaZod = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, "A reason is required")
+    .max(500, "Reason is too long"),
+});
+
+/**
+ * @constant KycQuerySchemaZod
+ * @description Zod schema for the KYC review queue query string.
+ * @property {("pending" | "approved" | "rejected")} [status=pending] - Only verifications in this state.
+ * @property {string} [guestEmail] - Only verifications for this email.
+ * @property {number} [page=1] - Page number (1-based).
+ * @property {number} [limit=20] - Entries per page (at most 100).
+ */
+export const KycQuerySchemaZod = z.object({
+  status: z.nativeEnum(KycStatus).default(KycStatus.PENDING),
+  guestEmail: z.string().trim().toLowerCase().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { IntakeQuestionnaireSchemaZod } from "./IntakeSchema";
 
 /**
  * @constant PlanSchemaZod
@@ -10,6 +11,12 @@ import { z } from "zod";
  * @property {string} bookingType - The type of booking (e.g., "appointment", "seminar"). Must be at least 3 characters long.
  * @property {string} expertId - The expert's ID. Must be a valid ObjectId string (24 characters).
  * @property {boolean} [isDedicated] - Optional field indicating if the plan is dedicated.
+ * @property {number} [seatCapacity] - Seats per slot (default 1); more than one makes it a group session.
+ * @property {boolean} [requiresKyc] - Only confirm bookings of guests with verified KYC (default false).
+ * @property {Object[]} [intakeQuestions] - Questions guests answer when booking (see IntakeQuestionSchemaZod).
+ * @property {Object} [cancellationPolicy] - Guest cancellation policy.
+ * @property {number} cancellationPolicy.freeCancelHours - Hours before the start until which cancelling is free.
+ * @property {number} cancellationPolicy.lateCancelFeePercent - Fee (0-100% of the price) for cancelling later.
  */
 
 export const PlanSchemaZod = z.object({
@@ -22,4 +29,20 @@ export const PlanSchemaZod = z.object({
   bookingType: z.string().min(3, "Booking type must be at least 3 characters"),
   expertId: z.string().length(24, "Invalid Expert ID format"), // ObjectId string format
   isDedicated: z.boolean().optional(), // Optional field
+  seatCapacity: z
+    .number()
+    .int("Seat capacity must be a whole number")
+    .min(1, "Seat capacity must be at least 1")
+    .optional(),
+  requiresKyc: z.boolean().optional(),
+  intakeQuestions: IntakeQuestionnaireSchemaZod.optional(),
+  cancellationPolicy: z
+    .object({
+      freeCancelHours: z.number().min(0, "Hours cannot be negative"),
+      lateCancelFeePercent: z
+        .number()
+        .min(0, "Fee cannot be negative")
+        .max(100, "Fee cannot exceed 100%"),
+    })
+    .optional(),
 });
@@ -1,10 +1,12 @@
 import { z } from "zod";
+import { BookingReferenceZod } from "./BookingSchema";
 // import { RequestedBy } from '../models/requestReschedule';
 
 /**
  * @constant ReschedulingRequestSchemaZod
  * @description Zod schema for validating the rescheduling request data
- * @property {string} CurrentBookingId - The ID of the current booking (must be a valid 24-character ObjectId)
+ * @property {string} [CurrentBookingId] - The ID of the current booking (must be a valid 24-character ObjectId)
+ * @property {string} [BookingReference] - The reference of the current booking (e.g. "TM-7K3QX"), instead of its ID
  * @property {string} RequestedDateId - The ID of the requested new date (must be a valid 24-character ObjectId)
  * @property {string} RequestedSlotId - The ID of the requested new slot (must be a valid 24-character ObjectId)
  * @example
@@ -15,10 +17,19 @@ import { z } from "zod";
  * }
  */
 
-export const ReschedulingRequestSchemaZod = z.object({
-  CurrentBookingId: z.string().length(24, "Invalid booking ID format"),
-  // RequestedBy: z.enum([RequestedBy.USER, RequestedBy.EXPERT]),
-  RequestedDateId: z.string().length(24, "Invalid date ID format"),
-  RequestedSlotId: z.string().length(24, "Invalid slots ID format"),
-  // expertId: z.string().length(24, "Invalid expert ID format")
-});
+export const ReschedulingRequestSchemaZod = z
+  .object({
+    CurrentBookingId: z
+      .string()
+      .length(24, "Invalid booking ID format")
+      .optional(),
+    BookingReference: BookingReferenceZod.optional(),
+    // RequestedBy: z.enum([RequestedBy.USER, RequestedBy.EXPERT]),
+    RequestedDateId: z.string().length(24, "Invalid date ID format"),
+    RequestedSlotId: z.string().length(24, "Invalid slots ID format"),
+    // expertId: z.string().length(24, "Invalid expert ID format")
+  })
+  .refine((data) => data.CurrentBookingId || data.BookingReference, {
+    message: "Booking ID or reference is required",
+    path: ["CurrentBookingId"],
+  });
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { ReviewStatus } from "../models/ReviewModel";
+import { BookingReferenceZod } from "./BookingSchema";
+
+/**
+ * @constant ReviewSubmissionSchemaZod
+ * @description Zod schema for a guest reviewing a completed booking.
+ * @property {string} reference - The booking reference.
+ * @property {string} guestEmail - The email the booking was made with.
+ * @property {number} rating - From 1 to 5.
+ * @property {string} [comment] - The review itself.
+ */
+export const ReviewSubmissionSchemaZod = z.object({
+  reference: BookingReferenceZod,
+  guestEmail: z.string().email("Invalid email format"),
+  rating: z
+    .number()
+    .int("Rating must be a whole number")
+    .min(1, "Rating must be between 1 and 5")
+    .max(5, "Rating must be between 1 and 5"),
+  comment: z.string().trim().max(2000, "Review is too long").optional(),
+});
+
+/**
+ * @constant ReviewReplySchemaZod
+ * @description Zod schema for an expert replying to a review.
+ * @property {string} text - The reply, shown under the review.
+ */
+export const ReviewReplySchemaZod = z.object({
+  text: z
+    .string()
+    .trim()
+    .min(1, "A reply is required")
+    .max(1000, "Reply is too long"),
+});
+
+/**
+ * @constant ReviewRejectionSchemaZod
+ * @description Zod schema for rejecting a review.
+ * @property {string} reason - Why the review was rejected.
+ */
+export const ReviewRejectionSchemaZod = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, "A reason is required")
+    .max(500, "Reason is too long"),
+});
+
+/**
+ * @constant ReviewQuerySchemaZod
+ * @description Zod schema for the review moderation queue query string.
+ * @property {("pending" | "approved" | "rejected")} [status=pending] - Only reviews in this state.
+ * @property {string} [expertId] - Only reviews of this expert.
+ * @property {number} [page=1] - Page number (1-based).
+ * @property {number} [limit=20] - Entries per page (at most 100).
+ */
+export const ReviewQuerySchemaZod = z.object({
+  status: z.nativeEnum(ReviewStatus).default(ReviewStatus.PENDING),
+  expertId: z.string().length(24, "Invalid Expert ID").optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * @constant PublicReviewQuerySchemaZod
+ * @description Zod schema for listing an expert's public reviews.
+ * @property {number} [page=1] - Page number (1-based).
+ * @property {number} [limit=10] - Entries per page (at most 50).
+ */
+export const PublicReviewQuerySchemaZod = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
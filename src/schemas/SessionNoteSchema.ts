@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+/**
+ * @constant SessionNoteSchemaZod
+ * @description Zod schema for editing a booking's session notes. Fields left out keep
+ * their current value.
+ * @property {string} [privateNotes] - Notes for the expert and admins only.
+ * @property {string} [summary] - Summary of the session for the guest.
+ * @property {string[]} [actionItems] - What the guest should do next (up to 20).
+ * @property {string[]} [attachments] - IDs of files uploaded through POST /media/session-attachment (up to 5).
+ */
+export const SessionNoteSchemaZod = z.object({
+  privateNotes: z.string().max(10000, "Private notes are too long").optional(),
+  summary: z.string().max(5000, "Summary is too long").optional(),
+  actionItems: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, "Action items cannot be empty")
+        .max(300, "Action item is too long")
+    )
+    .max(20, "At most 20 action items are allowed")
+    .optional(),
+  attachments: z
+    .array(z.string().length(24, "Invalid attachment ID"))
+    .max(5, "At most 5 attachments are allowed")
+    .optional(),
+});
@@ -9,7 +9,7 @@ import { z } from "zod";
  * 
  * @property {ZodString} availability - A string that indicates the availability status of the slot.
  * Must be at least 3 characters long (e.g., "Available", "Not available").
- * @property {ZodString} timing - A string that represents the time of the slot in "HH:MM" format.
+ * @property {ZodString} timing - A string that represents the time of the slot in "HH:MM" format, in the expert's time zone.
  * Must match the regular expression for valid time format.
  * @property {ZodString} period - A string indicating the period of the day for the slot.
  * Must be at least 3 characters long (e.g., "Morning", "Afternoon", "Night").
@@ -17,6 +17,7 @@ import { z } from "zod";
  * Must be a 24-character long string.
  * @property {ZodString} expertId - A string representing the ID of the associated Expert.
  * Must be a 24-character long string.
+ * @property {ZodNumber} [capacity] - Number of seats. Defaults to the plan's seat capacity.
  */
 
 export const SlotSchemaZod = z.object({
@@ -29,4 +30,9 @@ export const SlotSchemaZod = z.object({
   period: z.string().min(3, "Period must be at least 3 characters long"), // Morning, Afternoon, etc.
   planId: z.string().length(24, "Invalid Plan ID format"), // 24-character ObjectId string
   expertId: z.string().length(24, "Invalid Expert ID format"), // 24-character ObjectId string
+  capacity: z
+    .number()
+    .int("Capacity must be a whole number")
+    .min(1, "Capacity must be at least 1")
+    .optional(),
 });
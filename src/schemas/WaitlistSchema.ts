@@ -0,0 +1,61 @@
+import { z } from "zod";
+
+const dayPattern = /^\d{2}\/\d{2}\/\d{4}$/;
+
+/**
+ * @constant WaitlistSchemaZod
+ * @description Zod schema for joining the waitlist.
+ * @property {string} expertId - The expert the guest wants to see.
+ * @property {string} planId - The plan the guest wants to book.
+ * @property {string} guestName - Name of the guest.
+ * @property {string} guestEmail - Email offers are sent to.
+ * @property {string} [guestPhone] - Phone number of the guest.
+ * @property {string} [fromDate] - Earliest acceptable day, in "DD/MM/YYYY" format.
+ * @property {string} [toDate] - Latest acceptable day, in "DD/MM/YYYY" format.
+ */
+export const WaitlistSchemaZod = z.object({
+  expertId: z.string().length(24, "Invalid Expert ID format"),
+  planId: z.string().length(24, "Invalid Plan ID format"),
+  guestName: z.string().min(1, "Guest name is required"),
+  guestEmail: z.string().trim().toLowerCase().email("Invalid email format"),
+  guestPhone: z
+    .string()
+    .min(10, "Guest phone must be at least 10 digits")
+    .optional(),
+  fromDate: z
+    .string()
+    .regex(dayPattern, "Date must be in DD/MM/YYYY format")
+    .optional(),
+  toDate: z
+    .string()
+    .regex(dayPattern, "Date must be in DD/MM/YYYY format")
+    .optional(),
+});
+
+/**
+ * @constant LeaveWaitlistSchemaZod
+ * @description Zod schema for leaving the waitlist.
+ * @property {string} guestEmail - The email the guest joined with.
+ */
+export const LeaveWaitlistSchemaZod = z.object({
+  guestEmail: z.string().trim().toLowerCase().email("Invalid email format"),
+});
+
+/**
+ * @constant WaitlistQuerySchemaZod
+ * @description Zod schema for the waitlist search query string.
+ * @property {string} [expertId] - Only entries for this expert (experts only ever see their own).
+ * @property {string} [planId] - Only entries for this plan.
+ * @property {("waiting" | "offered" | "claimed" | "expired" | "left")} [status] - Only entries in this state.
+ * @property {number} [page=1] - Page number (1-based).
+ * @property {number} [limit=20] - Entries per page (at most 100).
+ */
+export const WaitlistQuerySchemaZod = z.object({
+  expertId: z.string().length(24, "Invalid Expert ID format").optional(),
+  planId: z.string().length(24, "Invalid Plan ID format").optional(),
+  status: z
+    .enum(["waiting", "offered", "claimed", "expired", "left"])
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
@@ -0,0 +1,244 @@
+import mongoose, { Schema } from "mongoose";
+import { AuditAction, AuditLog } from "../models/AuditLogModel";
+import { getCurrentRequest } from "../middleware/audit";
+
+type Snapshot = Record<string, unknown>;
+
+// Documents as they were before each running query changed them, read back once it finished
+const beforeSnapshots = new WeakMap<
+  mongoose.Query<unknown, unknown>,
+  Snapshot[]
+>();
+
+// Fields that never show up in the audit log
+const REDACTED_FIELDS = ["password"];
+// Bookkeeping fields that are not worth diffing
+const IGNORED_FIELDS = ["createdAt", "updatedAt", "__v"];
+
+const redact = (snapshot?: Snapshot | null): Snapshot | undefined => {
+  if (!snapshot) return undefined;
+  const copy = { ...snapshot };
+  REDACTED_FIELDS.forEach((field) => delete copy[field]);
+  return copy;
+};
+
+/**
+ * Computes the fields that differ between two snapshots of a document.
+ * @param {Snapshot} [before] - The document before the change.
+ * @param {Snapshot} [after] - The document after the change.
+ * @returns {Record<string, { from: unknown; to: unknown }>}
+ */
+export const diffSnapshots = (before: Snapshot = {}, after: Snapshot = {}) => {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  keys.forEach((key) => {
+    if (IGNORED_FIELDS.includes(key)) return;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = { from: before[key], to: after[key] };
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Writes an audit log entry for a change, attributing it to the current request.
+ * Failures are logged and swallowed so auditing never breaks the change itself.
+ * @param {string} targetModel - Name of the changed model.
+ * @param {AuditAction} action - The kind of change.
+ * @param {Snapshot | null} [before] - The document before the change.
+ * @param {Snapshot | null} [after] - The document after the change.
+ * @param {mongoose.ClientSession | null} [session] - Transaction the change belongs to, if any.
+ * @returns {Promise<void>}
+ */
+export const recordAudit = async (
+  targetModel: string,
+  action: AuditAction,
+  before?: Snapshot | null,
+  after?: Snapshot | null,
+  session?: mongoose.ClientSession | null
+): Promise<void> => {
+  try {
+    const redactedBefore = redact(before);
+    const redactedAfter = redact(after);
+    const changes = diffSnapshots(redactedBefore, redactedAfter);
+
+    // Saving an unchanged document is not worth an entry
+    if (action === AuditAction.UPDATE && Object.keys(changes).length === 0) {
+      return;
+    }
+
+    const req = getCurrentRequest();
+    await AuditLog.create(
+      [
+        {
+          actorId: req?.user?.id,
+          actorRole: req ? req.user?.role || "guest" : "system",
+          method: req?.method,
+          route: req?.originalUrl.split("?")[0],
+          targetModel,
+          targetId: (redactedAfter || redactedBefore)._id,
+          action,
+          before: redactedBefore,
+          after: redactedAfter,
+          changes,
+        },
+      ],
+      { session: session || undefined }
+    );
+  } catch (error) {
+    console.error("Failed to write audit log:", error);
+  }
+};
+
+/**
+ * Mongoose plugin recording every create, update and delete of a model in the audit log.
+ * Covers `save`, `findOneAndUpdate`, `updateOne`, `updateMany`,
+ * `findOneAndDelete`, `deleteOne` and `deleteMany`.
+ * Changes made inside a transaction are read and logged in that same transaction.
+ * @param {Schema} schema - The schema to audit.
+ * @param {{ modelName: string }} options - The name recorded as `targetModel`.
+ */
+export const auditPlugin = (schema: Schema, options: { modelName: string }) => {
+  const { modelName } = options;
+
+  // Document saves (create, or update through doc.save())
+  schema.pre("save", async function () {
+    this.$locals.auditIsNew = this.isNew;
+    if (!this.isNew) {
+      this.$locals.auditBefore = await this.$model()
+        .findById(this._id)
+        .session(this.$session())
+        .lean();
+    }
+  });
+  schema.post("save", async function (doc) {
+    await recordAudit(
+      modelName,
+      doc.$locals.auditIsNew ? AuditAction.CREATE : AuditAction.UPDATE,
+      doc.$locals.auditBefore as Snapshot,
+      doc.toObject(),
+      doc.$session()
+    );
+  });
+
+  // Single-document query updates
+  schema.pre(
+    ["findOneAndUpdate", "updateOne"],
+    { document: false, query: true },
+    async function () {
+      const before = await this.model
+        .findOne(this.getFilter())
+        .session(this.getOptions().session)
+        .lean<Snapshot>();
+      beforeSnapshots.set(this, before ? [before] : []);
+    }
+  );
+  schema.post(
+    ["findOneAndUpdate", "updateOne"],
+    { document: false, query: true },
+    async function () {
+      const [before] = beforeSnapshots.get(this) ?? [];
+      const session = this.getOptions().session;
+      // Without a previous version the update was an upsert
+      const after = before
+        ? await this.model
+            .findById(before._id)
+            .session(session)
+            .lean<Snapshot>()
+        : await this.model
+            .findOne(this.getFilter())
+            .session(session)
+            .lean<Snapshot>();
+      if (after) {
+        await recordAudit(
+          modelName,
+          before ? AuditAction.UPDATE : AuditAction.CREATE,
+          before,
+          after,
+          session
+        );
+      }
+    }
+  );
+
+  // Multi-document query updates
+  schema.pre("updateMany", { document: false, query: true }, async function () {
+    beforeSnapshots.set(
+      this,
+      await this.model
+        .find(this.getFilter())
+        .session(this.getOptions().session)
+        .lean<Snapshot[]>()
+    );
+  });
+  schema.post(
+    "updateMany",
+    { document: false, query: true },
+    async function () {
+      const befores = beforeSnapshots.get(this) ?? [];
+      const session = this.getOptions().session;
+      const afters = await this.model
+        .find({ _id: { $in: befores.map((doc) => doc._id) } })
+        .session(session)
+        .lean<Snapshot[]>();
+      for (const before of befores) {
+        const after = afters.find(
+          (doc) => String(doc._id) === String(before._id)
+        );
+        await recordAudit(
+          modelName,
+          AuditAction.UPDATE,
+          before,
+          after,
+          session
+        );
+      }
+    }
+  );
+
+  // Query deletes. Document deletes (doc.deleteOne()) are not covered,
+  // so audited models should be deleted through their model.
+  schema.pre(
+    ["findOneAndDelete", "deleteOne"],
+    { document: false, query: true },
+    async function () {
+      const filter = this.getFilter();
+      // Which document an empty filter deletes cannot be known beforehand
+      const before =
+        Object.keys(filter).length > 0
+          ? await this.model
+              .findOne(filter)
+              .session(this.getOptions().session)
+              .lean<Snapshot>()
+          : null;
+      beforeSnapshots.set(this, before ? [before] : []);
+    }
+  );
+  schema.pre("deleteMany", { document: false, query: true }, async function () {
+    beforeSnapshots.set(
+      this,
+      await this.model
+        .find(this.getFilter())
+        .session(this.getOptions().session)
+        .lean<Snapshot[]>()
+    );
+  });
+  schema.post(
+    ["findOneAndDelete", "deleteOne", "deleteMany"],
+    { document: false, query: true },
+    async function () {
+      const befores = beforeSnapshots.get(this) ?? [];
+      for (const before of befores) {
+        await recordAudit(
+          modelName,
+          AuditAction.DELETE,
+          before,
+          null,
+          this.getOptions().session
+        );
+      }
+    }
+  );
+};
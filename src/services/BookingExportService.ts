@@ -0,0 +1,142 @@
+import { once } from "events";
+import { Writable } from "stream";
+import ExcelJS from "exceljs";
+import { BookingSchema } from "../models/BookingModel";
+
+/**
+ * Formats bookings can be exported in.
+ * @enum {string}
+ */
+export enum BookingExportFormat {
+  CSV = "csv",
+  XLSX = "xlsx",
+}
+
+type ExportedBooking = Record<string, any>;
+
+/**
+ * Columns an export can contain, in their default order. Expert, plan, date and slot
+ * are resolved to their name, date, timing and start.
+ */
+export const BOOKING_EXPORT_COLUMNS: Record<
+  string,
+  { header: string; value: (booking: ExportedBooking) => unknown }
+> = {
+  reference: { header: "Reference", value: (b) => b.reference },
+  status: { header: "Status", value: (b) => b.status },
+  expert: { header: "Expert", value: (b) => b.expertId?.fullname },
+  plan: { header: "Plan", value: (b) => b.planId?.name },
+  date: { header: "Date", value: (b) => b.dateId?.date },
+  timing: { header: "Timing", value: (b) => b.slotId?.timing },
+  startsAt: { header: "Starts at (UTC)", value: (b) => b.slotId?.startsAt },
+  guestName: { header: "Guest name", value: (b) => b.guestName },
+  guestEmail: { header: "Guest email", value: (b) => b.guestEmail },
+  guestPhone: { header: "Guest phone", value: (b) => b.guestPhone },
+  guestWhatsapp: { header: "Guest WhatsApp", value: (b) => b.guestWhatsapp },
+  guestOccupation: { header: "Occupation", value: (b) => b.guestOccupation },
+  guestAge: { header: "Age", value: (b) => b.guestAge },
+  guestCity: { header: "City", value: (b) => b.guestCity },
+  guestWebsite: { header: "Website", value: (b) => b.guestWebsite },
+  guestProblem: { header: "Problem", value: (b) => b.guestProblem },
+  tags: { header: "Tags", value: (b) => b.tags?.join(", ") },
+  intakeAnswers: {
+    header: "Intake answers",
+    value: (b) =>
+      b.intakeAnswers
+        ?.map(
+          ({ label, value }) =>
+            `${label}: ${Array.isArray(value) ? value.join(", ") : value}`
+        )
+        .join("; "),
+  },
+  guestKYC: { header: "KYC verified", value: (b) => b.guestKYC },
+  cancellationFee: {
+    header: "Cancellation fee",
+    value: (b) => b.cancellationFee?.amount,
+  },
+  createdAt: { header: "Booked at", value: (b) => b.createdAt },
+};
+
+export type BookingExportColumn = keyof typeof BOOKING_EXPORT_COLUMNS;
+
+/**
+ * @interface BookingExportOptions
+ * @property {Record<string, unknown>} query - Filter selecting the bookings to export.
+ * @property {Record<string, any>} sort - Order of the rows.
+ * @property {BookingExportColumn[]} columns - Columns to include, in order.
+ * @property {BookingExportFormat} format - File format.
+ */
+export interface BookingExportOptions {
+  query: Record<string, unknown>;
+  sort: Record<string, any>;
+  columns: BookingExportColumn[];
+  format: BookingExportFormat;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value: unknown): string => {
+  if (value == null) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Writes to the output, waiting for it to drain when its buffer is full
+const write = async (out: Writable, chunk: string) => {
+  if (!out.write(chunk)) await once(out, "drain");
+};
+
+/**
+ * Streams bookings to an output as CSV or XLSX, one row at a time, so exports of any
+ * size never have to fit in memory.
+ * @param {BookingExportOptions} options - What to export and how.
+ * @param {Writable} out - Where to write the file (e.g. the response).
+ * @returns {Promise<number>} How many bookings were exported.
+ */
+export const streamBookingExport = async (
+  { query, sort, columns, format }: BookingExportOptions,
+  out: Writable
+): Promise<number> => {
+  const selected = columns.map((column) => BOOKING_EXPORT_COLUMNS[column]);
+  const cursor = BookingSchema.find(query)
+    .sort(sort)
+    .populate("expertId", "fullname")
+    .populate("planId", "name")
+    .populate("dateId", "date")
+    .populate("slotId", "timing startsAt")
+    .lean()
+    .cursor();
+
+  let count = 0;
+  if (format === BookingExportFormat.XLSX) {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: out,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    const sheet = workbook.addWorksheet("Bookings");
+    sheet.addRow(selected.map(({ header }) => header)).commit();
+    for await (const booking of cursor) {
+      sheet
+        .addRow(selected.map(({ value }) => value(booking) ?? null))
+        .commit();
+      count++;
+    }
+    sheet.commit();
+    await workbook.commit();
+    return count;
+  }
+
+  await write(out, selected.map(({ header }) => header).join(",") + "\r\n");
+  for await (const booking of cursor) {
+    await write(
+      out,
+      selected.map(({ value }) => toCsvCell(value(booking))).join(",") + "\r\n"
+    );
+    count++;
+  }
+  out.end();
+  return count;
+};
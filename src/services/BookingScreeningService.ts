@@ -0,0 +1,254 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import {
+  BookingSchema,
+  IBooking,
+  IBookingScreening,
+  ScreeningStatus,
+  Status,
+} from "../models/BookingModel";
+import { BookingInput } from "./BookingService";
+import { normalizePhone } from "./KycService";
+
+/**
+ * Error raised when a held booking cannot be released or rejected.
+ * @class ScreeningError
+ * @extends {Error}
+ * @property {number} status - HTTP status to answer with.
+ */
+export class ScreeningError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Statuses of bookings that still take up the expert's time
+const ACTIVE_STATUSES = [Status.PENDING, Status.CONFIRMED, Status.RESCHEDULED];
+
+// Well-known throwaway mail providers; more can be added through SCREENING_DISPOSABLE_DOMAINS
+const DISPOSABLE_DOMAINS = [
+  "10minutemail.com",
+  "dispostable.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "sharklasers.com",
+  "temp-mail.org",
+  "tempmail.com",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com",
+];
+
+// A limit from the environment, where 0 turns the rule off
+const envLimit = (name: string, fallback: number): number => {
+  const value = process.env[name];
+  return value === undefined || value === "" ? fallback : Number(value);
+};
+
+/**
+ * Thresholds of the screening rules.
+ * @typedef {Object} ScreeningConfig
+ * @property {number} maxActivePerExpert - Active bookings a guest may have with one expert before the next is held.
+ * @property {number} duplicateProblemHours - How far back an identical problem text counts as a duplicate.
+ * @property {number} maxBookingsPerPhonePerDay - Bookings one phone number may make in 24 hours before the next is held.
+ * @property {string[]} disposableDomains - Email domains that are held (empty to allow them).
+ */
+export interface ScreeningConfig {
+  maxActivePerExpert: number;
+  duplicateProblemHours: number;
+  maxBookingsPerPhonePerDay: number;
+  disposableDomains: string[];
+}
+
+/**
+ * Reads the screening thresholds from the environment. Read lazily so values from .env
+ * are picked up after dotenv has loaded. Setting a number to 0 turns its rule off.
+ * @returns {ScreeningConfig}
+ */
+export const getScreeningConfig = (): ScreeningConfig => ({
+  maxActivePerExpert: envLimit("SCREENING_MAX_ACTIVE_PER_EXPERT", 2),
+  duplicateProblemHours: envLimit("SCREENING_DUPLICATE_PROBLEM_HOURS", 24),
+  maxBookingsPerPhonePerDay: envLimit("SCREENING_MAX_BOOKINGS_PER_PHONE", 3),
+  disposableDomains:
+    process.env.SCREENING_ALLOW_DISPOSABLE_EMAILS === "true"
+      ? []
+      : [
+          ...DISPOSABLE_DOMAINS,
+          ...(process.env.SCREENING_DISPOSABLE_DOMAINS ?? "")
+            .split(",")
+            .map((domain) => domain.trim().toLowerCase())
+            .filter(Boolean),
+        ],
+});
+
+/**
+ * What a screening rule gets to look at.
+ * @typedef {Object} ScreeningContext
+ * @property {Omit<BookingInput, "holdToken">} data - The booking request.
+ * @property {unknown} expertId - The expert being booked.
+ * @property {string[]} phoneKeys - The guest's normalised phone and WhatsApp numbers.
+ * @property {string} problemHash - Hash of the normalised problem text.
+ * @property {ScreeningConfig} config - The thresholds.
+ * @property {mongoose.ClientSession} session - The booking's transaction.
+ */
+export interface ScreeningContext {
+  data: Omit<BookingInput, "holdToken">;
+  expertId: unknown;
+  phoneKeys: string[];
+  problemHash: string;
+  config: ScreeningConfig;
+  session: mongoose.ClientSession;
+}
+
+/**
+ * A check run on every new booking.
+ * @typedef {Object} ScreeningRule
+ * @property {string} name - Identifies the rule.
+ * @property {function(ScreeningContext): Promise<string | null>} check - Why the booking looks suspicious, or null.
+ */
+export interface ScreeningRule {
+  name: string;
+  check: (context: ScreeningContext) => Promise<string | null>;
+}
+
+const hoursAgo = (hours: number) =>
+  new Date(Date.now() - hours * 60 * 60 * 1000);
+
+/**
+ * The rules every new booking is screened with. A booking matching any of them is held.
+ * @type {ScreeningRule[]}
+ */
+export const SCREENING_RULES: ScreeningRule[] = [
+  {
+    name: "maxActivePerExpert",
+    check: async ({ data, expertId, phoneKeys, config, session }) => {
+      if (!config.maxActivePerExpert) return null;
+      const active = await BookingSchema.countDocuments({
+        expertId,
+        status: { $in: ACTIVE_STATUSES },
+        $or: [
+          { guestEmail: data.guestEmail },
+          { "screening.phoneKeys": { $in: phoneKeys } },
+        ],
+      })
+        .collation({ locale: "en", strength: 2 }) // emails in any casing
+        .session(session);
+      return active >= config.maxActivePerExpert
+        ? `Guest already has ${active} active bookings with this expert`
+        : null;
+    },
+  },
+  {
+    name: "duplicateProblem",
+    check: async ({ problemHash, config, session }) => {
+      if (!config.duplicateProblemHours) return null;
+      const duplicate = await BookingSchema.exists({
+        "screening.problemHash": problemHash,
+        createdAt: { $gte: hoursAgo(config.duplicateProblemHours) },
+      }).session(session);
+      return duplicate
+        ? `Same problem text as another booking in the last ${config.duplicateProblemHours} hours`
+        : null;
+    },
+  },
+  {
+    name: "disposableEmail",
+    check: async ({ data, config }) => {
+      const domain = data.guestEmail.split("@").pop().toLowerCase();
+      const disposable = config.disposableDomains.some(
+        (blocked) => domain === blocked || domain.endsWith(`.${blocked}`)
+      );
+      return disposable ? `Disposable email domain ${domain}` : null;
+    },
+  },
+  {
+    name: "phoneThrottle",
+    check: async ({ phoneKeys, config, session }) => {
+      if (!config.maxBookingsPerPhonePerDay) return null;
+      const recent = await BookingSchema.countDocuments({
+        "screening.phoneKeys": { $in: phoneKeys },
+        createdAt: { $gte: hoursAgo(24) },
+      }).session(session);
+      return recent >= config.maxBookingsPerPhonePerDay
+        ? `${recent} bookings from this phone number in the last 24 hours`
+        : null;
+    },
+  },
+];
+
+// Ignores case, spacing and punctuation, so trivially edited copies still match
+const hashProblem = (problem: string) =>
+  crypto
+    .createHash("sha256")
+    .update(
+      problem
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim()
+    )
+    .digest("hex");
+
+/**
+ * Screens a new booking with every rule, inside the booking's transaction.
+ * @param {Omit<BookingInput, "holdToken">} data - The booking request.
+ * @param {unknown} expertId - The expert being booked.
+ * @param {mongoose.ClientSession} session - The transaction to run in.
+ * @returns {Promise<IBookingScreening>} The screening to store on the booking; held if any rule matched.
+ */
+export const screenBooking = async (
+  data: Omit<BookingInput, "holdToken">,
+  expertId: unknown,
+  session: mongoose.ClientSession
+): Promise<IBookingScreening> => {
+  const phoneKeys = [
+    ...new Set([data.guestPhone, data.guestWhatsapp].map(normalizePhone)),
+  ].filter(Boolean);
+  const context: ScreeningContext = {
+    data,
+    expertId,
+    phoneKeys,
+    problemHash: hashProblem(data.guestProblem),
+    config: getScreeningConfig(),
+    session,
+  };
+
+  const reasons: string[] = [];
+  for (const rule of SCREENING_RULES) {
+    const reason = await rule.check(context);
+    if (reason) reasons.push(reason);
+  }
+  return {
+    status: reasons.length > 0 ? ScreeningStatus.HELD : ScreeningStatus.CLEAR,
+    reasons,
+    phoneKeys,
+    problemHash: context.problemHash,
+  };
+};
+
+/**
+ * Releases a held booking after an admin found it legitimate, so it can be confirmed.
+ * @param {IBooking} booking - The held booking.
+ * @param {string} adminId - The admin releasing it.
+ * @returns {Promise<IBooking>} The released booking.
+ * @throws {ScreeningError} When the booking is not held.
+ */
+export const releaseHeldBooking = async (
+  booking: IBooking,
+  adminId: string
+): Promise<IBooking> => {
+  const released = await BookingSchema.findOneAndUpdate(
+    { _id: booking._id, "screening.status": ScreeningStatus.HELD },
+    {
+      "screening.status": ScreeningStatus.RELEASED,
+      "screening.reviewedBy": adminId,
+      "screening.reviewedAt": new Date(),
+    },
+    { new: true }
+  );
+  if (!released) {
+    throw new ScreeningError("Booking is not held for review", 409);
+  }
+  return released;
+};
@@ -0,0 +1,208 @@
+import mongoose from "mongoose";
+import { z } from "zod";
+import { BookingSchema, IBooking, Status } from "../models/BookingModel";
+import {
+  BookingSeries,
+  IBookingSeries,
+  SERIES_INTERVAL_DAYS,
+  SeriesStatus,
+} from "../models/BookingSeriesModel";
+import { DateModel, IDate } from "../models/DateModel";
+import { ISlot, Slot } from "../models/SlotModel";
+import { SlotHold } from "../models/SlotHoldModel";
+import { BookingSeriesSchemaZod } from "../schemas/BookingSchema";
+import {
+  bookSlot,
+  BookingTransitionError,
+  cancelBookingAsGuest,
+  checkSlotOnDate,
+  ReservationError,
+  reserveHeldSlot,
+  withBookingTransaction,
+} from "./BookingService";
+import { addDays } from "./ScheduleService";
+
+export type BookingSeriesInput = z.infer<typeof BookingSeriesSchemaZod>;
+
+// Statuses of sessions that are still going ahead
+const ACTIVE_STATUSES = [Status.PENDING, Status.CONFIRMED, Status.RESCHEDULED];
+
+/**
+ * Finds the slot a later session of a series takes: the expert's slot of the same plan
+ * and timing on the given day, with a seat that is neither booked nor held.
+ * @param {ISlot} first - The slot of the series' first session.
+ * @param {string} day - The session's day in "DD/MM/YYYY" format.
+ * @param {mongoose.ClientSession} session - The transaction to run in.
+ * @returns {Promise<{ slot: ISlot, date: IDate } | string>} The slot and date, or why there is none.
+ */
+const findSessionSlot = async (
+  first: ISlot,
+  day: string,
+  session: mongoose.ClientSession
+): Promise<{ slot: ISlot; date: IDate } | string> => {
+  const dates = await DateModel.find({
+    expertId: first.expertId,
+    date: day,
+  }).session(session);
+
+  let reason = `no ${first.timing} slot on this day`;
+  for (const date of dates) {
+    const slots = await Slot.find({
+      _id: { $in: date.slotsId },
+      planId: first.planId,
+      timing: first.timing,
+    }).session(session);
+
+    for (const slot of slots) {
+      try {
+        checkSlotOnDate(slot, date);
+      } catch (error) {
+        if (!(error instanceof ReservationError)) throw error;
+        reason = error.message;
+        continue;
+      }
+      const held = await SlotHold.countDocuments({
+        slotId: slot._id,
+        expiresAt: { $gt: new Date() },
+      }).session(session);
+      if (slot.bookedSeats + held >= slot.capacity) {
+        reason = "Slot is currently held by someone else";
+        continue;
+      }
+      return { slot, date };
+    }
+  }
+  return reason;
+};
+
+/**
+ * Books a series of sessions at the same time every week or two weeks.
+ *
+ * The first session is booked like a single booking (it needs a hold, and gets any
+ * uploaded voice note and attachments). Every later session must fall on a date of the
+ * expert with a free slot of the same plan and timing. All sessions are checked before
+ * anything is booked, and either all of them are booked or none is.
+ * @param {BookingSeriesInput} data - The validated series request.
+ * @param {string} [guestId] - The logged-in guest making the booking.
+ * @returns {Promise<{ series: IBookingSeries, bookings: IBooking[] }>} The series and its bookings, in order.
+ * @throws {ReservationError} When any of the sessions cannot be booked.
+ */
+export const reserveSeries = async (
+  { interval, occurrences, ...data }: BookingSeriesInput,
+  guestId?: string
+): Promise<{ series: IBookingSeries; bookings: IBooking[] }> => {
+  if (!mongoose.isValidObjectId(data.dateId)) {
+    throw new ReservationError("Invalid Date ID");
+  }
+
+  return withBookingTransaction(async (session) => {
+    const seriesId = new mongoose.Types.ObjectId();
+    const first = await reserveHeldSlot(data, session, {
+      guestId,
+      set: { seriesId, seriesIndex: 0 },
+    });
+    const firstSlot = await Slot.findById(first.slotId).session(session);
+    const firstDate = await DateModel.findById(first.dateId).session(session);
+
+    const sessions: { slot: ISlot; date: IDate }[] = [];
+    const conflicts: string[] = [];
+    for (let index = 1; index < occurrences; index++) {
+      const day = addDays(
+        firstDate.date,
+        index * SERIES_INTERVAL_DAYS[interval]
+      );
+      const found = await findSessionSlot(firstSlot, day, session);
+      if (typeof found === "string") {
+        conflicts.push(`${day}: ${found}`);
+      } else {
+        sessions.push(found);
+      }
+    }
+    if (conflicts.length > 0) {
+      throw new ReservationError(
+        `These sessions cannot be booked: ${conflicts.join("; ")}`,
+        409
+      );
+    }
+
+    // Voice notes and attachments stay with the first session. The series is
+    // screened and its intake answers validated once, and the later sessions
+    // share the outcome, so they do not count against each other
+    const {
+      guestVoiceNote,
+      guestAttachments,
+      holdToken,
+      intakeAnswers,
+      ...details
+    } = data;
+    const { screening, intakeAnswers: answers } = first.toObject();
+    const bookings = [first];
+    for (const [offset, { slot, date }] of sessions.entries()) {
+      bookings.push(
+        await bookSlot(details, slot, date, session, {
+          guestId,
+          set: {
+            seriesId,
+            seriesIndex: offset + 1,
+            screening,
+            intakeAnswers: answers,
+          },
+        })
+      );
+    }
+
+    const [series] = await BookingSeries.create(
+      [
+        {
+          _id: seriesId,
+          expertId: first.expertId,
+          planId: first.planId,
+          guestId: first.guestId,
+          guestEmail: first.guestEmail,
+          interval,
+          occurrences,
+          timing: firstSlot.timing,
+        },
+      ],
+      { session }
+    );
+    return { series, bookings };
+  });
+};
+
+/**
+ * Cancels every session of a series that has not started yet, on behalf of its guest.
+ * Each session is cancelled under the plan's cancellation policy, like a single booking.
+ * @param {IBookingSeries} series - The series to cancel.
+ * @param {string} [reason] - Why the guest is cancelling.
+ * @returns {Promise<IBooking[]>} The cancelled bookings, including any `cancellationFee`.
+ * @throws {BookingTransitionError} When the series was already cancelled.
+ */
+export const cancelSeriesAsGuest = async (
+  series: IBookingSeries,
+  reason?: string
+): Promise<IBooking[]> => {
+  const claimed = await BookingSeries.updateOne(
+    { _id: series._id, status: SeriesStatus.ACTIVE },
+    { status: SeriesStatus.CANCELLED, cancelledAt: new Date() }
+  );
+  if (claimed.modifiedCount !== 1) {
+    throw new BookingTransitionError("Series is already cancelled");
+  }
+
+  const bookings = await BookingSchema.find({
+    seriesId: series._id,
+    status: { $in: ACTIVE_STATUSES },
+  }).sort({ seriesIndex: 1 });
+
+  const cancelled: IBooking[] = [];
+  for (const booking of bookings) {
+    try {
+      cancelled.push(await cancelBookingAsGuest(booking, reason));
+    } catch (error) {
+      // Sessions that have started (or changed meanwhile) are left as they are
+      if (!(error instanceof BookingTransitionError)) throw error;
+    }
+  }
+  return cancelled;
+};
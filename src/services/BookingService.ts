@@ -0,0 +1,665 @@
+import mongoose from "mongoose";
+import { z } from "zod";
+import {
+  BookingSchema,
+  generateBookingReference,
+  IBooking,
+  IIntakeAnswer,
+  IStatusChange,
+  ScreeningStatus,
+  Status,
+} from "../models/BookingModel";
+import { Availability, DateModel, IDate } from "../models/DateModel";
+import { IIntakeQuestion, Plan } from "../models/PlanModel";
+import {
+  HAS_FREE_SEAT,
+  ISlot,
+  Slot,
+  SLOT_AVAILABLE_PATTERN,
+  SlotAvailability,
+} from "../models/SlotModel";
+import { SlotHold } from "../models/SlotHoldModel";
+import { BookingSchemaZod } from "../schemas/BookingSchema";
+import { buildIntakeAnswersSchema } from "../schemas/IntakeSchema";
+import { Role } from "../middleware/auth";
+import { hashToken } from "./TokenService";
+import { notifyWaitlist } from "./WaitlistService";
+import { WaitlistEntry, WaitlistStatus } from "../models/WaitlistEntryModel";
+import { MediaKind } from "../models/MediaFileModel";
+import { Guest } from "../models/GuestModel";
+import { attachMediaFiles } from "./MediaService";
+import { isKycVerified, meetsKycRequirement } from "./KycService";
+import { publishSessionSummary } from "./SessionNoteService";
+import { screenBooking } from "./BookingScreeningService";
+import { getSlotStart } from "./ScheduleService";
+
+export type BookingInput = z.infer<typeof BookingSchemaZod>;
+
+/**
+ * Who is changing a booking.
+ * @typedef {Object} BookingActor
+ * @property {string} [id] - ID of the admin or expert (absent for guests).
+ * @property {Role} role - The actor's role.
+ */
+export interface BookingActor {
+  id?: string;
+  role: Role;
+}
+
+const STAFF = [Role.ADMIN, Role.EXPERT];
+// Transitions out of a booking that is going ahead (confirmed or moved to a new slot)
+const ACTIVE_TRANSITIONS = {
+  [Status.COMPLETED]: STAFF,
+  [Status.CANCELLED]: [...STAFF, Role.GUEST],
+  [Status.NO_SHOW]: STAFF,
+  [Status.RESCHEDULED]: STAFF,
+};
+
+/**
+ * The booking state machine: for each status, the statuses it may move to
+ * and the roles allowed to make that move. Statuses without entries are final.
+ * @type {Record<Status, Partial<Record<Status, Role[]>>>}
+ */
+export const BOOKING_TRANSITIONS: Record<
+  Status,
+  Partial<Record<Status, Role[]>>
+> = {
+  [Status.PENDING]: {
+    [Status.CONFIRMED]: STAFF,
+    [Status.CANCELLED]: [...STAFF, Role.GUEST],
+  },
+  [Status.CONFIRMED]: ACTIVE_TRANSITIONS,
+  [Status.RESCHEDULED]: ACTIVE_TRANSITIONS,
+  [Status.COMPLETED]: {},
+  [Status.CANCELLED]: {},
+  [Status.NO_SHOW]: {},
+};
+
+/**
+ * Error raised when a booking cannot change status.
+ * @class BookingTransitionError
+ * @extends {Error}
+ * @property {number} status - The HTTP status to respond with.
+ */
+export class BookingTransitionError extends Error {
+  constructor(message: string, public status = 409) {
+    super(message);
+  }
+}
+
+/**
+ * Error raised when a slot cannot be reserved.
+ * @class ReservationError
+ * @extends {Error}
+ * @property {number} status - The HTTP status to respond with.
+ */
+export class ReservationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Checks that a slot can currently be booked on a date: the slot must be one of the
+ * date's slots, still available and not started yet, and the date must be open for bookings.
+ * @param {ISlot} slot - The slot to book.
+ * @param {IDate} date - The date to book it on.
+ * @throws {ReservationError} When the slot cannot be booked on that date.
+ */
+export const checkSlotOnDate = (slot: ISlot, date: IDate): void => {
+  if (String(date.expertId) !== String(slot.expertId)) {
+    throw new ReservationError("Date does not belong to this expert");
+  }
+  if (!date.slotsId.some((id) => String(id) === String(slot._id))) {
+    throw new ReservationError("Slot does not belong to this date");
+  }
+  if (date.availability !== Availability.available) {
+    throw new ReservationError("Date is not available for booking", 409);
+  }
+  if (!SLOT_AVAILABLE_PATTERN.test(slot.availability)) {
+    throw new ReservationError("Slot is already booked", 409);
+  }
+  if (slot.startsAt && slot.startsAt.getTime() <= Date.now()) {
+    throw new ReservationError("Slot has already started", 409);
+  }
+};
+
+/**
+ * Takes a seat on a slot. The slot is marked as booked once its last seat is taken, and
+ * its date as booked once none of its slots is left.
+ * Only succeeds while a seat is free, so concurrent claims cannot overbook the slot.
+ * @param {unknown} slotId - The slot to claim.
+ * @param {unknown} dateId - The date it is booked on.
+ * @param {mongoose.ClientSession} session - The transaction to run in.
+ * @returns {Promise<void>}
+ * @throws {ReservationError} When the slot is no longer available.
+ */
+const claimSlot = async (
+  slotId: unknown,
+  dateId: unknown,
+  session: mongoose.ClientSession
+): Promise<void> => {
+  const claimed = await Slot.findOneAndUpdate(
+    { _id: slotId, availability: SLOT_AVAILABLE_PATTERN, ...HAS_FREE_SEAT },
+    { $inc: { bookedSeats: 1 } },
+    { new: true, session }
+  );
+  if (!claimed) {
+    throw new ReservationError("Slot is already booked", 409);
+  }
+  if (claimed.bookedSeats < claimed.capacity) return;
+
+  await Slot.updateOne(
+    { _id: claimed._id },
+    { availability: SlotAvailability.BOOKED },
+    { session }
+  );
+
+  const date = await DateModel.findById(dateId).session(session);
+  if (!date) return;
+  const remaining = await Slot.countDocuments({
+    _id: { $in: date.slotsId },
+    availability: SLOT_AVAILABLE_PATTERN,
+  }).session(session);
+  if (remaining === 0) {
+    await DateModel.updateOne(
+      { _id: date._id },
+      { availability: Availability.booked },
+      { session }
+    );
+  }
+};
+
+// Bookings made while logged out still show up in the guest's history
+const findGuestIdByEmail = async (email: string) =>
+  (await Guest.findOne({ email: email.trim().toLowerCase() }, "_id"))?._id;
+
+/**
+ * Takes a seat on a slot and creates a pending booking for it, inside the caller's
+ * transaction. The slot must already have been checked with `checkSlotOnDate`.
+ * @param {Omit<BookingInput, "holdToken">} data - The guest's details.
+ * @param {ISlot} slot - The slot to book.
+ * @param {IDate} date - The date to book it on.
+ * @param {mongoose.ClientSession} session - The transaction to run in.
+ * @param {Object} [options]
+ * @param {string} [options.guestId] - The logged-in guest making the booking.
+ * @param {Record<string, unknown>} [options.set] - Other fields to store on the booking.
+ * @returns {Promise<IBooking>} The created booking.
+ * @throws {ReservationError} When no seat is left.
+ */
+export const bookSlot = async (
+  data: Omit<BookingInput, "holdToken">,
+  slot: ISlot,
+  date: IDate,
+  session: mongoose.ClientSession,
+  { guestId, set }: { guestId?: string; set?: Record<string, unknown> } = {}
+): Promise<IBooking> => {
+  await claimSlot(slot._id, date._id, session);
+
+  const initialStatus: IStatusChange = {
+    to: Status.PENDING,
+    changedAt: new Date(),
+    changedByRole: Role.GUEST,
+  };
+  const [booking] = await BookingSchema.create(
+    [
+      {
+        ...data,
+        dateId: date._id,
+        slotId: slot._id,
+        planId: slot.planId,
+        guestId: guestId ?? (await findGuestIdByEmail(data.guestEmail)),
+        guestKYC: await isKycVerified(data.guestEmail, data.guestPhone),
+        status: Status.PENDING,
+        statusHistory: [initialStatus],
+        ...set,
+      },
+    ],
+    { session }
+  );
+  return booking;
+};
+
+/**
+ * Validates a booking's answers against its plan's intake questionnaire.
+ * @param {IIntakeQuestion[]} questions - The plan's intake questions.
+ * @param {Record<string, unknown>} [answers] - The answers sent with the booking.
+ * @returns {IIntakeAnswer[]} The answers to store, in the plan's order.
+ * @throws {z.ZodError} When an answer is missing, invalid or not asked for.
+ */
+const toIntakeAnswers = (
+  questions: IIntakeQuestion[],
+  answers: Record<string, unknown> = {}
+): IIntakeAnswer[] => {
+  const parsed = buildIntakeAnswersSchema(questions).parse(answers, {
+    path: ["intakeAnswers"],
+  });
+  return questions
+    .filter(({ key }) => parsed[key] !== undefined)
+    .map(({ key, label }) => ({ key, label, value: parsed[key] }));
+};
+
+/**
+ * Validates a held slot and books it, inside the caller's transaction. See `reserveSlot`.
+ * @param {BookingInput} data - The validated booking request.
+ * @param {mongoose.ClientSession} session - The transaction to run in.
+ * @param {Object} [options]
+ * @param {string} [options.guestId] - The logged-in guest making the booking.
+ * @param {Record<string, unknown>} [options.set] - Other fields to store on the booking.
+ * @returns {Promise<IBooking>} The created booking.
+ * @throws {ReservationError} When the slot cannot be booked.
+ */
+export const reserveHeldSlot = async (
+  { holdToken, intakeAnswers, ...data }: BookingInput,
+  session: mongoose.ClientSession,
+  { guestId, set }: { guestId?: string; set?: Record<string, unknown> } = {}
+): Promise<IBooking> => {
+  const slot = await Slot.findById(data.slotId).session(session);
+  if (!slot) {
+    throw new ReservationError("Slot not found", 404);
+  }
+  if (String(slot.expertId) !== data.expertId) {
+    throw new ReservationError("Slot does not belong to this expert");
+  }
+  if (data.planId && String(slot.planId) !== data.planId) {
+    throw new ReservationError("Slot does not belong to this plan");
+  }
+
+  const plan = await Plan.findById(slot.planId).session(session);
+  if (!plan || String(plan.expertId) !== data.expertId) {
+    throw new ReservationError("Slot's plan does not belong to this expert");
+  }
+  const answers = toIntakeAnswers(plan.intakeQuestions ?? [], intakeAnswers);
+
+  const date = await DateModel.findById(data.dateId).session(session);
+  if (!date) {
+    throw new ReservationError("Date not found", 404);
+  }
+  checkSlotOnDate(slot, date);
+
+  // The guest must hold the slot; the hold is used up by the booking
+  const hold = await SlotHold.findOneAndDelete(
+    {
+      tokenHash: hashToken(holdToken),
+      slotId: slot._id,
+      dateId: date._id,
+      expiresAt: { $gt: new Date() },
+    },
+    { session }
+  );
+  if (!hold) {
+    throw new ReservationError(
+      "A valid hold on this slot is required, or it has expired",
+      409
+    );
+  }
+
+  // Suspicious bookings are still made, but held until an admin has looked at them
+  const screening = await screenBooking(data, slot.expertId, session);
+  const booking = await bookSlot(data, slot, date, session, {
+    guestId,
+    set: { screening, intakeAnswers: answers, ...set },
+  });
+
+  const voiceNotes = data.guestVoiceNote ? [data.guestVoiceNote] : [];
+  if (
+    !(await attachMediaFiles(
+      voiceNotes,
+      MediaKind.VOICE_NOTE,
+      { bookingId: booking._id },
+      session
+    )) ||
+    !(await attachMediaFiles(
+      data.guestAttachments ?? [],
+      MediaKind.ATTACHMENT,
+      { bookingId: booking._id },
+      session
+    ))
+  ) {
+    throw new ReservationError(
+      "Uploaded file not found or already used by another booking"
+    );
+  }
+
+  // A guest booking a slot offered from the waitlist has claimed the offer
+  await WaitlistEntry.updateOne(
+    {
+      "offer.tokenHash": hashToken(holdToken),
+      status: WaitlistStatus.OFFERED,
+    },
+    { status: WaitlistStatus.CLAIMED, bookingId: booking._id },
+    { session }
+  );
+
+  return booking;
+};
+
+/**
+ * Runs a booking transaction, retrying it when a generated booking reference collides.
+ * @param {Function} book - Creates the booking(s) inside the given transaction.
+ * @returns {Promise<T>} What `book` returned.
+ */
+export const withBookingTransaction = async <T>(
+  book: (session: mongoose.ClientSession) => Promise<T>
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await mongoose.connection.transaction(book);
+    } catch (error) {
+      // References are random; on the rare collision, retry with new ones
+      if (attempt < 3 && error?.code === 11000 && error.keyPattern?.reference) {
+        continue;
+      }
+      throw error;
+    }
+  }
+};
+
+/**
+ * Reserves a slot and creates the booking for it in a single transaction.
+ *
+ * The slot must belong to the date, the expert and (when given) the plan, the date must
+ * be open for bookings, the slot must still be available and the guest must present an
+ * unexpired hold on it (which is used up). Uploaded voice notes and attachments are
+ * attached to the booking, and cannot be reused by another one. The slot is claimed
+ * with a conditional update, so of two concurrent requests only one succeeds. When the
+ * date has no available slot left it is marked as booked.
+ *
+ * The booking belongs to the logged-in guest, or else to the guest account with its email.
+ * Bookings matching a spam or duplicate screening rule are held for admin review.
+ *
+ * Transactions need MongoDB to run as a replica set (Atlas always does).
+ * @param {BookingInput} data - The validated booking request.
+ * @param {string} [guestId] - The logged-in guest making the booking.
+ * @returns {Promise<IBooking>} The created booking.
+ * @throws {ReservationError} When the slot cannot be booked.
+ */
+export const reserveSlot = async (
+  data: BookingInput,
+  guestId?: string
+): Promise<IBooking> => {
+  if (!mongoose.isValidObjectId(data.dateId)) {
+    throw new ReservationError("Invalid Date ID");
+  }
+
+  return withBookingTransaction((session) =>
+    reserveHeldSlot(data, session, { guestId })
+  );
+};
+
+/**
+ * Gives bookings made before references existed a reference of their own.
+ * Safe to run more than once; later runs only pick up bookings still without one.
+ * @returns {Promise<number>} How many bookings got a reference.
+ */
+export const backfillBookingReferences = async (): Promise<number> => {
+  let count = 0;
+  const cursor = BookingSchema.find({ reference: null }, "_id").lean().cursor();
+  for await (const booking of cursor) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { modifiedCount } = await BookingSchema.updateOne(
+          { _id: booking._id, reference: null },
+          { reference: generateBookingReference() }
+        );
+        count += modifiedCount;
+        break;
+      } catch (error) {
+        // References are random; on the rare collision, draw another
+        if (attempt < 3 && error?.code === 11000) continue;
+        throw error;
+      }
+    }
+  }
+  return count;
+};
+
+/**
+ * Finds a booking by its reference code or, for older links, its ID.
+ * @param {Object} identifiers
+ * @param {string} [identifiers.reference] - The booking reference (e.g. "TM-7K3QX").
+ * @param {string} [identifiers.bookingId] - The booking's ObjectId.
+ * @returns The booking query.
+ */
+export const findBookingByReferenceOrId = ({
+  reference,
+  bookingId,
+}: {
+  reference?: string;
+  bookingId?: string;
+}) =>
+  reference
+    ? BookingSchema.findOne({ reference })
+    : BookingSchema.findById(bookingId);
+
+/**
+ * Moves a booking to a new status, recording the change in its status history.
+ * The update only applies if the booking still has the status it was read with,
+ * so two concurrent transitions cannot both succeed. Cancelling releases the
+ * booking's slot, and rescheduling to another slot claims the new slot and releases
+ * the old one, in the same transaction. Released slots are then offered to the waitlist.
+ * Bookings of plans that require KYC can only be confirmed once the guest is verified,
+ * and bookings held by spam screening once an admin has released them.
+ * Completing a booking publishes its session summary to the guest, as a best effort.
+ * @param {IBooking} booking - The booking to change.
+ * @param {Status} to - The new status.
+ * @param {BookingActor} actor - Who is making the change.
+ * @param {Object} [options]
+ * @param {string} [options.reason] - Why the status is changing.
+ * @param {Record<string, unknown>} [options.set] - Other fields to update along with the status.
+ * @returns {Promise<IBooking>} The updated booking.
+ * @throws {BookingTransitionError} When the transition is not allowed.
+ * @throws {ReservationError} When the slot rescheduled to cannot be booked.
+ */
+export const transitionBooking = async (
+  booking: IBooking,
+  to: Status,
+  actor: BookingActor,
+  options: { reason?: string; set?: Record<string, unknown> } = {}
+): Promise<IBooking> => {
+  const from = booking.status;
+  const allowedRoles = BOOKING_TRANSITIONS[from]?.[to];
+  if (!allowedRoles) {
+    throw new BookingTransitionError(
+      `Cannot change a ${from} booking to ${to}`
+    );
+  }
+  if (!allowedRoles.includes(actor.role)) {
+    throw new BookingTransitionError(
+      `Only ${allowedRoles.join(" or ")} may change a ${from} booking to ${to}`,
+      403
+    );
+  }
+  if (
+    to === Status.CONFIRMED &&
+    booking.screening?.status === ScreeningStatus.HELD
+  ) {
+    throw new BookingTransitionError(
+      "This booking is held for review and cannot be confirmed until an admin releases it"
+    );
+  }
+  if (to === Status.CONFIRMED && !(await meetsKycRequirement(booking))) {
+    throw new BookingTransitionError(
+      "This plan requires the guest's identity (KYC) to be verified before the booking is confirmed"
+    );
+  }
+
+  const change: IStatusChange = {
+    from,
+    to,
+    changedAt: new Date(),
+    changedBy: actor.id,
+    changedByRole: actor.role,
+    reason: options.reason,
+  };
+  const newSlotId = options.set?.slotId;
+  const movesSlot =
+    to === Status.RESCHEDULED &&
+    newSlotId !== undefined &&
+    String(newSlotId) !== String(booking.slotId);
+
+  let releasedSlotId: unknown;
+  const updatedBooking = await mongoose.connection.transaction(
+    async (session) => {
+      releasedSlotId = undefined; // the callback is retried on transient errors
+      if (movesSlot) {
+        const newDateId = options.set?.dateId ?? booking.dateId;
+        const [slot, date] = await Promise.all([
+          Slot.findById(newSlotId).session(session),
+          DateModel.findById(newDateId).session(session),
+        ]);
+        if (!slot || !date) {
+          throw new ReservationError("Slot or date not found", 404);
+        }
+        if (String(slot.expertId) !== String(booking.expertId)) {
+          throw new ReservationError("Slot does not belong to this expert");
+        }
+        checkSlotOnDate(slot, date);
+        await claimSlot(slot._id, date._id, session);
+      }
+
+      const updated = await BookingSchema.findOneAndUpdate(
+        { _id: booking._id, status: from },
+        {
+          $set: { ...options.set, status: to },
+          $push: { statusHistory: change },
+        },
+        { new: true, session }
+      );
+      if (!updated) {
+        throw new BookingTransitionError(
+          "Booking status changed in the meantime, please retry"
+        );
+      }
+
+      // `booking` still holds the slot from before a reschedule
+      const releasing =
+        to === Status.CANCELLED ? updated : movesSlot && booking;
+      if (releasing && (await releaseSlot(releasing, session))) {
+        releasedSlotId = releasing.slotId;
+      }
+
+      return updated;
+    }
+  );
+
+  if (releasedSlotId) {
+    notifyWaitlist([releasedSlotId]);
+  }
+  if (to === Status.COMPLETED) {
+    // The booking is completed either way, so a failure here must not fail the request
+    try {
+      await publishSessionSummary(updatedBooking);
+    } catch (error) {
+      console.error("Failed to publish session summary:", error);
+    }
+  }
+  return updatedBooking;
+};
+
+/**
+ * Gives a booking's seat back, making a fully booked slot bookable again and
+ * reopening its date if it was fully booked.
+ * @param {IBooking} booking - The booking giving up its seat.
+ * @param {mongoose.ClientSession} session - The transaction to run in.
+ * @returns {Promise<boolean>} Whether a seat became bookable again.
+ */
+const releaseSlot = async (
+  booking: IBooking,
+  session: mongoose.ClientSession
+): Promise<boolean> => {
+  // Slots booked before seat counts existed have no `bookedSeats` but one booking
+  const released = await Slot.findOneAndUpdate(
+    {
+      _id: booking.slotId,
+      $or: [
+        { bookedSeats: { $gt: 0 } },
+        { availability: SlotAvailability.BOOKED },
+      ],
+    },
+    [
+      {
+        $set: {
+          bookedSeats: {
+            $max: [0, { $subtract: [{ $ifNull: ["$bookedSeats", 1] }, 1] }],
+          },
+          availability: {
+            $cond: [
+              { $eq: ["$availability", SlotAvailability.BOOKED] },
+              SlotAvailability.AVAILABLE,
+              "$availability",
+            ],
+          },
+        },
+      },
+    ],
+    { new: true, session }
+  );
+  if (!released || !SLOT_AVAILABLE_PATTERN.test(released.availability)) {
+    return false;
+  }
+
+  await DateModel.updateOne(
+    { _id: booking.dateId, availability: Availability.booked },
+    { availability: Availability.available },
+    { session }
+  );
+  return true;
+};
+
+/**
+ * Cancels a booking on behalf of its guest, applying the plan's cancellation policy.
+ * Cancelling within the plan's free window is free; later cancellations are charged
+ * the plan's late-cancel fee. Bookings that have started cannot be cancelled.
+ * @param {IBooking} booking - The booking to cancel.
+ * @param {string} [reason] - Why the guest is cancelling.
+ * @returns {Promise<IBooking>} The cancelled booking, including any `cancellationFee`.
+ * @throws {BookingTransitionError} When the booking cannot be cancelled.
+ */
+export const cancelBookingAsGuest = async (
+  booking: IBooking,
+  reason?: string
+): Promise<IBooking> => {
+  const [slot, date] = await Promise.all([
+    Slot.findById(booking.slotId),
+    DateModel.findById(booking.dateId),
+  ]);
+  if (!slot || !date) {
+    throw new BookingTransitionError("Booking's date or slot no longer exists");
+  }
+
+  const startsAt = await getSlotStart(slot, date);
+  if (!startsAt) {
+    throw new BookingTransitionError(
+      "Booking's date or slot timing is invalid"
+    );
+  }
+  const hoursUntilStart = (startsAt.getTime() - Date.now()) / (60 * 60 * 1000);
+  if (hoursUntilStart <= 0) {
+    throw new BookingTransitionError(
+      "Bookings cannot be cancelled once they have started"
+    );
+  }
+
+  const plan = await Plan.findById(booking.planId || slot.planId);
+  let cancellationFee: IBooking["cancellationFee"];
+  if (
+    plan &&
+    hoursUntilStart < plan.cancellationPolicy.freeCancelHours &&
+    plan.cancellationPolicy.lateCancelFeePercent > 0
+  ) {
+    const percent = plan.cancellationPolicy.lateCancelFeePercent;
+    const price = parseFloat(plan.price);
+    cancellationFee = {
+      percent,
+      amount: isNaN(price) ? undefined : Math.round(price * percent) / 100,
+    };
+  }
+
+  return transitionBooking(
+    booking,
+    Status.CANCELLED,
+    { role: Role.GUEST },
+    { reason, set: cancellationFee ? { cancellationFee } : {} }
+  );
+};
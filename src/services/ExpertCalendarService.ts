@@ -0,0 +1,63 @@
+import { BookingSchema } from "../models/BookingModel";
+import { DateModel } from "../models/DateModel";
+import { Plan } from "../models/PlanModel";
+import { ReschedulingRequest } from "../models/RequestRescheduleModel";
+import { Slot } from "../models/SlotModel";
+
+/**
+ * Queries for one expert's plans, calendar, bookings and reschedule requests, shared by
+ * the routes taking an expert ID and the expert's own /me routes.
+ */
+
+/**
+ * Lists an expert's plans.
+ * @param {unknown} expertId - The expert.
+ */
+export const getExpertPlans = (expertId: unknown) => Plan.find({ expertId });
+
+/**
+ * Lists an expert's dates in chronological order.
+ * @param {unknown} expertId - The expert.
+ * @param {Object} [options]
+ * @param {boolean} [options.withSlots=false] - Whether to include each date's slots, in chronological order.
+ */
+export const getExpertDates = (
+  expertId: unknown,
+  { withSlots = false }: { withSlots?: boolean } = {}
+) => {
+  const query = DateModel.find({ expertId }).sort({ startsAt: 1 });
+  return withSlots
+    ? query.populate({ path: "slotsId", options: { sort: { startsAt: 1 } } })
+    : query;
+};
+
+/**
+ * Lists an expert's slots in chronological order.
+ * @param {unknown} expertId - The expert.
+ */
+export const getExpertSlots = (expertId: unknown) =>
+  Slot.find({ expertId }).sort({ startsAt: 1 });
+
+/**
+ * Lists the bookings assigned to an expert with their date and slot, newest first.
+ * @param {unknown} expertId - The expert.
+ */
+export const getExpertBookings = (expertId: unknown) =>
+  BookingSchema.find({ expertId })
+    .populate("dateId")
+    .populate("slotId")
+    .sort({ createdAt: -1 });
+
+/**
+ * Lists the reschedule requests for an expert's bookings, with the booking and the
+ * requested date and slot.
+ * @param {unknown} expertId - The expert.
+ */
+export const getExpertRescheduleRequests = async (expertId: unknown) => {
+  // Reschedule requests only reference the booking, so go through the expert's bookings
+  const bookingIds = await BookingSchema.find({ expertId }).distinct("_id");
+  return ReschedulingRequest.find({ CurrentBookingId: { $in: bookingIds } })
+    .populate("CurrentBookingId")
+    .populate("RequestedDateId")
+    .populate("RequestedSlotId");
+};
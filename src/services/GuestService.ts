@@ -0,0 +1,325 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { BookingSchema } from "../models/BookingModel";
+import { BookingSeries } from "../models/BookingSeriesModel";
+import { Guest, IGuest } from "../models/GuestModel";
+import { GuestLogin, GuestLoginChannel } from "../models/GuestLoginModel";
+import { Review } from "../models/ReviewModel";
+import { Role } from "../middleware/auth";
+import { normalizePhone } from "./KycService";
+import { sendMail } from "./MailService";
+import { sendSms } from "./SmsService";
+import {
+  generateOpaqueToken,
+  hashToken,
+  issueTokens,
+  revokeAllSessions,
+  TokenPair,
+} from "./TokenService";
+
+// Codes are short, so they expire quickly and allow few attempts
+const LOGIN_TTL_MINUTES = 15;
+const MAX_CODE_ATTEMPTS = 5;
+
+// Where magic links point; the frontend exchanges the token through POST /guest/login/magic
+const magicLinkUrl = (token: string) =>
+  `${process.env.APP_URL || "http://localhost:3000"}/login/magic?token=${token}`;
+
+/**
+ * Error raised when a guest login cannot be completed.
+ * @class GuestLoginError
+ * @extends {Error}
+ */
+export class GuestLoginError extends Error {}
+
+/**
+ * @typedef {Object} GuestIdentity
+ * @property {string} [email] - The guest's email.
+ * @property {string} [phone] - The guest's phone number.
+ */
+export type GuestIdentity = { email: string } | { phone: string };
+
+// Where to send the code, normalised so the same guest always matches
+const resolveDestination = (identity: GuestIdentity) =>
+  "email" in identity
+    ? {
+        channel: GuestLoginChannel.EMAIL,
+        destination: identity.email.trim().toLowerCase(),
+      }
+    : {
+        channel: GuestLoginChannel.PHONE,
+        destination: normalizePhone(identity.phone),
+      };
+
+/**
+ * Sends a one-time login code to an email or phone number. By email a magic link is
+ * sent along with the code. Accounts are created on first login, so this works for
+ * new and returning guests alike.
+ * @param {GuestIdentity} identity - The email or phone to log in with.
+ * @param {boolean} [withMagicLink=true] - Whether to mail a magic link too; codes that
+ * only confirm a new email for an account have none.
+ * @returns {Promise<void>}
+ */
+export const requestGuestLogin = async (
+  identity: GuestIdentity,
+  withMagicLink = true
+): Promise<void> => {
+  const { channel, destination } = resolveDestination(identity);
+  const code = String(crypto.randomInt(0, 1000000)).padStart(6, "0");
+  const linkToken =
+    channel === GuestLoginChannel.EMAIL && withMagicLink
+      ? generateOpaqueToken()
+      : undefined;
+
+  // A new code replaces any earlier one
+  await GuestLogin.deleteMany({ destination, usedAt: { $exists: false } });
+  await GuestLogin.create({
+    channel,
+    destination,
+    codeHash: hashToken(code),
+    linkTokenHash: linkToken && hashToken(linkToken),
+    expiresAt: new Date(Date.now() + LOGIN_TTL_MINUTES * 60 * 1000),
+  });
+
+  if (channel === GuestLoginChannel.EMAIL) {
+    await sendMail({
+      to: destination,
+      subject: "Your login code",
+      text: linkToken
+        ? `Your login code is ${code}, or log in with this link: ${magicLinkUrl(linkToken)}. Both expire in ${LOGIN_TTL_MINUTES} minutes.`
+        : `Your code is ${code}. It expires in ${LOGIN_TTL_MINUTES} minutes.`,
+    });
+  } else {
+    await sendSms({
+      to: destination,
+      text: `Your login code is ${code}. It expires in ${LOGIN_TTL_MINUTES} minutes.`,
+    });
+  }
+};
+
+/**
+ * Links bookings made with a guest's email before they had an account (or while logged out).
+ * @param {IGuest} guest - The guest.
+ * @returns {Promise<number>} How many bookings were linked.
+ */
+export const linkBookingsToGuest = async (guest: IGuest): Promise<number> => {
+  if (!guest.email) return 0;
+  const linked = await BookingSchema.updateMany(
+    { guestEmail: guest.email, guestId: { $exists: false } },
+    { guestId: guest._id }
+  ).collation({ locale: "en", strength: 2 }); // emails in any casing
+  return linked.modifiedCount;
+};
+
+// Logs the guest with a verified email or phone in, creating their account if needed
+const completeLogin = async (
+  channel: GuestLoginChannel,
+  destination: string
+): Promise<{ guest: IGuest; tokens: TokenPair }> => {
+  const field = channel === GuestLoginChannel.EMAIL ? "email" : "phone";
+  const guest = await Guest.findOneAndUpdate(
+    { [field]: destination },
+    { $set: { lastLoginAt: new Date() } },
+    { upsert: true, new: true }
+  );
+  await linkBookingsToGuest(guest);
+
+  return { guest, tokens: await issueTokens(String(guest._id), Role.GUEST) };
+};
+
+// Uses up the code sent to an email or phone, proving the guest can read it
+const consumeCode = async (destination: string, code: string) => {
+  // Count the attempt before checking, so concurrent guesses cannot exceed the limit
+  const login = await GuestLogin.findOneAndUpdate(
+    {
+      destination,
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+      attempts: { $lt: MAX_CODE_ATTEMPTS },
+    },
+    { $inc: { attempts: 1 } },
+    { new: true, sort: { createdAt: -1 } }
+  );
+  const matches =
+    login &&
+    crypto.timingSafeEqual(
+      Buffer.from(login.codeHash),
+      Buffer.from(hashToken(code.trim()))
+    );
+  if (!matches) {
+    throw new GuestLoginError("Invalid or expired code");
+  }
+
+  const used = await GuestLogin.updateOne(
+    { _id: login._id, usedAt: { $exists: false } },
+    { usedAt: new Date() }
+  );
+  if (used.modifiedCount !== 1) {
+    throw new GuestLoginError("Invalid or expired code");
+  }
+};
+
+/**
+ * Completes a login with the code that was sent to the guest.
+ * @param {GuestIdentity} identity - The email or phone the code was sent to.
+ * @param {string} code - The code the guest entered.
+ * @returns {Promise<{ guest: IGuest, tokens: TokenPair }>}
+ * @throws {GuestLoginError} When the code is wrong, expired or has been tried too often.
+ */
+export const verifyGuestCode = async (
+  identity: GuestIdentity,
+  code: string
+): Promise<{ guest: IGuest; tokens: TokenPair }> => {
+  const { channel, destination } = resolveDestination(identity);
+  await consumeCode(destination, code);
+  return completeLogin(channel, destination);
+};
+
+// What an account merged into another passes on, when the other lacks it
+const PROFILE_FIELDS = [
+  "email",
+  "phone",
+  "name",
+  "occupation",
+  "age",
+  "city",
+  "whatsapp",
+  "website",
+] as const;
+
+/**
+ * Adds an email or phone to a logged-in guest's account with the code that was sent to
+ * it, replacing the one the account had. When another account was created by logging
+ * in with it, that account is merged into this one: its bookings, series and reviews
+ * move over, profile fields this account lacks are copied, and it is deleted.
+ * @param {string} guestId - The logged-in guest.
+ * @param {GuestIdentity} identity - The email or phone the code was sent to.
+ * @param {string} code - The code the guest entered.
+ * @returns {Promise<IGuest | null>} The updated account, or null when it no longer exists.
+ * @throws {GuestLoginError} When the code is wrong, expired or has been tried too often.
+ */
+export const addGuestContact = async (
+  guestId: string,
+  identity: GuestIdentity,
+  code: string
+): Promise<IGuest | null> => {
+  const { channel, destination } = resolveDestination(identity);
+  await consumeCode(destination, code);
+  const field = channel === GuestLoginChannel.EMAIL ? "email" : "phone";
+
+  let mergedId: unknown;
+  const guest = await mongoose.connection.transaction(async (session) => {
+    mergedId = undefined; // the callback is retried on transient errors
+    const current = await Guest.findById(guestId).session(session);
+    if (!current) return null;
+    const other = await Guest.findOne({
+      [field]: destination,
+      _id: { $ne: current._id },
+    }).session(session);
+
+    const update: Record<string, unknown> = { [field]: destination };
+    if (other) {
+      mergedId = other._id;
+      for (const key of PROFILE_FIELDS) {
+        if (current[key] == null && other[key] != null) {
+          update[key] = other[key];
+        }
+      }
+      const moved = { guestId: current._id };
+      await BookingSchema.updateMany({ guestId: other._id }, moved, {
+        session,
+      });
+      await BookingSeries.updateMany({ guestId: other._id }, moved, {
+        session,
+      });
+      await Review.updateMany({ guestId: other._id }, moved, { session });
+      // Free its email and phone before they move to this account
+      await Guest.deleteOne({ _id: other._id }, { session });
+    }
+    return Guest.findByIdAndUpdate(
+      current._id,
+      { $set: update },
+      { new: true, session }
+    );
+  });
+  if (!guest) return null;
+
+  if (mergedId) {
+    await revokeAllSessions(String(mergedId), "account-merge");
+  }
+  await linkBookingsToGuest(guest);
+  return guest;
+};
+
+/**
+ * Completes a login with a magic link.
+ * @param {string} token - The token from the link.
+ * @returns {Promise<{ guest: IGuest, tokens: TokenPair }>}
+ * @throws {GuestLoginError} When the link is invalid, expired or was already used.
+ */
+export const verifyMagicLink = async (
+  token: string
+): Promise<{ guest: IGuest; tokens: TokenPair }> => {
+  const login = await GuestLogin.findOneAndUpdate(
+    {
+      linkTokenHash: hashToken(token),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() }
+  );
+  if (!login) {
+    throw new GuestLoginError("Invalid or expired link");
+  }
+
+  return completeLogin(login.channel, login.destination);
+};
+
+/**
+ * Returns booking fields prefilled from a guest's profile. Fields the guest has not
+ * filled in are left out, so the booking request still has to provide them.
+ * @param {string} guestId - The logged-in guest.
+ * @returns {Promise<Record<string, unknown>>}
+ */
+export const getBookingDefaults = async (
+  guestId: string
+): Promise<Record<string, unknown>> => {
+  const guest = await Guest.findById(guestId);
+  if (!guest) return {};
+
+  const defaults = {
+    guestName: guest.name,
+    guestEmail: guest.email,
+    guestPhone: guest.phone,
+    guestOccupation: guest.occupation,
+    guestAge: guest.age,
+    guestCity: guest.city,
+    guestWhatsapp: guest.whatsapp,
+    guestWebsite: guest.website,
+  };
+  return Object.fromEntries(
+    Object.entries(defaults).filter(([, value]) => value != null)
+  );
+};
+
+/**
+ * Tells whether a booking by a logged-in guest uses the email and phone verified on their
+ * account, so only bookings with the account's own contact details are attached to it.
+ * Details the account does not have yet may be anything.
+ * @param {string} guestId - The logged-in guest.
+ * @param {Object} contact - The contact details on the booking.
+ * @param {string} contact.guestEmail - The booking's email.
+ * @param {string} contact.guestPhone - The booking's phone number.
+ * @returns {Promise<boolean>}
+ */
+export const usesGuestContact = async (
+  guestId: string,
+  { guestEmail, guestPhone }: { guestEmail?: string; guestPhone?: string }
+): Promise<boolean> => {
+  const guest = await Guest.findById(guestId, "email phone");
+  if (!guest) return false;
+  return (
+    (!guest.email || guest.email === guestEmail?.trim().toLowerCase()) &&
+    (!guest.phone || guest.phone === normalizePhone(guestPhone ?? ""))
+  );
+};
@@ -0,0 +1,197 @@
+import mongoose from "mongoose";
+import { z } from "zod";
+import { BookingSchema, IBooking } from "../models/BookingModel";
+import {
+  IKycVerification,
+  KycStatus,
+  KycVerification,
+} from "../models/KycVerificationModel";
+import { MediaKind } from "../models/MediaFileModel";
+import { Plan } from "../models/PlanModel";
+import { Slot } from "../models/SlotModel";
+import { KycSubmissionSchemaZod } from "../schemas/KycSchema";
+import { attachMediaFiles } from "./MediaService";
+import { sendMail } from "./MailService";
+
+export type KycSubmission = z.infer<typeof KycSubmissionSchemaZod>;
+
+/**
+ * Error raised when a KYC verification cannot be submitted or reviewed.
+ * @class KycError
+ * @extends {Error}
+ * @property {number} status - HTTP status to answer with.
+ */
+export class KycError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Normalises a phone number so spacing and punctuation do not matter when matching.
+ * @param {string} phone - The phone number as entered.
+ * @returns {string} Digits only, with a leading "+" kept.
+ */
+export const normalizePhone = (phone: string): string =>
+  phone.trim().replace(/(?!^\+)[^\d]/g, "");
+
+// A verification is tied to the email and phone it was submitted with
+const guestFilter = (guestEmail: string, guestPhone: string) => ({
+  guestEmail: guestEmail.trim().toLowerCase(),
+  guestPhone: normalizePhone(guestPhone),
+});
+
+/**
+ * Returns the most recent verification submitted with an email and phone.
+ * @param {string} guestEmail - The guest's email.
+ * @param {string} guestPhone - The guest's phone number.
+ * @returns {Promise<IKycVerification | null>}
+ */
+export const getLatestKyc = (guestEmail: string, guestPhone: string) =>
+  KycVerification.findOne(guestFilter(guestEmail, guestPhone)).sort({
+    createdAt: -1,
+  });
+
+/**
+ * Tells whether a guest's identity has been verified.
+ * @param {string} guestEmail - The guest's email.
+ * @param {string} guestPhone - The guest's phone number.
+ * @returns {Promise<boolean>}
+ */
+export const isKycVerified = async (
+  guestEmail: string,
+  guestPhone: string
+): Promise<boolean> =>
+  (await KycVerification.exists({
+    ...guestFilter(guestEmail, guestPhone),
+    status: KycStatus.APPROVED,
+  })) !== null;
+
+/**
+ * Tells whether a booking may be confirmed as far as KYC goes: either its plan does
+ * not require KYC, or its guest is verified.
+ * @param {IBooking} booking - The booking to confirm.
+ * @returns {Promise<boolean>}
+ */
+export const meetsKycRequirement = async (
+  booking: IBooking
+): Promise<boolean> => {
+  // Bookings made before they carried a plan get it through their slot
+  const planId =
+    booking.planId ?? (await Slot.findById(booking.slotId))?.planId;
+  const plan = planId && (await Plan.findById(planId));
+  if (!plan?.requiresKyc) return true;
+  return isKycVerified(booking.guestEmail, booking.guestPhone);
+};
+
+/**
+ * Submits identity documents for review.
+ * @param {KycSubmission} data - The validated submission.
+ * @returns {Promise<IKycVerification>} The pending verification.
+ * @throws {KycError} When the guest is already verified or waiting for review, or a document is unusable.
+ */
+export const submitKyc = async ({
+  documents,
+  ...data
+}: KycSubmission): Promise<IKycVerification> => {
+  const latest = await getLatestKyc(data.guestEmail, data.guestPhone);
+  if (latest?.status === KycStatus.APPROVED) {
+    throw new KycError("Your identity is already verified", 409);
+  }
+  if (latest?.status === KycStatus.PENDING) {
+    throw new KycError("Your documents are already waiting for review", 409);
+  }
+
+  try {
+    return await mongoose.connection.transaction(async (session) => {
+      const [verification] = await KycVerification.create(
+        [{ ...data, ...guestFilter(data.guestEmail, data.guestPhone) }],
+        { session }
+      );
+      const attached = await attachMediaFiles(
+        documents,
+        MediaKind.KYC_DOCUMENT,
+        { kycVerificationId: verification._id },
+        session
+      );
+      if (!attached) {
+        throw new KycError(
+          "Uploaded document not found or already used by another submission"
+        );
+      }
+      return verification;
+    });
+  } catch (error) {
+    // The unique index on pending submissions also catches two submissions racing
+    if (error?.code === 11000) {
+      throw new KycError("Your documents are already waiting for review", 409);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Approves or rejects a pending verification and lets the guest know, when the mail can
+ * be sent.
+ * Approving also marks the guest's existing bookings as KYC verified.
+ * @param {string} id - The verification to review.
+ * @param {Object} decision
+ * @param {boolean} decision.approve - Whether the documents are accepted.
+ * @param {string} [decision.reason] - Why they were rejected; required when rejecting.
+ * @param {string} adminId - The reviewing admin.
+ * @returns {Promise<IKycVerification>} The reviewed verification.
+ * @throws {KycError} When the verification is not found or was already reviewed.
+ */
+export const reviewKyc = async (
+  id: string,
+  { approve, reason }: { approve: boolean; reason?: string },
+  adminId: string
+): Promise<IKycVerification> => {
+  const reviewed = await KycVerification.findOneAndUpdate(
+    { _id: id, status: KycStatus.PENDING },
+    {
+      status: approve ? KycStatus.APPROVED : KycStatus.REJECTED,
+      reviewedBy: adminId,
+      reviewedAt: new Date(),
+      rejectionReason: approve ? undefined : reason,
+    },
+    { new: true }
+  );
+  if (!reviewed) {
+    const exists = await KycVerification.exists({ _id: id });
+    throw exists
+      ? new KycError("Verification was already reviewed", 409)
+      : new KycError("Verification not found", 404);
+  }
+
+  if (approve) {
+    // Bookings keep the phone as entered, so match it after normalising
+    const bookings = await BookingSchema.find(
+      { guestEmail: reviewed.guestEmail, guestKYC: { $ne: true } },
+      "guestPhone"
+    ).collation({ locale: "en", strength: 2 }); // emails in any casing
+    const ids = bookings
+      .filter((b) => normalizePhone(b.guestPhone) === reviewed.guestPhone)
+      .map((b) => b._id);
+    if (ids.length > 0) {
+      await BookingSchema.updateMany({ _id: { $in: ids } }, { guestKYC: true });
+    }
+  }
+
+  // The review is already saved, so a mail failure must not fail it
+  try {
+    await sendMail({
+      to: reviewed.guestEmail,
+      subject: approve
+        ? "Your identity has been verified"
+        : "Your identity verification was rejected",
+      text: approve
+        ? `Hi ${reviewed.guestName}, your identity documents have been approved.`
+        : `Hi ${reviewed.guestName}, your identity documents could not be accepted: ${reason}. You can submit new documents at any time.`,
+    });
+  } catch (error) {
+    console.error("Failed to send KYC review mail:", error);
+  }
+
+  return reviewed;
+};
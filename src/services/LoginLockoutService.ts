@@ -0,0 +1,65 @@
+import AdminSchema, { IAdmin } from "../models/AdminModel";
+
+// Account lockout after repeated failed logins (wrong password or wrong 2FA code)
+const MAX_FAILED_LOGINS = 5;
+const LOCK_MINUTES = 15;
+
+/**
+ * Checks whether an admin account is currently locked.
+ * @param {IAdmin} admin - The admin trying to log in.
+ * @returns {boolean}
+ */
+export const isLockedOut = (admin: IAdmin): boolean =>
+  !!admin.lockUntil && admin.lockUntil > new Date();
+
+/**
+ * Counts a failed login, locking the account once the limit is reached. The count and
+ * the lock are changed in one update, so concurrent failures cannot lose a count.
+ * @param {IAdmin} admin - The admin that failed to log in.
+ * @returns {Promise<void>}
+ */
+export const recordFailedLogin = async (admin: IAdmin): Promise<void> => {
+  const attempts = { $add: [{ $ifNull: ["$failedLoginAttempts", 0] }, 1] };
+  const reachesLimit = { $gte: [attempts, MAX_FAILED_LOGINS] };
+  const updated = await AdminSchema.findOneAndUpdate(
+    { _id: admin._id },
+    [
+      {
+        $set: {
+          lockUntil: {
+            $cond: [
+              reachesLimit,
+              new Date(Date.now() + LOCK_MINUTES * 60 * 1000),
+              "$lockUntil",
+            ],
+          },
+          failedLoginAttempts: {
+            $cond: [reachesLimit, 0, attempts],
+          },
+        },
+      },
+    ],
+    { new: true, projection: "failedLoginAttempts lockUntil" }
+  );
+  if (updated) {
+    admin.failedLoginAttempts = updated.failedLoginAttempts;
+    admin.lockUntil = updated.lockUntil;
+  }
+};
+
+/**
+ * Clears the failure counter once a login has fully succeeded (after the second factor,
+ * when there is one).
+ * @param {IAdmin} admin - The admin that logged in.
+ * @returns {Promise<void>}
+ */
+export const clearFailedLogins = async (admin: IAdmin): Promise<void> => {
+  if (admin.failedLoginAttempts || admin.lockUntil) {
+    await AdminSchema.updateOne(
+      { _id: admin._id },
+      { $set: { failedLoginAttempts: 0 }, $unset: { lockUntil: 1 } }
+    );
+    admin.failedLoginAttempts = 0;
+    admin.lockUntil = undefined;
+  }
+};
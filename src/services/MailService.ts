@@ -0,0 +1,99 @@
+/**
+ * @module MailService
+ * @description Pluggable outgoing mail. With `MAIL_WEBHOOK_URL` set, messages are posted
+ * to that endpoint (a provider's HTTP API or a relay in front of SMTP). Otherwise they are
+ * logged to the console during development; in production nothing is sent rather than
+ * reset tokens and login codes ending up in the logs.
+ */
+
+/**
+ * @interface MailMessage
+ * @property {string} to - Recipient address.
+ * @property {string} subject - Subject line.
+ * @property {string} text - Plain text body.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * @interface MailTransport
+ * @description Anything that can deliver a `MailMessage` (SMTP, a provider API, ...).
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Transport that prints messages instead of delivering them. Refuses to run in
+ * production, where messages carry live reset tokens and login codes.
+ * @type {MailTransport}
+ */
+export const consoleTransport: MailTransport = {
+  async send(message: MailMessage) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("No mail transport configured; set MAIL_WEBHOOK_URL");
+    }
+    console.log(
+      `📧 Mail to ${message.to}: ${message.subject}\n${message.text}`.magenta
+    );
+  },
+};
+
+/**
+ * Transport that posts each message as JSON (`from`, `to`, `subject`, `text`) to an HTTP endpoint.
+ * @param {string} url - The endpoint.
+ * @param {string} [token] - Sent as a bearer token, if the endpoint needs one.
+ * @returns {MailTransport}
+ */
+export const webhookMailTransport = (
+  url: string,
+  token?: string
+): MailTransport => ({
+  async send(message: MailMessage) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ from: process.env.MAIL_FROM, ...message }),
+    });
+    if (!response.ok) {
+      throw new Error(`Mail webhook answered with status ${response.status}`);
+    }
+  },
+});
+
+let transport: MailTransport = consoleTransport;
+
+/**
+ * Replaces the transport used by `sendMail`.
+ * @param {MailTransport} nextTransport - The transport to use from now on.
+ */
+export const setMailTransport = (nextTransport: MailTransport) => {
+  transport = nextTransport;
+};
+
+/**
+ * Picks the transport from the environment: `MAIL_WEBHOOK_URL` (with optional
+ * `MAIL_WEBHOOK_TOKEN` and `MAIL_FROM`), or the console. Call once dotenv has loaded.
+ */
+export const configureMailTransport = () => {
+  const url = process.env.MAIL_WEBHOOK_URL;
+  if (url) {
+    setMailTransport(webhookMailTransport(url, process.env.MAIL_WEBHOOK_TOKEN));
+  } else if (process.env.NODE_ENV === "production") {
+    console.error("MAIL_WEBHOOK_URL is not set; outgoing mail will fail".red);
+  }
+};
+
+/**
+ * Sends a message through the configured transport.
+ * @param {MailMessage} message - The message to send.
+ * @returns {Promise<void>}
+ */
+export const sendMail = (message: MailMessage): Promise<void> =>
+  transport.send(message);
@@ -0,0 +1,238 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { parseBuffer } from "music-metadata";
+import { IMediaFile, MediaFile, MediaKind } from "../models/MediaFileModel";
+import { getMediaStorage } from "./MediaStorage";
+import { signMediaToken } from "./TokenService";
+
+/**
+ * Error raised when an upload is rejected.
+ * @class MediaError
+ * @extends {Error}
+ * @property {number} status - HTTP status to answer with.
+ */
+export class MediaError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * What may be uploaded for each kind of file.
+ * @typedef {Object} MediaRules
+ * @property {string[]} mimeTypes - Accepted MIME types.
+ * @property {number} maxBytes - Largest accepted file.
+ * @property {number} [maxSeconds] - Longest accepted recording.
+ */
+interface MediaRules {
+  mimeTypes: string[];
+  maxBytes: number;
+  maxSeconds?: number;
+}
+
+const MB = 1024 * 1024;
+
+// Read lazily so values from .env are picked up after dotenv has loaded
+export const getMediaRules = (kind: MediaKind): MediaRules =>
+  kind === MediaKind.VOICE_NOTE
+    ? {
+        mimeTypes: [
+          "audio/webm",
+          "audio/ogg",
+          "audio/mpeg",
+          "audio/mp4",
+          "audio/aac",
+          "audio/wav",
+          "audio/x-wav",
+        ],
+        maxBytes: (Number(process.env.MEDIA_MAX_VOICE_NOTE_MB) || 10) * MB,
+        maxSeconds: Number(process.env.MEDIA_MAX_VOICE_NOTE_SECONDS) || 180,
+      }
+    : {
+        mimeTypes: ["application/pdf", "image/jpeg", "image/png"],
+        maxBytes: (Number(process.env.MEDIA_MAX_ATTACHMENT_MB) || 10) * MB,
+      };
+
+// Leading bytes of the accepted attachment types, so a renamed file is not taken at its word
+const SIGNATURES: Record<string, number[]> = {
+  "application/pdf": [0x25, 0x50, 0x44, 0x46], // %PDF
+  "image/jpeg": [0xff, 0xd8, 0xff],
+  "image/png": [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+};
+
+/**
+ * Works out how long a recording is from its contents.
+ * @param {Buffer} data - The audio file.
+ * @param {string} mimeType - The type the client declared.
+ * @returns {Promise<number>} The length in seconds.
+ * @throws {MediaError} When the file is not audio or its length cannot be told.
+ */
+const getAudioDuration = async (
+  data: Buffer,
+  mimeType: string
+): Promise<number> => {
+  let duration: number | undefined;
+  try {
+    const metadata = await parseBuffer(
+      data,
+      { mimeType, size: data.length },
+      { duration: true, skipCovers: true }
+    );
+    duration = metadata.format.duration;
+  } catch (error) {
+    throw new MediaError("File is not a valid audio recording");
+  }
+  if (!duration || !Number.isFinite(duration)) {
+    throw new MediaError("Could not determine the length of the recording");
+  }
+  return duration;
+};
+
+/**
+ * Validates an uploaded file and stores it.
+ * @param {MediaKind} kind - What the file is used for.
+ * @param {Express.Multer.File} file - The file from the multipart upload.
+ * @returns {Promise<IMediaFile>} The stored file, not yet attached to a booking. Files
+ * still unattached after `MEDIA_UNATTACHED_HOURS` are removed by the media sweeper.
+ * @throws {MediaError} When the file type, size or length is not accepted.
+ */
+export const storeUpload = async (
+  kind: MediaKind,
+  file: Express.Multer.File
+): Promise<IMediaFile> => {
+  const rules = getMediaRules(kind);
+  // Browsers add codec parameters, e.g. "audio/webm;codecs=opus"
+  const mimeType = file.mimetype.split(";")[0].trim().toLowerCase();
+
+  if (!rules.mimeTypes.includes(mimeType)) {
+    throw new MediaError(
+      `Unsupported file type, expected one of: ${rules.mimeTypes.join(", ")}`,
+      415
+    );
+  }
+  if (file.size > rules.maxBytes) {
+    throw new MediaError(
+      `File is too large, the limit is ${rules.maxBytes / MB} MB`,
+      413
+    );
+  }
+
+  let durationSeconds: number | undefined;
+  if (rules.maxSeconds) {
+    durationSeconds = await getAudioDuration(file.buffer, mimeType);
+    if (durationSeconds > rules.maxSeconds) {
+      throw new MediaError(
+        `Recording is too long, the limit is ${rules.maxSeconds} seconds`
+      );
+    }
+  } else {
+    const signature = SIGNATURES[mimeType];
+    if (!signature.every((byte, i) => file.buffer[i] === byte)) {
+      throw new MediaError(`File content does not match type ${mimeType}`);
+    }
+  }
+
+  const storageKey = `${kind}/${crypto.randomUUID()}`;
+  await getMediaStorage().save(storageKey, file.buffer);
+
+  try {
+    return await MediaFile.create({
+      kind,
+      originalName: file.originalname,
+      mimeType,
+      size: file.size,
+      durationSeconds,
+      storageKey,
+    });
+  } catch (error) {
+    await getMediaStorage().remove(storageKey);
+    throw error;
+  }
+};
+
+/**
+ * @typedef {Object} MediaOwner
+ * @property {unknown} [bookingId] - The booking the files belong to.
+ * @property {unknown} [kycVerificationId] - The KYC verification the files belong to.
+ */
+export type MediaOwner =
+  { bookingId: unknown } | { kycVerificationId: unknown };
+
+/**
+ * Attaches uploaded files to what they were uploaded for. Each file can only ever be attached once.
+ * @param {string[]} mediaIds - The uploaded files.
+ * @param {MediaKind} kind - What the files must have been uploaded as.
+ * @param {MediaOwner} owner - The booking or KYC verification they belong to.
+ * @param {mongoose.ClientSession} session - The transaction to run in.
+ * @returns {Promise<boolean>} Whether all files were found unattached and are now attached.
+ */
+export const attachMediaFiles = async (
+  mediaIds: string[],
+  kind: MediaKind,
+  owner: MediaOwner,
+  session: mongoose.ClientSession
+): Promise<boolean> => {
+  if (mediaIds.length === 0) return true;
+  if (!mediaIds.every((id) => mongoose.isValidObjectId(id))) return false;
+  const ids = [...new Set(mediaIds)];
+  const attached = await MediaFile.updateMany(
+    { _id: { $in: ids }, kind, ...UNATTACHED },
+    owner,
+    { session }
+  );
+  return attached.modifiedCount === ids.length;
+};
+
+// How long an upload may wait to be attached before it is removed
+const unattachedHours = () => Number(process.env.MEDIA_UNATTACHED_HOURS) || 24;
+
+// Uploads that are not attached to anything
+const UNATTACHED = {
+  bookingId: { $exists: false },
+  kycVerificationId: { $exists: false },
+};
+
+/**
+ * Removes uploads that were not attached to a booking or KYC verification within
+ * `MEDIA_UNATTACHED_HOURS` (default 24), from the storage and the database.
+ * @returns {Promise<number>} How many files were removed.
+ */
+export const removeUnattachedMedia = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - unattachedHours() * 60 * 60 * 1000);
+  const stale = await MediaFile.find(
+    { ...UNATTACHED, createdAt: { $lte: cutoff } },
+    "storageKey"
+  );
+
+  let removed = 0;
+  for (const file of stale) {
+    // A file attached in the meantime is kept
+    const deleted = await MediaFile.deleteOne({ _id: file._id, ...UNATTACHED });
+    if (deleted.deletedCount === 1) {
+      await getMediaStorage().remove(file.storageKey);
+      removed += 1;
+    }
+  }
+  return removed;
+};
+
+/**
+ * Periodically removes uploads that were never attached.
+ * @param {number} [intervalMs=3600000] - How often to check.
+ * @returns {NodeJS.Timeout} The timer, so it can be stopped.
+ */
+export const startMediaSweeper = (intervalMs = 60 * 60 * 1000) =>
+  setInterval(() => {
+    removeUnattachedMedia().catch((error) =>
+      console.error("Failed to remove unattached media:", error)
+    );
+  }, intervalMs);
+
+/**
+ * Returns a link that downloads a file without logging in, valid for as long as its token.
+ * @param {string} baseUrl - Where the API is reached, e.g. "https://api.example.com".
+ * @param {string} mediaId - The ID of the file.
+ * @returns {string}
+ */
+export const getMediaDownloadUrl = (baseUrl: string, mediaId: string) =>
+  `${baseUrl}/api/v1/media/${mediaId}/download?token=${signMediaToken(mediaId)}`;
@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+
+/**
+ * @interface MediaStorage
+ * @description Where uploaded files are kept. Keys are generated by the API, never by clients.
+ */
+export interface MediaStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Keeps files on the local filesystem. Only suitable for a single instance of the API,
+ * or several sharing a mounted volume.
+ * @class LocalMediaStorage
+ * @implements {MediaStorage}
+ */
+export class LocalMediaStorage implements MediaStorage {
+  constructor(private root: string) {}
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, data, { flag: "wx" });
+  }
+
+  async read(key: string): Promise<Readable> {
+    const file = this.resolve(key);
+    await fs.promises.access(file, fs.constants.R_OK);
+    return fs.createReadStream(file);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // Refuse keys that would point outside the storage root
+  private resolve(key: string): string {
+    const root = path.resolve(this.root);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid media storage key "${key}"`);
+    }
+    return file;
+  }
+}
+
+let storage: MediaStorage;
+
+/**
+ * Returns the storage for uploaded files, creating it on first use.
+ * `MEDIA_STORAGE` selects the driver (only "local" for now); local files go
+ * to `MEDIA_STORAGE_DIR` (default "uploads").
+ * @returns {MediaStorage}
+ */
+export const getMediaStorage = (): MediaStorage => {
+  if (!storage) {
+    const driver = process.env.MEDIA_STORAGE || "local";
+    if (driver !== "local") {
+      throw new Error(`Unknown media storage driver "${driver}"`);
+    }
+    storage = new LocalMediaStorage(process.env.MEDIA_STORAGE_DIR || "uploads");
+  }
+  return storage;
+};
@@ -0,0 +1,118 @@
+import { RateLimit } from "../models/RateLimitModel";
+
+/**
+ * @typedef {Object} RateLimitHit
+ * @property {number} count - Hits in the current window, including this one.
+ * @property {Date} resetAt - When the current window ends.
+ */
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * @interface RateLimitStore
+ * @description Storage for fixed-window rate limit counters.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * In-process store. Counters are lost on restart and not shared between instances.
+ * @class MemoryRateLimitStore
+ * @implements {RateLimitStore}
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.hits.get(key);
+
+    if (!current || current.resetAt.getTime() <= now) {
+      this.prune(now);
+      const hit = { count: 1, resetAt: new Date(now + windowMs) };
+      this.hits.set(key, hit);
+      return hit;
+    }
+
+    current.count += 1;
+    return current;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  // Drop finished windows so the map does not grow forever
+  private prune(now: number) {
+    this.hits.forEach((hit, key) => {
+      if (hit.resetAt.getTime() <= now) {
+        this.hits.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * MongoDB-backed store, shared by every instance of the API.
+ * @class MongoRateLimitStore
+ * @implements {RateLimitStore}
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date();
+
+    // The TTL monitor only runs every minute, so clear a finished window ourselves
+    await RateLimit.deleteOne({ key, expiresAt: { $lte: now } });
+
+    try {
+      return await this.upsert(key, windowMs, now);
+    } catch (error) {
+      // Two requests opened the same window concurrently; the second one just increments
+      if ((error as { code?: number }).code === 11000) {
+        return this.upsert(key, windowMs, now);
+      }
+      throw error;
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await RateLimit.deleteOne({ key });
+  }
+
+  private async upsert(
+    key: string,
+    windowMs: number,
+    now: Date
+  ): Promise<RateLimitHit> {
+    const counter = await RateLimit.findOneAndUpdate(
+      { key },
+      {
+        $inc: { count: 1 },
+        $setOnInsert: { expiresAt: new Date(now.getTime() + windowMs) },
+      },
+      { upsert: true, new: true }
+    );
+    return { count: counter.count, resetAt: counter.expiresAt };
+  }
+}
+
+let store: RateLimitStore;
+
+/**
+ * Returns the store used by the rate limit middleware, creating it on first use.
+ * Set `RATE_LIMIT_STORE=mongo` to share counters between instances.
+ * @returns {RateLimitStore}
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store =
+      process.env.RATE_LIMIT_STORE === "mongo"
+        ? new MongoRateLimitStore()
+        : new MemoryRateLimitStore();
+  }
+  return store;
+};
@@ -0,0 +1,157 @@
+import mongoose from "mongoose";
+import { z } from "zod";
+import { BookingSchema, Status } from "../models/BookingModel";
+import { Expert } from "../models/ExpertModel";
+import { IReview, Review, ReviewStatus } from "../models/ReviewModel";
+import { ReviewSubmissionSchemaZod } from "../schemas/ReviewSchema";
+import { BookingActor } from "./BookingService";
+
+export type ReviewSubmission = z.infer<typeof ReviewSubmissionSchemaZod>;
+
+/**
+ * Error raised when a review cannot be submitted, moderated or replied to.
+ * @class ReviewError
+ * @extends {Error}
+ * @property {number} status - HTTP status to answer with.
+ */
+export class ReviewError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Recomputes an expert's average rating and review count from their approved reviews.
+ * @param {unknown} expertId - The expert.
+ * @returns {Promise<void>}
+ */
+export const refreshExpertRating = async (expertId: unknown): Promise<void> => {
+  const [stats] = await Review.aggregate<{ average: number; count: number }>([
+    {
+      $match: {
+        expertId: new mongoose.Types.ObjectId(String(expertId)),
+        status: ReviewStatus.APPROVED,
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        average: { $avg: "$rating" },
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+  await Expert.updateOne(
+    { _id: expertId },
+    {
+      ratingAverage: stats ? Math.round(stats.average * 100) / 100 : 0,
+      reviewCount: stats?.count ?? 0,
+    }
+  );
+};
+
+/**
+ * Records a guest's rating and review of their booking. Reviews wait for an admin
+ * to approve them before they are public or count towards the expert's rating.
+ * @param {ReviewSubmission} submission - The validated review.
+ * @returns {Promise<IReview>} The pending review.
+ * @throws {ReviewError} When the booking is not found, not completed, or already reviewed.
+ */
+export const submitReview = async ({
+  reference,
+  guestEmail,
+  rating,
+  comment,
+}: ReviewSubmission): Promise<IReview> => {
+  // Unknown bookings and wrong emails look the same, so neither can be probed
+  const booking = await BookingSchema.findOne({ reference });
+  if (
+    !booking ||
+    booking.guestEmail.toLowerCase() !== guestEmail.toLowerCase()
+  ) {
+    throw new ReviewError("Booking not found", 404);
+  }
+  if (booking.status !== Status.COMPLETED) {
+    throw new ReviewError("Only completed bookings can be reviewed", 409);
+  }
+
+  try {
+    return await Review.create({
+      bookingId: booking._id,
+      expertId: booking.expertId,
+      planId: booking.planId,
+      guestId: booking.guestId,
+      guestName: booking.guestName,
+      rating,
+      comment: comment || undefined,
+    });
+  } catch (error) {
+    // The unique index on bookingId also catches two submissions racing
+    if (error?.code === 11000) {
+      throw new ReviewError("This booking has already been reviewed", 409);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Approves or rejects a review, then updates the expert's rating. A review can be
+ * moderated again later, e.g. to take down an approved review.
+ * @param {string} id - The review's ID.
+ * @param {Object} decision
+ * @param {boolean} decision.approve - Whether to approve the review.
+ * @param {string} [decision.reason] - Why it was rejected.
+ * @param {string} adminId - The admin moderating it.
+ * @returns {Promise<IReview>} The moderated review.
+ * @throws {ReviewError} When the review is not found or already has that status.
+ */
+export const moderateReview = async (
+  id: string,
+  { approve, reason }: { approve: boolean; reason?: string },
+  adminId: string
+): Promise<IReview> => {
+  const status = approve ? ReviewStatus.APPROVED : ReviewStatus.REJECTED;
+  const moderated = await Review.findOneAndUpdate(
+    { _id: id, status: { $ne: status } },
+    {
+      status,
+      moderatedBy: adminId,
+      moderatedAt: new Date(),
+      rejectionReason: approve ? undefined : reason,
+    },
+    { new: true }
+  );
+  if (!moderated) {
+    const exists = await Review.exists({ _id: id });
+    throw exists
+      ? new ReviewError(`Review is already ${status}`, 409)
+      : new ReviewError("Review not found", 404);
+  }
+
+  await refreshExpertRating(moderated.expertId);
+  return moderated;
+};
+
+/**
+ * Sets the expert's public reply to a review, replacing any earlier reply.
+ * @param {IReview} review - The review.
+ * @param {string} text - The reply.
+ * @param {BookingActor} author - The expert (or an admin on their behalf).
+ * @returns {Promise<IReview>} The review with its reply.
+ * @throws {ReviewError} When the review was rejected.
+ */
+export const replyToReview = async (
+  review: IReview,
+  text: string,
+  author: BookingActor
+): Promise<IReview> => {
+  const replied = await Review.findOneAndUpdate(
+    { _id: review._id, status: { $ne: ReviewStatus.REJECTED } },
+    { reply: { text, repliedAt: new Date(), repliedBy: author.id } },
+    { new: true }
+  );
+  if (!replied) {
+    throw new ReviewError("Rejected reviews cannot be replied to", 409);
+  }
+  return replied;
+};
@@ -0,0 +1,204 @@
+import { DateModel, IDate } from "../models/DateModel";
+import { Expert } from "../models/ExpertModel";
+import { Plan } from "../models/PlanModel";
+import { ISlot, Slot } from "../models/SlotModel";
+import { getDefaultTimeZone, zonedTimeToUtc } from "./TimeZoneService";
+
+/**
+ * Counts from a schedule migration run.
+ * @typedef {Object} ScheduleMigrationResult
+ * @property {number} experts - Experts given the default time zone.
+ * @property {number} dates - Dates given start and end times.
+ * @property {number} slots - Slots given start and end times.
+ * @property {string[]} skipped - IDs of dates whose "DD/MM/YYYY" string could not be read.
+ */
+export interface ScheduleMigrationResult {
+  experts: number;
+  dates: number;
+  slots: number;
+  skipped: string[];
+}
+
+/**
+ * The time zone an expert's calendar is in.
+ * @param {unknown} expertId - The expert.
+ * @returns {Promise<string>} The expert's time zone, or the default one.
+ */
+export const getExpertTimeZone = async (expertId: unknown): Promise<string> => {
+  const expert = await Expert.findById(expertId, "timezone").lean();
+  return expert?.timezone || getDefaultTimeZone();
+};
+
+/**
+ * Returns the day a number of days after another. This is calendar arithmetic, the same
+ * in every time zone.
+ * @param {string} day - The day in "DD/MM/YYYY" format.
+ * @param {number} days - How many days later.
+ * @returns {string} The later day in "DD/MM/YYYY" format.
+ */
+export const addDays = (day: string, days: number): string => {
+  const [date, month, year] = day.split("/").map(Number);
+  const later = new Date(Date.UTC(year, month - 1, date + days));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(later.getUTCDate())}/${pad(later.getUTCMonth() + 1)}/${later.getUTCFullYear()}`;
+};
+
+/**
+ * Works out when a day starts in an expert's time zone, e.g. for the bounds of a
+ * waitlist entry's date range.
+ * @param {string} day - The day in "DD/MM/YYYY" format.
+ * @param {unknown} expertId - The expert.
+ * @returns {Promise<Date | null>} Midnight of that day, or null when the day is unreadable.
+ */
+export const getExpertDayStart = async (
+  day: string,
+  expertId: unknown
+): Promise<Date | null> =>
+  zonedTimeToUtc(day, "00:00", await getExpertTimeZone(expertId));
+
+/**
+ * Stores when a date and each of its slots start and end, from the date's "DD/MM/YYYY"
+ * string, the slots' "HH:MM" timings, their plans' durations and the expert's time zone.
+ * Slots with an unreadable timing are left as they are.
+ * @param {IDate} date - The date.
+ * @param {string} [timeZone] - The expert's time zone, when already known.
+ * @returns {Promise<number | null>} How many slots were updated, or null when the date string is unreadable.
+ */
+export const syncDateTimes = async (
+  date: IDate,
+  timeZone?: string
+): Promise<number | null> => {
+  timeZone ??= await getExpertTimeZone(date.expertId);
+  const startsAt = zonedTimeToUtc(date.date, "00:00", timeZone);
+  if (!startsAt) return null;
+  const endsAt = zonedTimeToUtc(addDays(date.date, 1), "00:00", timeZone);
+  await DateModel.updateOne({ _id: date._id }, { startsAt, endsAt });
+  Object.assign(date, { startsAt, endsAt });
+
+  const slots = await Slot.find({ _id: { $in: date.slotsId } });
+  const plans = await Plan.find(
+    { _id: { $in: slots.map((slot) => slot.planId) } },
+    "duration"
+  );
+  const durations = new Map(
+    plans.map((plan) => [String(plan._id), plan.duration])
+  );
+
+  const updates = slots.flatMap((slot) => {
+    const slotStart = zonedTimeToUtc(date.date, slot.timing, timeZone);
+    if (!slotStart) return [];
+    const minutes = durations.get(String(slot.planId)) ?? 0;
+    return [
+      {
+        updateOne: {
+          filter: { _id: slot._id },
+          update: {
+            startsAt: slotStart,
+            endsAt: new Date(slotStart.getTime() + minutes * 60 * 1000),
+          },
+        },
+      },
+    ];
+  });
+  if (updates.length > 0) {
+    await Slot.bulkWrite(updates);
+  }
+  return updates.length;
+};
+
+/**
+ * Stores when a slot starts and ends, from the date it is on. Slots on no date are left
+ * without times until they are added to one.
+ * @param {ISlot} slot - The slot.
+ * @returns {Promise<ISlot>} The slot with its times.
+ */
+export const syncSlotTimes = async (slot: ISlot): Promise<ISlot> => {
+  const date = await DateModel.findOne({ slotsId: slot._id });
+  if (!date) return slot;
+  await syncDateTimes(date);
+  return (await Slot.findById(slot._id)) ?? slot;
+};
+
+/**
+ * Recomputes the times of all of an expert's dates and slots, e.g. after their time
+ * zone changed. Wall-clock timings stay the same, so the instants move.
+ * @param {unknown} expertId - The expert.
+ * @returns {Promise<void>}
+ */
+export const syncExpertSchedule = async (expertId: unknown): Promise<void> => {
+  const timeZone = await getExpertTimeZone(expertId);
+  for await (const date of DateModel.find({ expertId }).cursor()) {
+    await syncDateTimes(date, timeZone);
+  }
+};
+
+/**
+ * Moves the end of a plan's slots after its duration changed.
+ * @param {unknown} planId - The plan.
+ * @param {number} duration - The new duration in minutes.
+ * @returns {Promise<void>}
+ */
+export const syncPlanSlotEnds = async (
+  planId: unknown,
+  duration: number
+): Promise<void> => {
+  await Slot.updateMany({ planId, startsAt: { $ne: null } }, [
+    { $set: { endsAt: { $add: ["$startsAt", duration * 60 * 1000] } } },
+  ]);
+};
+
+/**
+ * Works out when a slot on a date starts. Uses the stored time, or reads the date and
+ * timing strings in the expert's time zone for slots that have not been migrated yet.
+ * @param {ISlot} slot - The slot.
+ * @param {IDate} date - The date it is on.
+ * @returns {Promise<Date | null>} The start, or null when the strings are unreadable.
+ */
+export const getSlotStart = async (
+  slot: ISlot,
+  date: IDate
+): Promise<Date | null> =>
+  slot.startsAt ??
+  zonedTimeToUtc(
+    date.date,
+    slot.timing,
+    await getExpertTimeZone(slot.expertId)
+  );
+
+/**
+ * Gives existing data UTC start and end times: experts without a time zone get the
+ * default one (`DEFAULT_TIMEZONE`, which should be the zone their "DD/MM/YYYY" dates and
+ * "HH:MM" timings were entered in), then every date without times is synced with its
+ * slots. Safe to run more than once; later runs only pick up what is left.
+ * @returns {Promise<ScheduleMigrationResult>}
+ */
+export const migrateScheduleTimes =
+  async (): Promise<ScheduleMigrationResult> => {
+    const { modifiedCount: experts } = await Expert.updateMany(
+      { timezone: { $exists: false } },
+      { $set: { timezone: getDefaultTimeZone() } }
+    );
+
+    const result: ScheduleMigrationResult = {
+      experts,
+      dates: 0,
+      slots: 0,
+      skipped: [],
+    };
+    const timeZones = new Map<string, string>();
+    const cursor = DateModel.find({ startsAt: null }).cursor();
+    for await (const date of cursor) {
+      const expertId = String(date.expertId);
+      if (!timeZones.has(expertId)) {
+        timeZones.set(expertId, await getExpertTimeZone(expertId));
+      }
+      const slots = await syncDateTimes(date, timeZones.get(expertId));
+      if (slots === null) {
+        result.skipped.push(String(date._id));
+      } else {
+        result.dates += 1;
+        result.slots += slots;
+      }
+    }
+    return result;
+  };
@@ -0,0 +1,192 @@
+import mongoose from "mongoose";
+import { z } from "zod";
+import { IBooking, Status } from "../models/BookingModel";
+import { IMediaFile, MediaKind } from "../models/MediaFileModel";
+import { ISessionNote, SessionNote } from "../models/SessionNoteModel";
+import { SessionNoteSchemaZod } from "../schemas/SessionNoteSchema";
+import { BookingActor } from "./BookingService";
+import { sendMail } from "./MailService";
+import { attachMediaFiles, getMediaDownloadUrl } from "./MediaService";
+
+export type SessionNoteChanges = z.infer<typeof SessionNoteSchemaZod>;
+
+/**
+ * Error raised when a session note cannot be saved.
+ * @class SessionNoteError
+ * @extends {Error}
+ * @property {number} status - HTTP status to answer with.
+ */
+export class SessionNoteError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Sessions that have been confirmed, so there is (or will be) something to write about
+const NOTABLE_STATUSES = [
+  Status.CONFIRMED,
+  Status.RESCHEDULED,
+  Status.COMPLETED,
+  Status.NO_SHOW,
+];
+
+/**
+ * @typedef {Object} GuestSessionSummary
+ * @property {string} summary - Summary of the session.
+ * @property {string[]} actionItems - What the guest should do next.
+ * @property {{ id: string, name: string, url: string }[]} attachments - Shared files, with download links.
+ * @property {Date} publishedAt - When the summary was published.
+ */
+export interface GuestSessionSummary {
+  summary: string;
+  actionItems: string[];
+  attachments: { id: string; name: string; url: string }[];
+  publishedAt: Date;
+}
+
+/**
+ * Publishes a booking's session summary to its guest and lets them know by email, when
+ * the mail can be sent.
+ * Does nothing when there is no summary yet, or it was already published.
+ * @param {IBooking} booking - The completed booking.
+ * @returns {Promise<ISessionNote | null>} The published note, if it was published now.
+ */
+export const publishSessionSummary = async (
+  booking: IBooking
+): Promise<ISessionNote | null> => {
+  const note = await SessionNote.findOneAndUpdate(
+    {
+      bookingId: booking._id,
+      publishedAt: { $exists: false },
+      summary: { $nin: [null, ""] },
+    },
+    { publishedAt: new Date() },
+    { new: true }
+  );
+  if (!note) return null;
+
+  // The summary is published either way; the guest also sees it when looking the booking up
+  const actionItems = note.actionItems.map((item) => `- ${item}`).join("\n");
+  try {
+    await sendMail({
+      to: booking.guestEmail,
+      subject: `Summary of your session (${booking.reference})`,
+      text: `Hi ${booking.guestName}, here is the summary of your session:\n\n${note.summary}${actionItems ? `\n\nNext steps:\n${actionItems}` : ""}\n\nLook up booking ${booking.reference} to see it again, with any shared files.`,
+    });
+  } catch (error) {
+    console.error("Failed to send session summary mail:", error);
+  }
+  return note;
+};
+
+/**
+ * Edits a booking's session notes, keeping the previous versions in its history.
+ * Notes on a completed booking are published to the guest as soon as they have a summary.
+ * @param {IBooking} booking - The booking the notes are about.
+ * @param {SessionNoteChanges} changes - The validated changes.
+ * @param {BookingActor} editor - The admin or expert making the edit.
+ * @returns {Promise<ISessionNote>} The updated note.
+ * @throws {SessionNoteError} When the booking has not been confirmed, or an attachment cannot be used.
+ */
+export const saveSessionNote = async (
+  booking: IBooking,
+  changes: SessionNoteChanges,
+  editor: BookingActor
+): Promise<ISessionNote> => {
+  if (!NOTABLE_STATUSES.includes(booking.status)) {
+    throw new SessionNoteError(
+      `Notes cannot be added to a ${booking.status} booking`,
+      409
+    );
+  }
+
+  const note = await mongoose.connection.transaction(async (session) => {
+    const current = await SessionNote.findOne({
+      bookingId: booking._id,
+    }).session(session);
+    const attachments = (
+      changes.attachments ??
+      current?.attachments.map(String) ??
+      []
+    ).filter((id, index, ids) => ids.indexOf(id) === index);
+
+    // Files already on the note stay attached; new ones must be unused uploads
+    const added = attachments.filter(
+      (id) => !current?.attachments.some((existing) => String(existing) === id)
+    );
+    if (
+      !(await attachMediaFiles(
+        added,
+        MediaKind.SESSION_ATTACHMENT,
+        { bookingId: booking._id },
+        session
+      ))
+    ) {
+      throw new SessionNoteError(
+        "Attachments must be files uploaded through POST /media/session-attachment and not used elsewhere"
+      );
+    }
+
+    const version = {
+      privateNotes: changes.privateNotes ?? current?.privateNotes,
+      summary: changes.summary ?? current?.summary,
+      actionItems: changes.actionItems ?? current?.actionItems ?? [],
+      attachments,
+    };
+    return SessionNote.findOneAndUpdate(
+      { bookingId: booking._id },
+      {
+        $set: { ...version, expertId: booking.expertId },
+        $push: {
+          history: {
+            ...version,
+            editedAt: new Date(),
+            editedBy: editor.id,
+            editedByRole: editor.role,
+          },
+        },
+      },
+      { upsert: true, new: true, session }
+    );
+  });
+
+  if (booking.status === Status.COMPLETED) {
+    return (await publishSessionSummary(booking)) ?? note;
+  }
+  return note;
+};
+
+/**
+ * Returns the published session summaries of bookings, as shown to their guests.
+ * Private notes are never included.
+ * @param {unknown[]} bookingIds - The bookings.
+ * @param {string} baseUrl - Where the API is reached, for attachment download links.
+ * @returns {Promise<Map<string, GuestSessionSummary>>} Summaries by booking ID; unpublished ones are missing.
+ */
+export const getPublishedSummaries = async (
+  bookingIds: unknown[],
+  baseUrl: string
+): Promise<Map<string, GuestSessionSummary>> => {
+  const notes = await SessionNote.find({
+    bookingId: { $in: bookingIds },
+    publishedAt: { $exists: true },
+  })
+    .select("bookingId summary actionItems attachments publishedAt")
+    .populate<{ attachments: IMediaFile[] }>("attachments", "originalName");
+
+  return new Map(
+    notes.map((note) => [
+      String(note.bookingId),
+      {
+        summary: note.summary,
+        actionItems: note.actionItems,
+        attachments: note.attachments.map((file) => ({
+          id: String(file._id),
+          name: file.originalName,
+          url: getMediaDownloadUrl(baseUrl, String(file._id)),
+        })),
+        publishedAt: note.publishedAt,
+      },
+    ])
+  );
+};
@@ -0,0 +1,100 @@
+import mongoose from "mongoose";
+import { DateModel } from "../models/DateModel";
+import { Slot } from "../models/SlotModel";
+import { SlotHold } from "../models/SlotHoldModel";
+import { checkSlotOnDate, ReservationError } from "./BookingService";
+import { generateOpaqueToken, hashToken } from "./TokenService";
+
+// How long a guest may keep a slot while filling in the booking form
+const holdMinutes = () => Number(process.env.SLOT_HOLD_MINUTES) || 10;
+
+/**
+ * @typedef {Object} HoldResult
+ * @property {string} holdToken - The raw hold token, to be sent with the booking.
+ * @property {Date} expiresAt - When the hold lapses.
+ */
+export interface HoldResult {
+  holdToken: string;
+  expiresAt: Date;
+}
+
+/**
+ * Holds a seat on a slot so nobody else can book it meanwhile.
+ * A slot can be held as many times as it has free seats.
+ * @param {string} slotId - The slot to hold.
+ * @param {string} dateId - The date the slot is on.
+ * @param {number} [minutes] - How long to hold it (default `SLOT_HOLD_MINUTES`, or 10).
+ * @returns {Promise<HoldResult>}
+ * @throws {ReservationError} When the slot cannot be booked or all its free seats are held.
+ */
+export const holdSlot = (
+  slotId: string,
+  dateId: string,
+  minutes = holdMinutes()
+): Promise<HoldResult> =>
+  mongoose.connection.transaction(async (session) => {
+    const slot = await Slot.findById(slotId).session(session);
+    const date = await DateModel.findById(dateId).session(session);
+    if (!slot) {
+      throw new ReservationError("Slot not found", 404);
+    }
+    if (!date) {
+      throw new ReservationError("Date not found", 404);
+    }
+    checkSlotOnDate(slot, date);
+
+    // Clear lapsed holds the TTL monitor has not removed yet
+    const now = new Date();
+    await SlotHold.deleteMany(
+      { slotId, expiresAt: { $lte: now } },
+      { session }
+    );
+    const activeHolds = await SlotHold.countDocuments({
+      slotId,
+      expiresAt: { $gt: now },
+    }).session(session);
+    if (slot.bookedSeats + activeHolds >= slot.capacity) {
+      throw new ReservationError("Slot is currently held by someone else", 409);
+    }
+
+    // Writing to the slot makes concurrent holds on it conflict, so only one of them counts
+    await Slot.updateOne(
+      { _id: slot._id },
+      { $inc: { holdVersion: 1 } },
+      { session }
+    );
+
+    const holdToken = generateOpaqueToken();
+    const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+    await SlotHold.create(
+      [{ slotId, dateId, tokenHash: hashToken(holdToken), expiresAt }],
+      { session }
+    );
+
+    return { holdToken, expiresAt };
+  });
+
+/**
+ * Gives up a hold before it expires.
+ * @param {string} holdToken - The raw hold token.
+ * @returns {Promise<boolean>} Whether a hold was released.
+ */
+export const releaseHold = async (holdToken: string): Promise<boolean> => {
+  const result = await SlotHold.deleteOne({ tokenHash: hashToken(holdToken) });
+  return result.deletedCount === 1;
+};
+
+/**
+ * Counts the active holds on each of the given slots.
+ * @param {mongoose.Schema.Types.ObjectId[]} slotIds - The slots to check.
+ * @returns {Promise<Map<string, number>>} Number of held seats by slot ID; slots without holds are left out.
+ */
+export const getHeldSeatCounts = async (
+  slotIds: mongoose.Schema.Types.ObjectId[]
+): Promise<Map<string, number>> => {
+  const holds = await SlotHold.aggregate<{ _id: unknown; count: number }>([
+    { $match: { slotId: { $in: slotIds }, expiresAt: { $gt: new Date() } } },
+    { $group: { _id: "$slotId", count: { $sum: 1 } } },
+  ]);
+  return new Map(holds.map((hold) => [String(hold._id), hold.count]));
+};
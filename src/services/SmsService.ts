@@ -0,0 +1,93 @@
+/**
+ * @module SmsService
+ * @description Pluggable outgoing text messages. With `SMS_WEBHOOK_URL` set, messages are
+ * posted to that endpoint; otherwise they are logged to the console during development
+ * and refused in production, so login codes never end up in the logs.
+ */
+
+/**
+ * @interface SmsMessage
+ * @property {string} to - Recipient phone number.
+ * @property {string} text - Message body.
+ */
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+/**
+ * @interface SmsTransport
+ * @description Anything that can deliver an `SmsMessage` (a provider API, ...).
+ */
+export interface SmsTransport {
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Transport that prints messages instead of delivering them. Refuses to run in production.
+ * @type {SmsTransport}
+ */
+export const consoleSmsTransport: SmsTransport = {
+  async send(message: SmsMessage) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("No SMS transport configured; set SMS_WEBHOOK_URL");
+    }
+    console.log(`📱 SMS to ${message.to}: ${message.text}`.magenta);
+  },
+};
+
+/**
+ * Transport that posts each message as JSON (`to`, `text`) to an HTTP endpoint.
+ * @param {string} url - The endpoint.
+ * @param {string} [token] - Sent as a bearer token, if the endpoint needs one.
+ * @returns {SmsTransport}
+ */
+export const webhookSmsTransport = (
+  url: string,
+  token?: string
+): SmsTransport => ({
+  async send(message: SmsMessage) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`SMS webhook answered with status ${response.status}`);
+    }
+  },
+});
+
+let transport: SmsTransport = consoleSmsTransport;
+
+/**
+ * Replaces the transport used by `sendSms`.
+ * @param {SmsTransport} nextTransport - The transport to use from now on.
+ */
+export const setSmsTransport = (nextTransport: SmsTransport) => {
+  transport = nextTransport;
+};
+
+/**
+ * Picks the transport from the environment: `SMS_WEBHOOK_URL` (with optional
+ * `SMS_WEBHOOK_TOKEN`), or the console. Call once dotenv has loaded.
+ */
+export const configureSmsTransport = () => {
+  const url = process.env.SMS_WEBHOOK_URL;
+  if (url) {
+    setSmsTransport(webhookSmsTransport(url, process.env.SMS_WEBHOOK_TOKEN));
+  } else if (process.env.NODE_ENV === "production") {
+    console.error("SMS_WEBHOOK_URL is not set; text messages will fail".red);
+  }
+};
+
+/**
+ * Sends a message through the configured transport.
+ * @param {SmsMessage} message - The message to send.
+ * @returns {Promise<void>}
+ */
+export const sendSms = (message: SmsMessage): Promise<void> =>
+  transport.send(message);
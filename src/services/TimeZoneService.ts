@@ -0,0 +1,143 @@
+/**
+ * Converting between UTC instants and wall-clock times in IANA time zones, using the
+ * time zone data built into Node's Intl.
+ */
+
+/**
+ * The time zone of experts who have not set one, and in which their existing
+ * "DD/MM/YYYY" dates and "HH:MM" timings are read. Read lazily so values from .env
+ * are picked up after dotenv has loaded.
+ * @returns {string} `DEFAULT_TIMEZONE`, or "UTC".
+ */
+export const getDefaultTimeZone = (): string =>
+  process.env.DEFAULT_TIMEZONE || "UTC";
+
+/**
+ * Whether a string is an IANA time zone name Node knows, e.g. "Asia/Kolkata".
+ * @param {string} timeZone - The name to check.
+ * @returns {boolean}
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A wall-clock time in some time zone.
+ * @typedef {Object} ZonedTime
+ * @property {string} date - The day in "DD/MM/YYYY" format.
+ * @property {string} timing - The time in "HH:MM" format.
+ * @property {string} utcOffset - The zone's offset from UTC at that time, e.g. "+05:30".
+ */
+export interface ZonedTime {
+  date: string;
+  timing: string;
+  utcOffset: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// The calendar fields of an instant in a time zone
+const zonedParts = (instant: Date, timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter
+      .formatToParts(instant)
+      .map(({ type, value }) => [type, Number(value)])
+  );
+  return parts as Record<
+    "year" | "month" | "day" | "hour" | "minute" | "second",
+    number
+  >;
+};
+
+// How far ahead of UTC a time zone is at an instant, in milliseconds
+const offsetAt = (instant: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = zonedParts(
+    instant,
+    timeZone
+  );
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+};
+
+/**
+ * Finds the instant a wall-clock time in a time zone happens at. A time skipped by a
+ * daylight saving change is moved forward by the gap; a time that happens twice is
+ * taken the first time.
+ * @param {string} date - The day in "DD/MM/YYYY" format.
+ * @param {string} timing - The time in "HH:MM" format.
+ * @param {string} timeZone - IANA name of the time zone.
+ * @returns {Date | null} The instant, or null when the date or time is malformed.
+ */
+export const zonedTimeToUtc = (
+  date: string,
+  timing: string,
+  timeZone: string
+): Date | null => {
+  const dateMatch = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(date ?? "");
+  const timeMatch = /^(\d{1,2}):(\d{2})$/.exec(timing ?? "");
+  if (!dateMatch || !timeMatch) return null;
+
+  const [, day, month, year] = dateMatch.map(Number);
+  const [, hours, minutes] = timeMatch.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  const check = new Date(wallClock);
+  if (
+    check.getUTCDate() !== day ||
+    check.getUTCMonth() !== month - 1 ||
+    hours > 23 ||
+    minutes > 59
+  ) {
+    return null;
+  }
+
+  // Try the offsets in force just before and just after the wall-clock time
+  const earlier =
+    wallClock - offsetAt(new Date(wallClock - 86400000), timeZone);
+  const later = wallClock - offsetAt(new Date(wallClock + 86400000), timeZone);
+  const candidates = [earlier, later].sort((a, b) => a - b);
+  const exact = candidates.find(
+    (instant) => instant + offsetAt(new Date(instant), timeZone) === wallClock
+  );
+  return new Date(exact ?? candidates[1]);
+};
+
+/**
+ * Shows an instant as a wall-clock time in a time zone.
+ * @param {Date} instant - The instant.
+ * @param {string} timeZone - IANA name of the time zone.
+ * @returns {ZonedTime}
+ */
+export const formatInTimeZone = (
+  instant: Date,
+  timeZone: string
+): ZonedTime => {
+  const { year, month, day, hour, minute } = zonedParts(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const offsetMinutes = Math.round(offsetAt(instant, timeZone) / 60000);
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const absolute = Math.abs(offsetMinutes);
+  return {
+    date: `${pad(day)}/${pad(month)}/${year}`,
+    timing: `${pad(hour)}:${pad(minute)}`,
+    utcOffset: `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`,
+  };
+};
@@ -0,0 +1,270 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { Session } from "../models/SessionModel";
+import { Role } from "../middleware/auth";
+
+// Access tokens are short-lived; sessions are renewed through refresh tokens.
+// Read lazily so values from .env are picked up after dotenv has loaded.
+const accessTokenTtl = () => process.env.ACCESS_TOKEN_TTL || "15m";
+const refreshTokenTtlDays = () =>
+  parseInt(process.env.REFRESH_TOKEN_TTL_DAYS) || 7;
+
+/**
+ * Error raised when a refresh token cannot be used.
+ * @class TokenError
+ * @extends {Error}
+ */
+export class TokenError extends Error {}
+
+/**
+ * @typedef {Object} TokenPair
+ * @property {string} token - Signed JWT access token.
+ * @property {string} refreshToken - Opaque refresh token, only stored hashed.
+ */
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Hashes an opaque token so it can be stored and looked up safely.
+ * @param {string} token - The raw token.
+ * @returns {string} Hex encoded SHA-256 hash.
+ */
+export const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Generates a random, URL-safe opaque token (refresh tokens, reset links, ...).
+ * @returns {string}
+ */
+export const generateOpaqueToken = (): string =>
+  crypto.randomBytes(48).toString("base64url");
+
+const signAccessToken = (subjectId: string, role: Role, sessionId: string) =>
+  jwt.sign(
+    { id: subjectId, role, sid: sessionId },
+    process.env.JWT_SECRET as string,
+    { expiresIn: accessTokenTtl() }
+  );
+
+/**
+ * Purposes of the short-lived tokens handed out during a two-factor login.
+ * @enum {string}
+ */
+export enum MfaPurpose {
+  VERIFY = "mfa-verify", // password accepted, TOTP or recovery code still needed
+  ENROLL = "mfa-enroll", // password accepted, 2FA is mandatory but not yet set up
+}
+
+// "MFA pending" tokens only bridge the two login steps
+const MFA_TOKEN_TTL = "5m";
+
+/**
+ * Signs an "MFA pending" token. It carries no role or session, so
+ * `authenticateJWT` never accepts it as an access token.
+ * @param {string} subjectId - The ID of the admin logging in.
+ * @param {MfaPurpose} purpose - What the token may be used for.
+ * @returns {string}
+ */
+export const signMfaToken = (subjectId: string, purpose: MfaPurpose) =>
+  jwt.sign({ id: subjectId, purpose }, process.env.JWT_SECRET as string, {
+    expiresIn: MFA_TOKEN_TTL,
+  });
+
+/**
+ * Verifies an "MFA pending" token.
+ * @param {string} token - The token from the first login step.
+ * @param {MfaPurpose} purpose - The purpose the token must have been issued for.
+ * @returns {string | null} The admin ID, or null when the token is invalid.
+ */
+export const verifyMfaToken = (
+  token: string,
+  purpose: MfaPurpose
+): string | null => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as {
+      id: string;
+      purpose: MfaPurpose;
+    };
+    return decoded.purpose === purpose ? decoded.id : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Media download links are meant to be opened right away, e.g. by an audio player
+const MEDIA_TOKEN_TTL = "15m";
+
+/**
+ * Signs a token that allows downloading one uploaded file without logging in.
+ * @param {string} mediaId - The ID of the file.
+ * @returns {string}
+ */
+export const signMediaToken = (mediaId: string) =>
+  jwt.sign(
+    { mediaId, purpose: "media-download" },
+    process.env.JWT_SECRET as string,
+    { expiresIn: MEDIA_TOKEN_TTL }
+  );
+
+/**
+ * Verifies a media download token.
+ * @param {string} token - The token from the download URL.
+ * @param {string} mediaId - The file being downloaded.
+ * @returns {boolean} Whether the token allows downloading that file.
+ */
+export const verifyMediaToken = (token: string, mediaId: string): boolean => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as {
+      mediaId: string;
+      purpose: string;
+    };
+    return decoded.purpose === "media-download" && decoded.mediaId === mediaId;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Starts a new session and issues its first access/refresh token pair.
+ * @param {string} subjectId - The ID of the admin or expert logging in.
+ * @param {Role} role - The role to embed in the access token.
+ * @returns {Promise<TokenPair>}
+ */
+export const issueTokens = async (
+  subjectId: string,
+  role: Role
+): Promise<TokenPair> => {
+  const refreshToken = generateOpaqueToken();
+  const session = await Session.create({
+    subjectId,
+    role,
+    refreshTokenHash: hashToken(refreshToken),
+    expiresAt: new Date(
+      Date.now() + refreshTokenTtlDays() * 24 * 60 * 60 * 1000
+    ),
+  });
+
+  return {
+    token: signAccessToken(subjectId, role, String(session._id)),
+    refreshToken,
+  };
+};
+
+/**
+ * Exchanges a refresh token for a new token pair, rotating the refresh token.
+ * Presenting an already rotated token revokes the whole session, since it
+ * means the token family has leaked.
+ * @param {string} refreshToken - The refresh token presented by the client.
+ * @returns {Promise<TokenPair>}
+ * @throws {TokenError} When the token is unknown, expired, revoked or reused.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string
+): Promise<TokenPair> => {
+  const tokenHash = hashToken(refreshToken);
+  const nextRefreshToken = generateOpaqueToken();
+
+  // Atomically swap the current token so two concurrent refreshes cannot both win
+  const session = await Session.findOneAndUpdate(
+    {
+      refreshTokenHash: tokenHash,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    {
+      $set: { refreshTokenHash: hashToken(nextRefreshToken) },
+      $push: { previousTokenHashes: tokenHash },
+    },
+    { new: true }
+  );
+
+  if (!session) {
+    const reusedSession = await Session.findOne({
+      previousTokenHashes: tokenHash,
+    });
+    if (reusedSession) {
+      await revokeSession(String(reusedSession._id), "reuse");
+      throw new TokenError("Refresh token reuse detected. Session revoked.");
+    }
+    throw new TokenError("Invalid or expired refresh token");
+  }
+
+  return {
+    token: signAccessToken(
+      String(session.subjectId),
+      session.role as Role,
+      String(session._id)
+    ),
+    refreshToken: nextRefreshToken,
+  };
+};
+
+/**
+ * Revokes a session, invalidating its refresh token and every access token issued for it.
+ * @param {string} sessionId - The ID of the session to revoke.
+ * @param {string} reason - Why the session is revoked.
+ * @returns {Promise<void>}
+ */
+export const revokeSession = async (
+  sessionId: string,
+  reason: string
+): Promise<void> => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+};
+
+/**
+ * Revokes every active session of a subject, e.g. after a password change.
+ * @param {string} subjectId - The ID of the admin or expert.
+ * @param {string} reason - Why the sessions are revoked.
+ * @param {string} [exceptSessionId] - A session to keep alive (usually the caller's own).
+ * @returns {Promise<void>}
+ */
+export const revokeAllSessions = async (
+  subjectId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<void> => {
+  const filter: Record<string, unknown> = {
+    subjectId,
+    revokedAt: { $exists: false },
+  };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+  await Session.updateMany(filter, {
+    $set: { revokedAt: new Date(), revokedReason: reason },
+  });
+};
+
+/**
+ * Looks up the session a refresh token currently belongs to.
+ * @param {string} refreshToken - The refresh token presented by the client.
+ * @returns {Promise<string | null>} The session ID, or null if the token is not current.
+ */
+export const findSessionIdByRefreshToken = async (
+  refreshToken: string
+): Promise<string | null> => {
+  const session = await Session.findOne({
+    refreshTokenHash: hashToken(refreshToken),
+  }).select("_id");
+  return session ? String(session._id) : null;
+};
+
+/**
+ * Checks whether a session is still usable.
+ * @param {string} sessionId - The session ID carried in the access token.
+ * @returns {Promise<boolean>}
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  const session = await Session.exists({
+    _id: sessionId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+  return session !== null;
+};
@@ -0,0 +1,162 @@
+import { DateModel, Availability, IDate } from "../models/DateModel";
+import { ISlot, Slot, SLOT_AVAILABLE_PATTERN } from "../models/SlotModel";
+import { WaitlistEntry, WaitlistStatus } from "../models/WaitlistEntryModel";
+import { ReservationError } from "./BookingService";
+import { getExpertDayStart } from "./ScheduleService";
+import { holdSlot, releaseHold } from "./SlotHoldService";
+import { sendMail } from "./MailService";
+import { hashToken } from "./TokenService";
+
+// How long a waitlisted guest has to claim an offered slot
+const offerMinutes = () => Number(process.env.WAITLIST_OFFER_MINUTES) || 60;
+
+// Where claim links point; the frontend exchanges the token through GET /waitlist/offers/:token
+const claimUrl = (token: string) =>
+  `${process.env.APP_URL || "http://localhost:3000"}/waitlist/claim?token=${token}`;
+
+/**
+ * Offers a free slot on a date to the longest-waiting eligible guest, holding it for them.
+ * @param {ISlot} slot - The free slot.
+ * @param {IDate} date - A date the slot is on.
+ * @returns {Promise<boolean>} Whether the slot was offered.
+ * @throws When the offer mail cannot be sent; the offer and its hold are undone first.
+ */
+const offerSlot = async (slot: ISlot, date: IDate): Promise<boolean> => {
+  // Entries' date ranges are stored as the start of days in the expert's time zone
+  const day =
+    date.startsAt ?? (await getExpertDayStart(date.date, slot.expertId));
+  if (!day) return false;
+  const entry = await WaitlistEntry.findOne({
+    expertId: slot.expertId,
+    planId: slot.planId,
+    status: WaitlistStatus.WAITING,
+    $and: [
+      { $or: [{ fromDate: null }, { fromDate: { $lte: day } }] },
+      { $or: [{ toDate: null }, { toDate: { $gte: day } }] },
+    ],
+  }).sort({ createdAt: 1 });
+  if (!entry) return false;
+
+  let hold;
+  try {
+    hold = await holdSlot(String(slot._id), String(date._id), offerMinutes());
+  } catch (error) {
+    // Booked or held by someone else in the meantime
+    if (error instanceof ReservationError) return false;
+    throw error;
+  }
+
+  const offered = await WaitlistEntry.findOneAndUpdate(
+    { _id: entry._id, status: WaitlistStatus.WAITING },
+    {
+      status: WaitlistStatus.OFFERED,
+      offer: {
+        slotId: slot._id,
+        dateId: date._id,
+        tokenHash: hashToken(hold.holdToken),
+        expiresAt: hold.expiresAt,
+      },
+    },
+    { new: true }
+  );
+  if (!offered) {
+    // Another offer took this guest first; free the seat and offer it to the next one
+    await releaseHold(hold.holdToken);
+    return offerSlot(slot, date);
+  }
+
+  try {
+    await sendMail({
+      to: offered.guestEmail,
+      subject: "A slot has opened up for you",
+      text: `Hi ${offered.guestName}, a slot on ${date.date} at ${slot.timing} is now free and held for you until ${hold.expiresAt.toISOString()}. Claim it here: ${claimUrl(hold.holdToken)}`,
+    });
+  } catch (error) {
+    // An offer the guest never hears about is rolled back; they keep their place in line
+    await WaitlistEntry.updateOne(
+      {
+        _id: offered._id,
+        status: WaitlistStatus.OFFERED,
+        "offer.tokenHash": hashToken(hold.holdToken),
+      },
+      { status: WaitlistStatus.WAITING, $unset: { offer: 1 } }
+    );
+    await releaseHold(hold.holdToken);
+    throw error;
+  }
+  return true;
+};
+
+/**
+ * Offers slots that became free to the waitlist, one guest per free seat.
+ * Slots that are not available, or not on an open date, are skipped.
+ * @param {unknown[]} slotIds - The slots that were released or opened.
+ * @returns {Promise<void>}
+ */
+export const offerSlotsToWaitlist = async (
+  slotIds: unknown[]
+): Promise<void> => {
+  for (const slotId of slotIds) {
+    const slot = await Slot.findById(slotId);
+    if (!slot || !SLOT_AVAILABLE_PATTERN.test(slot.availability)) continue;
+
+    const dates = await DateModel.find({
+      slotsId: slot._id,
+      availability: Availability.available,
+    });
+    for (const date of dates) {
+      // Keep offering until the slot's free seats are all held for someone
+      let offered = false;
+      while (await offerSlot(slot, date)) offered = true;
+      if (offered) break;
+    }
+  }
+};
+
+/**
+ * Offers slots to the waitlist in the background, so the request that freed them
+ * does not wait for (or fail because of) the offers.
+ * @param {unknown[]} slotIds - The slots that were released or opened.
+ */
+export const notifyWaitlist = (slotIds: unknown[]): void => {
+  offerSlotsToWaitlist(slotIds).catch((error) =>
+    console.error("Failed to offer slots to the waitlist:", error)
+  );
+};
+
+/**
+ * Marks lapsed offers as expired and offers their slots to the next guest in line.
+ * @returns {Promise<number>} How many offers expired.
+ */
+export const expireWaitlistOffers = async (): Promise<number> => {
+  const lapsed = await WaitlistEntry.find({
+    status: WaitlistStatus.OFFERED,
+    "offer.expiresAt": { $lte: new Date() },
+  });
+
+  const slotIds: unknown[] = [];
+  for (const entry of lapsed) {
+    const expired = await WaitlistEntry.updateOne(
+      { _id: entry._id, status: WaitlistStatus.OFFERED },
+      { status: WaitlistStatus.EXPIRED }
+    );
+    if (expired.modifiedCount === 1 && entry.offer) {
+      slotIds.push(entry.offer.slotId);
+    }
+  }
+
+  await offerSlotsToWaitlist(slotIds);
+  return slotIds.length;
+};
+
+/**
+ * Periodically expires lapsed waitlist offers.
+ * @param {number} [intervalMs=60000] - How often to check.
+ * @returns {NodeJS.Timeout} The timer, so it can be stopped.
+ */
+export const startWaitlistSweeper = (intervalMs = 60 * 1000) =>
+  setInterval(() => {
+    expireWaitlistOffers().catch((error) =>
+      console.error("Failed to expire waitlist offers:", error)
+    );
+  }, intervalMs);
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { BookingSchema } from "../src/models/BookingModel";
+import {
+  BookingSeries,
+  SeriesInterval,
+} from "../src/models/BookingSeriesModel";
+import { Availability, DateModel, IDate } from "../src/models/DateModel";
+import { Guest } from "../src/models/GuestModel";
+import { KycVerification } from "../src/models/KycVerificationModel";
+import { Plan } from "../src/models/PlanModel";
+import { ISlot, Slot, SlotAvailability } from "../src/models/SlotModel";
+import { SlotHold } from "../src/models/SlotHoldModel";
+import { WaitlistEntry } from "../src/models/WaitlistEntryModel";
+import { ReservationError } from "../src/services/BookingService";
+import {
+  BookingSeriesInput,
+  reserveSeries,
+} from "../src/services/BookingSeriesService";
+import { doc, mockTransactions, query } from "./helpers";
+
+const expertId = new mongoose.Types.ObjectId();
+const planId = new mongoose.Types.ObjectId();
+
+// The expert's calendar: one date per day, each with a single 18:00 slot
+const mockCalendar = (days: Record<string, SlotAvailability | undefined>) => {
+  const dates: IDate[] = [];
+  const slots: ISlot[] = [];
+  for (const [day, availability] of Object.entries(days)) {
+    if (!availability) continue;
+    const slot = doc<ISlot>({
+      expertId,
+      planId,
+      timing: "18:00",
+      availability,
+      capacity: 1,
+      bookedSeats: availability === SlotAvailability.BOOKED ? 1 : 0,
+    });
+    slots.push(slot);
+    dates.push(
+      doc<IDate>({
+        expertId,
+        date: day,
+        availability: Availability.available,
+        slotsId: [slot._id],
+      })
+    );
+  }
+  const byId = <T extends { _id: unknown }>(items: T[], id: unknown) =>
+    items.find((item) => String(item._id) === String(id)) ?? null;
+
+  mock.method(DateModel, "findById", (id: unknown) => query(byId(dates, id)));
+  mock.method(DateModel, "find", (filter: { date: string }) =>
+    query(dates.filter((date) => date.date === filter.date))
+  );
+  mock.method(DateModel, "updateOne", () => query({ modifiedCount: 1 }));
+  mock.method(Slot, "findById", (id: unknown) => query(byId(slots, id)));
+  mock.method(Slot, "find", (filter: { _id: { $in: unknown[] } }) =>
+    query(filter._id.$in.map((id) => byId(slots, id)))
+  );
+  // Claiming the only seat fills the slot
+  mock.method(Slot, "findOneAndUpdate", (filter: { _id: unknown }) =>
+    query({ ...byId(slots, filter._id), bookedSeats: 1 })
+  );
+  mock.method(Slot, "updateOne", () => query({ modifiedCount: 1 }));
+  mock.method(Slot, "countDocuments", () => query(0));
+
+  mock.method(Plan, "findById", () =>
+    query(doc({ _id: planId, expertId, intakeQuestions: [] }))
+  );
+  mock.method(SlotHold, "findOneAndDelete", () => query(doc({})));
+  mock.method(SlotHold, "countDocuments", () => query(0));
+  mock.method(BookingSchema, "countDocuments", () => query(0));
+  mock.method(BookingSchema, "exists", () => query(null));
+  mock.method(KycVerification, "exists", () => query(null));
+  mock.method(Guest, "findOne", () => query(null));
+  mock.method(WaitlistEntry, "updateOne", () => query({ modifiedCount: 0 }));
+
+  return { dates, slots };
+};
+
+const seriesRequest = (date: IDate, slot: ISlot, occurrences: number) =>
+  ({
+    guestName: "Asha Rao",
+    guestEmail: "asha@example.com",
+    guestPhone: "+91 98765 43210",
+    guestWhatsapp: "+91 98765 43210",
+    guestProblem: "Career advice",
+    dateId: String(date._id),
+    slotId: String(slot._id),
+    expertId: String(expertId),
+    holdToken: "hold-token",
+    interval: SeriesInterval.WEEKLY,
+    occurrences,
+  }) as BookingSeriesInput;
+
+// Records the bookings and series created, as the transaction would
+const mockCreates = () => ({
+  bookings: mock.method(BookingSchema, "create", ([fields]) =>
+    Promise.resolve([doc(fields)])
+  ),
+  series: mock.method(BookingSeries, "create", ([fields]) =>
+    Promise.resolve([doc(fields)])
+  ),
+});
+
+describe("reserveSeries", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("books every session of the series on the same slot each week", async () => {
+    mockTransactions();
+    const { dates, slots } = mockCalendar({
+      "05/01/2099": SlotAvailability.AVAILABLE,
+      "12/01/2099": SlotAvailability.AVAILABLE,
+      "19/01/2099": SlotAvailability.AVAILABLE,
+    });
+    const creates = mockCreates();
+
+    const { bookings } = await reserveSeries(
+      seriesRequest(dates[0], slots[0], 3)
+    );
+
+    assert.deepEqual(
+      bookings.map((booking) => [booking.seriesIndex, booking.slotId]),
+      slots.map((slot, index) => [index, slot._id])
+    );
+    assert.equal(creates.series.mock.callCount(), 1);
+  });
+
+  it("books nothing when any session cannot be booked, naming each of them", async () => {
+    mockTransactions();
+    const { dates, slots } = mockCalendar({
+      "05/01/2099": SlotAvailability.AVAILABLE,
+      "12/01/2099": SlotAvailability.AVAILABLE,
+      "19/01/2099": undefined, // no date that day
+      "26/01/2099": SlotAvailability.BOOKED,
+    });
+    const creates = mockCreates();
+
+    await assert.rejects(
+      reserveSeries(seriesRequest(dates[0], slots[0], 4)),
+      (error: ReservationError) =>
+        error instanceof ReservationError &&
+        error.status === 409 &&
+        error.message.includes("19/01/2099") &&
+        error.message.includes("26/01/2099") &&
+        !error.message.includes("12/01/2099")
+    );
+    // Only the first session was booked, in the transaction that was rolled back
+    assert.equal(creates.bookings.mock.callCount(), 1);
+    assert.equal(creates.series.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { Role } from "../src/middleware/auth";
+import {
+  BookingSchema,
+  IBooking,
+  ScreeningStatus,
+  Status,
+} from "../src/models/BookingModel";
+import { SessionNote } from "../src/models/SessionNoteModel";
+import { Slot } from "../src/models/SlotModel";
+import {
+  BOOKING_TRANSITIONS,
+  BookingTransitionError,
+  transitionBooking,
+} from "../src/services/BookingService";
+import { doc, mockTransactions, query } from "./helpers";
+
+const admin = { id: "admin-1", role: Role.ADMIN };
+const guest = { role: Role.GUEST };
+
+const booking = (fields: Record<string, unknown> = {}) =>
+  doc<IBooking>({
+    status: Status.PENDING,
+    slotId: new mongoose.Types.ObjectId(),
+    dateId: new mongoose.Types.ObjectId(),
+    expertId: new mongoose.Types.ObjectId(),
+    ...fields,
+  });
+
+// Saves the booking with its new status, as the conditional update would
+const mockStatusUpdate = (current: IBooking) =>
+  mock.method(BookingSchema, "findOneAndUpdate", (filter, update) =>
+    query({ ...current, ...update.$set })
+  );
+
+describe("transitionBooking", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("never moves a completed, cancelled or no-show booking", async () => {
+    const transaction = mockTransactions();
+    for (const from of [Status.COMPLETED, Status.CANCELLED, Status.NO_SHOW]) {
+      for (const to of Object.values(Status)) {
+        await assert.rejects(
+          transitionBooking(booking({ status: from }), to, admin),
+          (error: BookingTransitionError) =>
+            error instanceof BookingTransitionError && error.status === 409
+        );
+      }
+    }
+    assert.equal(transaction.mock.callCount(), 0);
+  });
+
+  it("lets guests cancel but not confirm their booking", async () => {
+    mockTransactions();
+    const pending = booking();
+    mockStatusUpdate(pending);
+    mock.method(Slot, "findOneAndUpdate", () => query(null));
+
+    assert.deepEqual(BOOKING_TRANSITIONS[Status.PENDING][Status.CONFIRMED], [
+      Role.ADMIN,
+      Role.EXPERT,
+    ]);
+    await assert.rejects(
+      transitionBooking(booking(), Status.CONFIRMED, guest),
+      (error: BookingTransitionError) => error.status === 403
+    );
+
+    const cancelled = await transitionBooking(pending, Status.CANCELLED, guest);
+    assert.equal(cancelled.status, Status.CANCELLED);
+  });
+
+  it("only updates a booking that still has the status it was read with", async () => {
+    mockTransactions();
+    const pending = booking();
+    const update = mockStatusUpdate(pending);
+    mock.method(Slot, "findOneAndUpdate", () => query(null));
+
+    await transitionBooking(pending, Status.CANCELLED, admin, {
+      reason: "Expert unavailable",
+    });
+
+    const [filter, changes] = update.mock.calls[0].arguments;
+    assert.deepEqual(filter, { _id: pending._id, status: Status.PENDING });
+    const { changedAt, ...change } = changes.$push.statusHistory;
+    assert.ok(changedAt instanceof Date);
+    assert.deepEqual(change, {
+      from: Status.PENDING,
+      to: Status.CANCELLED,
+      changedBy: admin.id,
+      changedByRole: Role.ADMIN,
+      reason: "Expert unavailable",
+    });
+  });
+
+  it("fails when the booking changed status in the meantime", async () => {
+    mockTransactions();
+    mock.method(BookingSchema, "findOneAndUpdate", () => query(null));
+
+    await assert.rejects(
+      transitionBooking(booking(), Status.CANCELLED, admin),
+      /changed in the meantime/
+    );
+  });
+
+  it("gives back the seat of a cancelled booking", async () => {
+    mockTransactions();
+    const pending = booking();
+    mockStatusUpdate(pending);
+    const released: unknown[] = [];
+    mock.method(Slot, "findOneAndUpdate", (filter: { _id: unknown }) => {
+      released.push(filter._id);
+      return query(null);
+    });
+
+    await transitionBooking(pending, Status.CANCELLED, admin);
+
+    assert.deepEqual(released, [pending.slotId]);
+  });
+
+  it("does not confirm a booking held for review", async () => {
+    const transaction = mockTransactions();
+
+    await assert.rejects(
+      transitionBooking(
+        booking({ screening: { status: ScreeningStatus.HELD } }),
+        Status.CONFIRMED,
+        admin
+      ),
+      /held for review/
+    );
+    assert.equal(transaction.mock.callCount(), 0);
+  });
+
+  it("completes a booking even when its session summary cannot be published", async () => {
+    mockTransactions();
+    const confirmed = booking({ status: Status.CONFIRMED });
+    mockStatusUpdate(confirmed);
+    mock.method(SessionNote, "findOneAndUpdate", () =>
+      Promise.reject(new Error("connection lost"))
+    );
+    const logged = mock.method(console, "error", () => {});
+
+    const completed = await transitionBooking(
+      confirmed,
+      Status.COMPLETED,
+      admin
+    );
+
+    assert.equal(completed.status, Status.COMPLETED);
+    assert.equal(logged.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { Guest } from "../src/models/GuestModel";
+import { usesGuestContact } from "../src/services/GuestService";
+import { query } from "./helpers";
+
+const booking = {
+  guestEmail: " Asha@Example.com",
+  guestPhone: "+91 98765-43210",
+};
+
+describe("usesGuestContact", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("accepts the account's own email and phone, however they are typed", async () => {
+    mock.method(Guest, "findById", () =>
+      query({ email: "asha@example.com", phone: "+919876543210" })
+    );
+
+    assert.equal(await usesGuestContact("guest-1", booking), true);
+  });
+
+  it("refuses someone else's email or phone", async () => {
+    mock.method(Guest, "findById", () =>
+      query({ email: "ravi@example.com", phone: "+919876543210" })
+    );
+    assert.equal(await usesGuestContact("guest-1", booking), false);
+
+    mock.restoreAll();
+    mock.method(Guest, "findById", () =>
+      query({ email: "asha@example.com", phone: "+911234567890" })
+    );
+    assert.equal(await usesGuestContact("guest-1", booking), false);
+  });
+
+  it("accepts any phone while the account has none", async () => {
+    mock.method(Guest, "findById", () => query({ email: "asha@example.com" }));
+
+    assert.equal(await usesGuestContact("guest-1", booking), true);
+  });
+
+  it("refuses a guest whose account no longer exists", async () => {
+    mock.method(Guest, "findById", () => query(null));
+
+    assert.equal(await usesGuestContact("guest-1", booking), false);
+  });
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { BookingSchema } from "../src/models/BookingModel";
+import {
+  KycDocumentType,
+  KycStatus,
+  KycVerification,
+} from "../src/models/KycVerificationModel";
+import {
+  KycError,
+  KycSubmission,
+  reviewKyc,
+  submitKyc,
+} from "../src/services/KycService";
+import {
+  consoleTransport,
+  setMailTransport,
+} from "../src/services/MailService";
+import { doc, mockTransactions, query } from "./helpers";
+
+const submission = {
+  guestName: "Asha Rao",
+  guestEmail: "Asha@Example.com",
+  guestPhone: "+91 98765 43210",
+  documentType: KycDocumentType.PASSPORT,
+  documents: [],
+} as KycSubmission;
+
+describe("submitKyc", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("stores the guest's email and phone normalised", async () => {
+    mockTransactions();
+    mock.method(KycVerification, "findOne", () => query(null));
+    const create = mock.method(KycVerification, "create", ([fields]) =>
+      Promise.resolve([doc(fields)])
+    );
+
+    await submitKyc(submission);
+
+    const [[fields]] = create.mock.calls[0].arguments as [[KycSubmission]];
+    assert.equal(fields.guestEmail, "asha@example.com");
+    assert.equal(fields.guestPhone, "+919876543210");
+  });
+
+  it("turns away a second pending submission sent at the same time", async () => {
+    mockTransactions();
+    // Both submissions saw no pending one; the unique index rejects the second
+    mock.method(KycVerification, "findOne", () => query(null));
+    mock.method(KycVerification, "create", () =>
+      Promise.reject(Object.assign(new Error("E11000"), { code: 11000 }))
+    );
+
+    await assert.rejects(
+      submitKyc(submission),
+      (error: KycError) =>
+        error instanceof KycError &&
+        error.status === 409 &&
+        /already waiting for review/.test(error.message)
+    );
+  });
+});
+
+describe("reviewKyc", () => {
+  afterEach(() => {
+    mock.restoreAll();
+    setMailTransport(consoleTransport);
+  });
+
+  it("keeps the review when the guest cannot be mailed", async () => {
+    const verification = doc({
+      guestName: "Asha Rao",
+      guestEmail: "asha@example.com",
+      guestPhone: "+919876543210",
+      status: KycStatus.APPROVED,
+    });
+    mock.method(KycVerification, "findOneAndUpdate", () => query(verification));
+    mock.method(BookingSchema, "find", () => query([]));
+    setMailTransport({
+      send: () => Promise.reject(new Error("Mail webhook answered with 503")),
+    });
+    const logged = mock.method(console, "error", () => {});
+
+    assert.equal(
+      await reviewKyc("kyc-1", { approve: true }, "admin-1"),
+      verification
+    );
+    assert.equal(logged.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import AdminSchema, { IAdmin } from "../src/models/AdminModel";
+import {
+  clearFailedLogins,
+  isLockedOut,
+  recordFailedLogin,
+} from "../src/services/LoginLockoutService";
+import { doc, query } from "./helpers";
+
+type Stored = Record<string, unknown>;
+
+// Evaluates the few aggregation operators the lockout update uses
+const evaluate = (expression: unknown, stored: Stored): unknown => {
+  if (typeof expression === "string" && expression.startsWith("$")) {
+    return stored[expression.slice(1)];
+  }
+  if (
+    expression === null ||
+    typeof expression !== "object" ||
+    expression instanceof Date
+  ) {
+    return expression;
+  }
+  const [[operator, operands]] = Object.entries(expression);
+  const [a, b, c] = (operands as unknown[]).map((operand) =>
+    evaluate(operand, stored)
+  );
+  switch (operator) {
+    case "$add":
+      return (a as number) + (b as number);
+    case "$ifNull":
+      return a ?? b;
+    case "$gte":
+      return a >= b;
+    case "$cond":
+      return a ? b : c;
+  }
+  throw new Error(`Unsupported operator ${operator}`);
+};
+
+// Keeps the admin's stored lockout fields, applying updates as MongoDB would
+const mockAdminCollection = (stored: Stored = {}) => {
+  const findOneAndUpdate = mock.method(
+    AdminSchema,
+    "findOneAndUpdate",
+    (filter: unknown, [{ $set }]: [{ $set: Stored }]) => {
+      const changes = Object.entries($set).map(([field, expression]) => [
+        field,
+        evaluate(expression, stored),
+      ]);
+      Object.assign(stored, Object.fromEntries(changes));
+      return query({ ...stored });
+    }
+  );
+  const updateOne = mock.method(AdminSchema, "updateOne", () =>
+    query({ modifiedCount: 1 })
+  );
+  return { stored, findOneAndUpdate, updateOne };
+};
+
+describe("login lockout", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("locks the account on the fifth failed login in a row", async () => {
+    const { stored, findOneAndUpdate } = mockAdminCollection();
+    const admin = doc<IAdmin>({});
+
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      await recordFailedLogin(admin);
+      assert.equal(isLockedOut(admin), false);
+    }
+    assert.equal(stored.failedLoginAttempts, 4);
+
+    await recordFailedLogin(admin);
+    assert.equal(isLockedOut(admin), true);
+    assert.equal(stored.failedLoginAttempts, 0);
+    assert.equal(findOneAndUpdate.mock.callCount(), 5);
+  });
+
+  it("counts failures of concurrent requests that read the admin at once", async () => {
+    const { stored } = mockAdminCollection({ failedLoginAttempts: 3 });
+    const first = doc<IAdmin>({ failedLoginAttempts: 3 });
+    const second = doc<IAdmin>({ failedLoginAttempts: 3 });
+
+    await Promise.all([recordFailedLogin(first), recordFailedLogin(second)]);
+
+    assert.ok(stored.lockUntil instanceof Date);
+    assert.equal(isLockedOut(first) || isLockedOut(second), true);
+  });
+
+  it("lets the admin in again once the lock has lapsed", () => {
+    const admin = doc<IAdmin>({ lockUntil: new Date(Date.now() - 1000) });
+
+    assert.equal(isLockedOut(admin), false);
+  });
+
+  it("clears the counter and the lock only when there is something to clear", async () => {
+    const { updateOne } = mockAdminCollection();
+
+    await clearFailedLogins(doc<IAdmin>({ failedLoginAttempts: 0 }));
+    assert.equal(updateOne.mock.callCount(), 0);
+
+    const admin = doc<IAdmin>({ failedLoginAttempts: 2 });
+    await clearFailedLogins(admin);
+    assert.equal(updateOne.mock.callCount(), 1);
+    assert.equal(admin.failedLoginAttempts, 0);
+    assert.equal(admin.lockUntil, undefined);
+  });
+});
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { Expert } from "../src/models/ExpertModel";
+import { addDays, getExpertDayStart } from "../src/services/ScheduleService";
+import { query } from "./helpers";
+
+describe("addDays", () => {
+  it("steps by calendar day across months, years and leap days", () => {
+    assert.equal(addDays("25/01/2025", 7), "01/02/2025");
+    assert.equal(addDays("28/12/2025", 14), "11/01/2026");
+    assert.equal(addDays("22/02/2024", 7), "29/02/2024");
+  });
+
+  it("keeps the same weekday over a daylight saving change", () => {
+    // London moved its clocks on 30 March 2025; a weekly series stays on Thursdays
+    assert.equal(addDays("27/03/2025", 7), "03/04/2025");
+  });
+});
+
+describe("getExpertDayStart", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("starts the day at midnight in the expert's time zone", async () => {
+    mock.method(Expert, "findById", () => query({ timezone: "Asia/Kolkata" }));
+
+    assert.deepEqual(
+      await getExpertDayStart("15/03/2025", "expert-1"),
+      new Date("2025-03-14T18:30:00Z")
+    );
+  });
+
+  it("returns null for an unreadable day", async () => {
+    mock.method(Expert, "findById", () => query({ timezone: "UTC" }));
+
+    assert.equal(await getExpertDayStart("2025-03-15", "expert-1"), null);
+  });
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { Availability, DateModel, IDate } from "../src/models/DateModel";
+import { ISlot, Slot, SlotAvailability } from "../src/models/SlotModel";
+import { SlotHold } from "../src/models/SlotHoldModel";
+import { ReservationError } from "../src/services/BookingService";
+import { holdSlot } from "../src/services/SlotHoldService";
+import { hashToken } from "../src/services/TokenService";
+import { doc, mockTransactions, query } from "./helpers";
+
+const expertId = new mongoose.Types.ObjectId();
+
+// A slot with `capacity` seats, `bookedSeats` of them booked and `held` of them held
+const mockSlot = ({
+  capacity = 1,
+  bookedSeats = 0,
+  held = 0,
+  onDate = true,
+}) => {
+  const slot = doc<ISlot>({
+    expertId,
+    availability: SlotAvailability.AVAILABLE,
+    capacity,
+    bookedSeats,
+    startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  });
+  const date = doc<IDate>({
+    expertId,
+    availability: Availability.available,
+    slotsId: onDate ? [slot._id] : [],
+  });
+  mock.method(Slot, "findById", () => query(slot));
+  mock.method(DateModel, "findById", () => query(date));
+  mock.method(SlotHold, "deleteMany", () => query({ deletedCount: 0 }));
+  mock.method(SlotHold, "countDocuments", () => query(held));
+  mock.method(Slot, "updateOne", () => query({ modifiedCount: 1 }));
+  const create = mock.method(SlotHold, "create", () => Promise.resolve([]));
+  return { slot, date, create };
+};
+
+describe("holdSlot", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("holds a free seat and stores only the token's hash", async () => {
+    mockTransactions();
+    const { slot, date, create } = mockSlot({});
+
+    const { holdToken, expiresAt } = await holdSlot(
+      String(slot._id),
+      String(date._id),
+      10
+    );
+
+    assert.equal(create.mock.callCount(), 1);
+    const [[hold]] = create.mock.calls[0].arguments as [
+      [{ tokenHash: string; expiresAt: Date }],
+    ];
+    assert.equal(hold.tokenHash, hashToken(holdToken));
+    assert.equal(hold.expiresAt, expiresAt);
+    assert.ok(expiresAt.getTime() > Date.now() + 9 * 60 * 1000);
+  });
+
+  it("counts held seats as taken", async () => {
+    mockTransactions();
+    const { slot, date, create } = mockSlot({
+      capacity: 3,
+      bookedSeats: 1,
+      held: 2,
+    });
+
+    await assert.rejects(
+      holdSlot(String(slot._id), String(date._id)),
+      (error: ReservationError) =>
+        error instanceof ReservationError && error.status === 409
+    );
+    assert.equal(create.mock.callCount(), 0);
+  });
+
+  it("holds the remaining seats of a group session", async () => {
+    mockTransactions();
+    const { slot, date, create } = mockSlot({
+      capacity: 3,
+      bookedSeats: 1,
+      held: 1,
+    });
+
+    await holdSlot(String(slot._id), String(date._id));
+
+    assert.equal(create.mock.callCount(), 1);
+  });
+
+  it("refuses a slot that is not on the date", async () => {
+    mockTransactions();
+    const { slot, date, create } = mockSlot({ onDate: false });
+
+    await assert.rejects(
+      holdSlot(String(slot._id), String(date._id)),
+      /Slot does not belong to this date/
+    );
+    assert.equal(create.mock.callCount(), 0);
+  });
+});
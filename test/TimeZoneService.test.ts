@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  formatInTimeZone,
+  zonedTimeToUtc,
+} from "../src/services/TimeZoneService";
+
+describe("zonedTimeToUtc", () => {
+  it("reads a wall-clock time in the given time zone", () => {
+    assert.deepEqual(
+      zonedTimeToUtc("15/03/2025", "18:30", "Asia/Kolkata"),
+      new Date("2025-03-15T13:00:00Z")
+    );
+    assert.deepEqual(
+      zonedTimeToUtc("15/07/2025", "09:00", "America/New_York"),
+      new Date("2025-07-15T13:00:00Z")
+    );
+  });
+
+  it("moves a time skipped by a daylight saving change forward by the gap", () => {
+    // Clocks in London went from 01:00 to 02:00 on 30 March 2025
+    assert.deepEqual(
+      zonedTimeToUtc("30/03/2025", "01:30", "Europe/London"),
+      new Date("2025-03-30T01:30:00Z")
+    );
+  });
+
+  it("takes a time that happens twice the first time", () => {
+    // Clocks in London went from 02:00 back to 01:00 on 26 October 2025
+    assert.deepEqual(
+      zonedTimeToUtc("26/10/2025", "01:30", "Europe/London"),
+      new Date("2025-10-26T00:30:00Z")
+    );
+  });
+
+  it("rejects malformed or impossible dates and times", () => {
+    assert.equal(zonedTimeToUtc("2025-03-15", "18:30", "UTC"), null);
+    assert.equal(zonedTimeToUtc("31/04/2025", "18:30", "UTC"), null);
+    assert.equal(zonedTimeToUtc("15/03/2025", "24:00", "UTC"), null);
+  });
+});
+
+describe("formatInTimeZone", () => {
+  it("shows an instant as the wall-clock time and offset of the time zone", () => {
+    assert.deepEqual(
+      formatInTimeZone(new Date("2025-03-15T13:00:00Z"), "Asia/Kolkata"),
+      { date: "15/03/2025", timing: "18:30", utcOffset: "+05:30" }
+    );
+    assert.deepEqual(
+      formatInTimeZone(new Date("2025-01-01T03:00:00Z"), "America/New_York"),
+      { date: "31/12/2024", timing: "22:00", utcOffset: "-05:00" }
+    );
+  });
+});
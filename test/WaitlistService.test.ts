@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { Availability, DateModel, IDate } from "../src/models/DateModel";
+import { ISlot, Slot, SlotAvailability } from "../src/models/SlotModel";
+import { SlotHold } from "../src/models/SlotHoldModel";
+import {
+  IWaitlistEntry,
+  WaitlistEntry,
+  WaitlistStatus,
+} from "../src/models/WaitlistEntryModel";
+import {
+  consoleTransport,
+  MailMessage,
+  setMailTransport,
+} from "../src/services/MailService";
+import { offerSlotsToWaitlist } from "../src/services/WaitlistService";
+import { doc, mockTransactions, query } from "./helpers";
+
+const expertId = new mongoose.Types.ObjectId();
+
+// A free slot on an open date, and one guest waiting for it
+const mockWaitingGuest = () => {
+  const slot = doc<ISlot>({
+    expertId,
+    planId: new mongoose.Types.ObjectId(),
+    timing: "18:00",
+    availability: SlotAvailability.AVAILABLE,
+    capacity: 1,
+    bookedSeats: 0,
+    startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  });
+  const date = doc<IDate>({
+    expertId,
+    date: "05/01/2099",
+    startsAt: new Date("2099-01-05T00:00:00Z"),
+    availability: Availability.available,
+    slotsId: [slot._id],
+  });
+  const entry = doc<IWaitlistEntry>({
+    guestName: "Asha Rao",
+    guestEmail: "asha@example.com",
+    status: WaitlistStatus.WAITING,
+  });
+
+  mock.method(Slot, "findById", () => query(slot));
+  mock.method(Slot, "updateOne", () => query({ modifiedCount: 1 }));
+  mock.method(DateModel, "find", () => query([date]));
+  mock.method(DateModel, "findById", () => query(date));
+  mock.method(SlotHold, "deleteMany", () => query({ deletedCount: 0 }));
+  mock.method(SlotHold, "countDocuments", () => query(0));
+  const holds = mock.method(SlotHold, "create", () => Promise.resolve([]));
+  // Only the first lookup finds a guest; they are the only one waiting
+  const waiting = [entry];
+  mock.method(WaitlistEntry, "findOne", () => query(waiting.shift() ?? null));
+  mock.method(WaitlistEntry, "findOneAndUpdate", (filter, update) =>
+    query({ ...entry, ...update })
+  );
+  const rollbacks = mock.method(WaitlistEntry, "updateOne", () =>
+    query({ modifiedCount: 1 })
+  );
+  const releases = mock.method(SlotHold, "deleteOne", () =>
+    query({ deletedCount: 1 })
+  );
+
+  // The hash of the token the guest was offered, as stored with the hold
+  const offeredTokenHash = () =>
+    (holds.mock.calls[0].arguments[0] as [{ tokenHash: string }])[0].tokenHash;
+
+  return { slot, entry, rollbacks, releases, offeredTokenHash };
+};
+
+describe("offerSlotsToWaitlist", () => {
+  afterEach(() => {
+    mock.restoreAll();
+    setMailTransport(consoleTransport);
+  });
+
+  it("holds a freed slot for the next guest in line and tells them", async () => {
+    mockTransactions();
+    const { slot, rollbacks, releases } = mockWaitingGuest();
+    const sent: MailMessage[] = [];
+    setMailTransport({ send: async (message) => void sent.push(message) });
+
+    await offerSlotsToWaitlist([slot._id]);
+
+    assert.deepEqual(
+      sent.map((message) => message.to),
+      ["asha@example.com"]
+    );
+    assert.equal(rollbacks.mock.callCount(), 0);
+    assert.equal(releases.mock.callCount(), 0);
+  });
+
+  it("withdraws the offer and frees the seat when the guest cannot be told", async () => {
+    mockTransactions();
+    const { slot, entry, rollbacks, releases, offeredTokenHash } =
+      mockWaitingGuest();
+    setMailTransport({
+      send: () => Promise.reject(new Error("Mail webhook answered with 503")),
+    });
+
+    await assert.rejects(offerSlotsToWaitlist([slot._id]), /503/);
+
+    assert.deepEqual(rollbacks.mock.calls[0].arguments.slice(0, 2), [
+      {
+        _id: entry._id,
+        status: WaitlistStatus.OFFERED,
+        "offer.tokenHash": offeredTokenHash(),
+      },
+      { status: WaitlistStatus.WAITING, $unset: { offer: 1 } },
+    ]);
+    assert.deepEqual(releases.mock.calls[0].arguments[0], {
+      tokenHash: offeredTokenHash(),
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import mongoose from "mongoose";
+import { mock } from "node:test";
+
+/**
+ * Stands in for a Mongoose query that resolves to `value`. It can be chained like a
+ * query (`.session()`, `.sort()`, ...) and awaited, so model methods can be mocked
+ * without a database.
+ * @param {T} value - What the query resolves to.
+ */
+export const query = <T>(value: T) => {
+  const chain = {
+    session: () => chain,
+    sort: () => chain,
+    populate: () => chain,
+    lean: () => chain,
+    collation: () => chain,
+    then: <R>(
+      resolve: (value: T) => R,
+      reject?: (error: unknown) => R
+    ): Promise<R> => Promise.resolve(value).then(resolve, reject),
+  };
+  return chain;
+};
+
+/**
+ * Runs transactions straight away, without a database. A callback that throws
+ * rejects the transaction, as a rolled back one would.
+ * @returns The mock, to check how often a transaction was started.
+ */
+export const mockTransactions = () =>
+  mock.method(
+    mongoose.connection,
+    "transaction",
+    (callback: (session: unknown) => Promise<unknown>) => callback({})
+  );
+
+/**
+ * Makes a fake document out of plain fields.
+ * @param {Record<string, unknown>} fields - The document's fields; it gets a new `_id` unless one is given.
+ */
+export const doc = <T>(fields: Record<string, unknown>): T =>
+  ({
+    _id: new mongoose.Types.ObjectId(),
+    toObject() {
+      return this;
+    },
+    ...fields,
+  }) as T;
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { NextFunction, Request, Response } from "express";
+import {
+  byBodyField,
+  byIp,
+  rateLimit,
+  RateLimitOptions,
+} from "../src/middleware/rateLimit";
+import { normalizePhone } from "../src/services/KycService";
+
+let route = 0;
+
+// Each test limits a route of its own, so counters do not carry over
+const limitedRoute = (
+  options: Omit<RateLimitOptions, "route">
+): RateLimitOptions => ({ route: `test-${++route}`, ...options });
+
+// Sends a request through the middleware; resolves to 429 when it was limited, or else 200
+const send = async (
+  middleware: ReturnType<typeof rateLimit>,
+  { ip = "203.0.113.7", body = {} }: { ip?: string; body?: unknown } = {}
+): Promise<number> => {
+  let status = 200;
+  const res = {
+    set: () => res,
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  };
+  let passed = false;
+  const next: NextFunction = () => {
+    passed = true;
+  };
+  await middleware({ ip, body } as Request, res as unknown as Response, next);
+  assert.equal(passed, status === 200);
+  return status;
+};
+
+describe("rateLimit", () => {
+  afterEach(() => {
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith("RATE_LIMIT_TEST_")) delete process.env[name];
+    }
+  });
+
+  it("blocks an IP over its limit without affecting other IPs", async () => {
+    const limit = rateLimit(
+      limitedRoute({ windowMs: 60_000, buckets: [byIp(2)] })
+    );
+
+    assert.equal(await send(limit), 200);
+    assert.equal(await send(limit), 200);
+    assert.equal(await send(limit), 429);
+    assert.equal(await send(limit, { ip: "198.51.100.1" }), 200);
+  });
+
+  it("counts every spelling of a phone number as one identity", async () => {
+    const limit = rateLimit(
+      limitedRoute({
+        windowMs: 60_000,
+        buckets: [byBodyField("phone", 1, normalizePhone)],
+      })
+    );
+
+    assert.equal(
+      await send(limit, {
+        ip: "192.0.2.1",
+        body: { phone: "+91 98765 43210" },
+      }),
+      200
+    );
+    assert.equal(
+      await send(limit, { ip: "192.0.2.2", body: { phone: "+91-9876543210" } }),
+      429
+    );
+  });
+
+  it("takes the route's window and maximums from the environment", async () => {
+    const options = limitedRoute({
+      windowMs: 60_000,
+      buckets: [byIp(1), byBodyField("guestEmail", 1)],
+    });
+    const prefix = `RATE_LIMIT_TEST_${route}`;
+    process.env[`${prefix}_IP_MAX`] = "3";
+    process.env[`${prefix}_GUEST_EMAIL_MAX`] = "2";
+    const limit = rateLimit(options);
+    const body = { guestEmail: "Asha@Example.com" };
+
+    assert.equal(await send(limit, { body }), 200);
+    assert.equal(await send(limit, { body }), 200);
+    assert.equal(await send(limit, { body }), 429);
+  });
+});